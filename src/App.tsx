@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
+import { BrowserRouter, Route, Routes, matchPath, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { AppProvider } from './contexts/AppContext';
 import { Navbar } from './components/Navbar';
 import { Footer } from './components/Footer';
 import { CartDrawer } from './components/CartDrawer';
+import { RequireAuth } from './components/RequireAuth';
 import { HomePage } from './pages/HomePage';
 import { ProductsPage } from './pages/ProductsPage';
 import { ProductStoryPage } from './pages/ProductStoryPage';
@@ -17,94 +19,36 @@ import CheckoutSuccessPage from './pages/CheckoutSuccessPage';
 import UpiVerifyPage from './pages/UpiVerifyPage';
 import { Toaster } from './components/ui/sonner';
 import { toast } from 'sonner@2.0.3';
-
-type PageType = 'home' | 'products' | 'bundles' | 'product-story' | 'discover' | 'profile' | 'checkout' | 'checkout-success' | 'upi-verify' | 'login' | 'signup' | 'debug' | '404';
+import { ROUTES, fromLegacyHash, paths } from './routes';
+import type { RouteParams } from './routes';
 
 interface AppState {
-  currentPage: PageType;
-  selectedProductId?: string;
   isCartOpen: boolean;
   isMobileMenuOpen: boolean;
 }
 
+// Tabs and dialogs that live in the URL shouldn't replay the page transition
+const pageKey = (pathname: string) => {
+  if (matchPath(ROUTES.bundle, pathname)) return ROUTES.bundles;
+  if (matchPath(ROUTES.profile, pathname)) return ROUTES.profile;
+  return pathname;
+};
+
 function AppContent() {
+  const location = useLocation();
+  const navigate = useNavigate();
   const [appState, setAppState] = useState<AppState>({
-    currentPage: 'home',
     isCartOpen: false,
     isMobileMenuOpen: false,
   });
 
-  // Simple client-side routing
+  // Redirect links from the old hash router onto real paths
   useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1);
-      const [page, productId] = hash.split('/');
-      
-      switch (page) {
-        case 'products':
-          setAppState(prev => ({ ...prev, currentPage: 'products' }));
-          break;
-        case 'bundles':
-          setAppState(prev => ({ ...prev, currentPage: 'bundles' }));
-          break;
-        case 'product':
-          if (productId) {
-            setAppState(prev => ({ 
-              ...prev, 
-              currentPage: 'product-story', 
-              selectedProductId: productId 
-            }));
-          }
-          break;
-        case 'discover':
-          setAppState(prev => ({ ...prev, currentPage: 'discover' }));
-          break;
-        case 'profile':
-          setAppState(prev => ({ ...prev, currentPage: 'profile' }));
-          break;
-        case 'checkout':
-          setAppState(prev => ({ ...prev, currentPage: 'checkout' }));
-          break;
-        case 'checkout-success':
-          setAppState(prev => ({ ...prev, currentPage: 'checkout-success' }));
-          break;
-        case 'upi-verify':
-          setAppState(prev => ({ ...prev, currentPage: 'upi-verify' }));
-          break;
-        case 'login':
-          setAppState(prev => ({ ...prev, currentPage: 'login' }));
-          break;
-        case 'signup':
-          setAppState(prev => ({ ...prev, currentPage: 'signup' }));
-          break;
-        case 'debug':
-          setAppState(prev => ({ ...prev, currentPage: 'debug' }));
-          break;
-        case '':
-        case 'home':
-          setAppState(prev => ({ ...prev, currentPage: 'home' }));
-          break;
-        default:
-          setAppState(prev => ({ ...prev, currentPage: '404' }));
-      }
-    };
-
-    // Listen for hash changes
-    window.addEventListener('hashchange', handleHashChange);
-    
-    // Handle initial load
-    handleHashChange();
-
-    return () => window.removeEventListener('hashchange', handleHashChange);
-  }, []);
-
-  const navigateToProduct = (productId: string) => {
-    window.location.hash = `product/${productId}`;
-  };
-
-  const navigateBack = () => {
-    window.history.back();
-  };
+    const target = fromLegacyHash(window.location.hash);
+    if (target) {
+      navigate(target, { replace: true });
+    }
+  }, [navigate]);
 
   const handleCartOpen = () => {
     setAppState(prev => ({ ...prev, isCartOpen: true }));
@@ -135,42 +79,6 @@ function AppContent() {
     return () => window.removeEventListener('cart-add', handleCartAdd);
   }, []);
 
-  const renderPage = () => {
-    switch (appState.currentPage) {
-      case 'home':
-        return <HomePage />;
-      case 'products':
-        return <ProductsPage />;
-      case 'bundles':
-        return <BundlesPage />;
-      case 'product-story':
-        return appState.selectedProductId ? (
-          <ProductStoryPage 
-            productId={appState.selectedProductId} 
-            onBack={navigateBack}
-          />
-        ) : <HomePage />;
-      case 'discover':
-        return <DiscoverPage />;
-      case 'profile':
-        return <ProfilePage />;
-      case 'checkout':
-        return <CheckoutPage />;
-      case 'checkout-success':
-        return <CheckoutSuccessPage />;
-      case 'upi-verify':
-        return <UpiVerifyPage />;
-      case 'login':
-        return <LoginPage />;
-      case 'signup':
-        return <SignupPage />;
-      case 'debug':
-        return <DebugPage />;
-      default:
-        return <NotFoundPage />;
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background text-foreground">
       {/* Navigation */}
@@ -183,13 +91,30 @@ function AppContent() {
       <main className="relative">
         <AnimatePresence mode="wait">
           <motion.div
-            key={appState.currentPage}
+            key={pageKey(location.pathname)}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -20 }}
             transition={{ duration: 0.3 }}
           >
-            {renderPage()}
+            <Routes location={location}>
+              <Route path={ROUTES.home} element={<HomePage />} />
+              <Route path={ROUTES.products} element={<ProductsPage />} />
+              <Route path={ROUTES.product} element={<ProductStoryRoute />} />
+              <Route path={ROUTES.bundles} element={<BundlesPage />} />
+              <Route path={ROUTES.bundle} element={<BundlesPage />} />
+              <Route path={ROUTES.discover} element={<DiscoverPage />} />
+              <Route element={<RequireAuth />}>
+                <Route path={ROUTES.profile} element={<ProfilePage />} />
+                <Route path={ROUTES.checkout} element={<CheckoutPage />} />
+                <Route path={ROUTES.checkoutSuccess} element={<CheckoutSuccessPage />} />
+                <Route path={ROUTES.upiVerify} element={<UpiVerifyPage />} />
+              </Route>
+              <Route path={ROUTES.login} element={<LoginPage />} />
+              <Route path={ROUTES.signup} element={<SignupPage />} />
+              <Route path={ROUTES.debug} element={<DebugPage />} />
+              <Route path="*" element={<NotFoundPage />} />
+            </Routes>
           </motion.div>
         </AnimatePresence>
       </main>
@@ -246,6 +171,14 @@ function AppContent() {
   );
 }
 
+// Reads the slug from the URL so product pages survive a refresh
+const ProductStoryRoute: React.FC = () => {
+  const { slug = '' } = useParams<RouteParams<'product'>>();
+  const navigate = useNavigate();
+
+  return <ProductStoryPage slug={slug} onBack={() => navigate(-1)} />;
+};
+
 // Placeholder components for other pages
 const DiscoverPage: React.FC = () => (
   <div className="min-h-screen pt-16 flex items-center justify-center">
@@ -256,40 +189,46 @@ const DiscoverPage: React.FC = () => (
   </div>
 );
 
-const NotFoundPage: React.FC = () => (
-  <div className="min-h-screen pt-16 flex items-center justify-center">
-    <motion.div
-      className="text-center"
-      initial={{ opacity: 0, scale: 0.8 }}
-      animate={{ opacity: 1, scale: 1 }}
-    >
-      <motion.h1
-        className="text-8xl md:text-9xl mb-4 bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent"
-        animate={{ scale: [1, 1.05, 1] }}
-        transition={{ duration: 2, repeat: Infinity }}
-      >
-        404
-      </motion.h1>
-      <h2 className="text-2xl mb-4">Page Not Found</h2>
-      <p className="text-muted-foreground mb-6">
-        The page you're looking for doesn't exist in the future.
-      </p>
-      <motion.button
-        className="px-6 py-3 bg-gradient-to-r from-cyan-500 to-purple-500 rounded-lg hover:from-cyan-400 hover:to-purple-400 transition-all"
-        whileHover={{ scale: 1.05 }}
-        whileTap={{ scale: 0.95 }}
-        onClick={() => window.location.hash = 'home'}
+const NotFoundPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen pt-16 flex items-center justify-center">
+      <motion.div
+        className="text-center"
+        initial={{ opacity: 0, scale: 0.8 }}
+        animate={{ opacity: 1, scale: 1 }}
       >
-        Return Home
-      </motion.button>
-    </motion.div>
-  </div>
-);
+        <motion.h1
+          className="text-8xl md:text-9xl mb-4 bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent"
+          animate={{ scale: [1, 1.05, 1] }}
+          transition={{ duration: 2, repeat: Infinity }}
+        >
+          404
+        </motion.h1>
+        <h2 className="text-2xl mb-4">Page Not Found</h2>
+        <p className="text-muted-foreground mb-6">
+          The page you're looking for doesn't exist in the future.
+        </p>
+        <motion.button
+          className="px-6 py-3 bg-gradient-to-r from-cyan-500 to-purple-500 rounded-lg hover:from-cyan-400 hover:to-purple-400 transition-all"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => navigate(paths.home())}
+        >
+          Return Home
+        </motion.button>
+      </motion.div>
+    </div>
+  );
+};
 
 export default function App() {
   return (
-    <AppProvider>
-      <AppContent />
-    </AppProvider>
+    <BrowserRouter>
+      <AppProvider>
+        <AppContent />
+      </AppProvider>
+    </BrowserRouter>
   );
 }
\ No newline at end of file
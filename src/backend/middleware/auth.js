@@ -9,6 +9,23 @@ export const isAuthenticated = (req, res, next) => {
   });
 };
 
+// Middleware to check if user is an admin
+export const isAdmin = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({
+      success: false,
+      message: 'You must be logged in to access this resource',
+    });
+  }
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      message: 'Admin access required',
+    });
+  }
+  return next();
+};
+
 // Middleware to check if user is NOT authenticated (for login/signup pages)
 export const isNotAuthenticated = (req, res, next) => {
   if (!req.isAuthenticated()) {
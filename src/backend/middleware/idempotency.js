@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import IdempotencyKey from '../models/IdempotencyKey.js';
+
+const HEADER = 'idempotency-key';
+
+// An unfinished key this old belongs to a request that never completed
+// (e.g. the server restarted mid-request), so a retry may take it over
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+const hashBody = (body) => crypto.createHash('sha256').update(JSON.stringify(body ?? {})).digest('hex');
+
+// Run the route, keeping a successful response for replay and releasing the
+// key otherwise
+const runOnce = (res, next, filter) => {
+  const json = res.json.bind(res);
+  res.json = (responseBody) => {
+    const settle =
+      res.statusCode < 300
+        ? IdempotencyKey.updateOne(filter, {
+            status: 'completed',
+            responseStatus: res.statusCode,
+            responseBody,
+          })
+        : IdempotencyKey.deleteOne(filter);
+    settle
+      .catch((error) => console.error('Idempotency key error:', error))
+      .finally(() => json(responseBody));
+    return res;
+  };
+
+  next();
+};
+
+// Make a route safe to retry. A request carrying an Idempotency-Key header
+// runs once per user and key; repeats get the first successful response
+// back. Failed responses aren't kept, so the client can retry with the same
+// key. Requests without the header run normally.
+export const idempotent = (scope) => async (req, res, next) => {
+  const key = req.get(HEADER);
+  if (!key) return next();
+
+  if (key.length > 255) {
+    return res.status(400).json({
+      success: false,
+      message: 'Idempotency key is too long',
+    });
+  }
+
+  const filter = { user: req.user._id, key };
+  const requestHash = hashBody(req.body);
+
+  try {
+    await IdempotencyKey.create({ ...filter, scope, requestHash });
+    return runOnce(res, next, filter);
+  } catch (error) {
+    if (error.code !== 11000) return next(error);
+  }
+
+  try {
+    const existing = await IdempotencyKey.findOne(filter).lean();
+
+    if (!existing) {
+      // Released between the insert and the lookup
+      return res.status(409).json({
+        success: false,
+        message: 'Please retry the request',
+      });
+    }
+
+    if (existing.scope !== scope || existing.requestHash !== requestHash) {
+      return res.status(422).json({
+        success: false,
+        message: 'Idempotency key was already used for a different request',
+      });
+    }
+
+    if (existing.status !== 'completed') {
+      if (existing.createdAt < new Date(Date.now() - STALE_AFTER_MS)) {
+        const { modifiedCount } = await IdempotencyKey.updateOne(
+          { ...filter, status: 'in_progress', createdAt: existing.createdAt },
+          { createdAt: new Date() }
+        );
+        if (modifiedCount === 1) return runOnce(res, next, filter);
+      }
+      return res.status(409).json({
+        success: false,
+        message: 'A request with this idempotency key is still in progress',
+      });
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    res.status(existing.responseStatus).json(existing.responseBody);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+
+const couponSchema = new mongoose.Schema(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      default: '',
+    },
+    // percentage: `value` percent off; fixed: `value` off; free_shipping: waives shipping
+    type: {
+      type: String,
+      required: true,
+      enum: ['percentage', 'fixed', 'free_shipping'],
+    },
+    value: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Upper bound on a percentage discount
+    maxDiscount: {
+      type: Number,
+      min: 0,
+    },
+    // When set, the discount only applies to lines in these categories
+    categories: {
+      type: [String],
+      default: [],
+    },
+    minOrderValue: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    startsAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    // Total redemptions allowed across all users; unlimited when unset
+    usageLimit: {
+      type: Number,
+      min: 1,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    perUserLimit: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Coupon = mongoose.model('Coupon', couponSchema);
+
+export default Coupon;
@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+
+// How many uses of a coupon one customer holds. Redeeming only adds to the
+// count while it is under the coupon's per-user limit, and the unique index
+// keeps concurrent checkouts from each starting a record of their own, so
+// the limit holds however many orders are placed at once.
+const couponRedemptionSchema = new mongoose.Schema(
+  {
+    code: {
+      type: String,
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+couponRedemptionSchema.index({ code: 1, user: 1 }, { unique: true });
+
+const CouponRedemption = mongoose.model('CouponRedemption', couponRedemptionSchema);
+
+export default CouponRedemption;
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+// Client-supplied key for a request that must not run twice, such as
+// creating an order. The first response is stored so a retry with the same
+// key gets it back instead of repeating the work.
+const idempotencyKeySchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    // Route the key was used on
+    scope: {
+      type: String,
+      required: true,
+    },
+    // Hash of the request body, so a key reused for a different request is
+    // caught rather than answered with the wrong response
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['in_progress', 'completed'],
+      default: 'in_progress',
+    },
+    responseStatus: Number,
+    responseBody: mongoose.Schema.Types.Mixed,
+    // Keys only need to outlive client retries
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      expires: 60 * 60 * 24,
+    },
+  }
+);
+
+idempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+
+const IdempotencyKey = mongoose.model('IdempotencyKey', idempotencyKeySchema);
+
+export default IdempotencyKey;
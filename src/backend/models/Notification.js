@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+
+const notificationSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: [
+        'order_status',
+        'payment_failed',
+        'refund_issued',
+        'return_rejected',
+        'price_drop',
+        'back_in_stock',
+        'review_reply',
+      ],
+    },
+    // Preference group the type belongs to, so users can opt out of a whole
+    // category at once
+    category: {
+      type: String,
+      required: true,
+      enum: ['orders', 'payments', 'wishlist', 'reviews'],
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      default: '',
+    },
+    // Storefront path to open, e.g. /products/quantum-watch
+    link: {
+      type: String,
+    },
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+    },
+    order: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, read: 1 });
+
+const Notification = mongoose.model('Notification', notificationSchema);
+
+export default Notification;
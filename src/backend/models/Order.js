@@ -22,6 +22,13 @@ const orderSchema = new mongoose.Schema(
           type: mongoose.Schema.Types.ObjectId,
           ref: 'Bundle',
         },
+        variant: {
+          type: Map,
+          of: String,
+        },
+        sku: {
+          type: String,
+        },
         name: {
           type: String,
           required: true,
@@ -39,6 +46,17 @@ const orderSchema = new mongoose.Schema(
         image: {
           type: String,
         },
+        // Units taken back off the order, by cancellation or approved return
+        cancelledQuantity: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
+        returnedQuantity: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
       },
     ],
     totalAmount: {
@@ -46,19 +64,104 @@ const orderSchema = new mongoose.Schema(
       required: true,
       min: 0,
     },
+    // Coupon applied when the order was placed
+    coupon: {
+      code: String,
+      type: {
+        type: String,
+        enum: ['percentage', 'fixed', 'free_shipping'],
+      },
+      discount: Number,
+    },
+    // Stock held for this order until payment is captured or fails
+    reservation: {
+      status: {
+        type: String,
+        enum: ['reserved', 'committed', 'released'],
+      },
+      expiresAt: Date,
+      // Paid after the reservation was released and the stock was gone by
+      // then; the reservation stays released and the order is listed by
+      // payment reconciliation until someone deals with it
+      shortfall: Boolean,
+      items: [
+        {
+          _id: false,
+          product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Product',
+          },
+          variantId: mongoose.Schema.Types.ObjectId,
+          quantity: Number,
+        },
+      ],
+    },
+    // Breakdown computed by the pricing service when the order was placed
+    pricing: {
+      subtotal: Number,
+      discount: Number,
+      shipping: Number,
+      tax: Number,
+      total: Number,
+    },
+    // Changed only through services/orderLifecycle.js
     status: {
       type: String,
-      enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+      enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned'],
       default: 'pending',
     },
+    // Every status change, oldest first
+    statusHistory: [
+      {
+        _id: false,
+        from: {
+          type: String,
+        },
+        to: {
+          type: String,
+          required: true,
+        },
+        actor: {
+          type: {
+            type: String,
+            enum: ['customer', 'admin', 'system'],
+            required: true,
+          },
+          user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+          },
+        },
+        reason: {
+          type: String,
+          default: '',
+        },
+        at: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     shippingAddress: {
       fullName: String,
+      // Given to the courier and the payment provider
+      phone: String,
       address: String,
       city: String,
       state: String,
       zipCode: String,
       country: String,
     },
+    // Unset on orders placed before shipping methods
+    shippingMethod: {
+      type: String,
+      enum: ['standard', 'express'],
+    },
+    // Delivery window quoted when the order was placed
+    deliveryEstimate: {
+      earliest: Date,
+      latest: Date,
+    },
     paymentMethod: {
       type: String,
       enum: ['razorpay', 'upi', 'cash_on_delivery'],
@@ -66,10 +169,101 @@ const orderSchema = new mongoose.Schema(
     },
     paymentStatus: {
       type: String,
-      enum: ['pending', 'completed', 'failed', 'refunded'],
+      enum: ['pending', 'completed', 'failed', 'expired', 'partially_refunded', 'refunded'],
       default: 'pending',
     },
-    // Razorpay-specific fields
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Cancellations and return requests, oldest first. Managed by
+    // services/refunds.js.
+    refunds: [
+      {
+        kind: {
+          type: String,
+          enum: ['cancellation', 'return'],
+          required: true,
+        },
+        // Returns wait in `requested` until the store approves or rejects
+        // them; cancellations complete straight away. `processing` while the
+        // refund is with the payment provider.
+        status: {
+          type: String,
+          enum: ['requested', 'processing', 'completed', 'rejected'],
+          default: 'requested',
+        },
+        reasonCode: {
+          type: String,
+          required: true,
+        },
+        comment: {
+          type: String,
+          default: '',
+          maxlength: 500,
+        },
+        items: [
+          {
+            _id: false,
+            itemId: {
+              type: mongoose.Schema.Types.ObjectId,
+              required: true,
+            },
+            name: String,
+            quantity: {
+              type: Number,
+              required: true,
+              min: 1,
+            },
+          },
+        ],
+        amount: {
+          type: Number,
+          default: 0,
+        },
+        gatewayRefundId: {
+          type: String,
+        },
+        // Why a return was rejected
+        resolutionNote: {
+          type: String,
+          default: '',
+        },
+        requestedBy: {
+          type: {
+            type: String,
+            enum: ['customer', 'admin', 'system'],
+          },
+          user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+          },
+        },
+        requestedAt: {
+          type: Date,
+          default: Date.now,
+        },
+        resolvedAt: {
+          type: Date,
+        },
+      },
+    ],
+    // Provider that collected the payment (services/payments), with its
+    // references for the payment attempt and the captured payment. Cash on
+    // delivery orders have none.
+    paymentProvider: {
+      type: String,
+      enum: ['razorpay', 'fake'],
+      default: 'razorpay',
+    },
+    paymentIntentId: {
+      type: String,
+    },
+    paymentId: {
+      type: String,
+    },
+    // Razorpay references on orders paid before providers were pluggable
     razorpayOrderId: {
       type: String,
     },
@@ -79,6 +273,20 @@ const orderSchema = new mongoose.Schema(
     razorpaySignature: {
       type: String,
     },
+    // Last time payment reconciliation looked at the order; the job checks
+    // the orders it has looked at least recently first
+    lastReconciledAt: {
+      type: Date,
+    },
+    // Cash on delivery: when the courier collected the total, as recorded
+    // by the admin who marked the order delivered
+    codCollectedAt: {
+      type: Date,
+    },
+    codCollectedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
     // UPI-specific fields
     upiTransactionId: {
       type: String,
@@ -95,6 +303,8 @@ const orderSchema = new mongoose.Schema(
   }
 );
 
+orderSchema.index({ lastReconciledAt: 1, createdAt: 1 });
+
 // Generate unique order number
 orderSchema.pre('save', async function (next) {
   if (!this.orderNumber) {
@@ -105,6 +315,19 @@ orderSchema.pre('save', async function (next) {
   next();
 });
 
+// Status changes must go through transitionOrder so they are checked and
+// recorded in the history
+orderSchema.pre('save', function (next) {
+  if (!this.isNew && this.isModified('status') && !this.$locals.statusTransition) {
+    return next(new Error(`Order status changed to ${this.status} without a transition`));
+  }
+  next();
+});
+
+orderSchema.post('save', function () {
+  this.$locals.statusTransition = false;
+});
+
 const Order = mongoose.model('Order', orderSchema);
 
 export default Order;
\ No newline at end of file
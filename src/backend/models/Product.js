@@ -50,6 +50,11 @@ const productSchema = new mongoose.Schema(
       default: 0,
       min: 0,
     },
+    // Shipping weight in kg; shipping assumes a default when unset
+    weight: {
+      type: Number,
+      min: 0,
+    },
     rating: {
       type: Number,
       default: 0,
@@ -70,6 +75,43 @@ const productSchema = new mongoose.Schema(
       type: Map,
       of: String,
     },
+    // Selectable options, e.g. { name: 'colors', values: ['neon-blue', 'plasma-white'] }
+    options: [
+      {
+        name: {
+          type: String,
+          required: true,
+        },
+        values: [
+          {
+            type: String,
+          },
+        ],
+      },
+    ],
+    // Per-combination price and stock; combinations not listed here use the
+    // base price and stock above
+    variants: [
+      {
+        sku: {
+          type: String,
+        },
+        attributes: {
+          type: Map,
+          of: String,
+          required: true,
+        },
+        price: {
+          type: Number,
+          min: 0,
+        },
+        stock: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
+      },
+    ],
     badge: {
       type: String,
       enum: ['new', 'bestseller', 'limited', ''],
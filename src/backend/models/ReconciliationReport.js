@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+
+// Something the reconciliation job found, or did, about one order
+const discrepancySchema = new mongoose.Schema(
+  {
+    order: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true,
+    },
+    orderNumber: String,
+    provider: String,
+    // Payment status before the job looked at the order
+    localStatus: String,
+    // 'paid', 'failed' or 'open' as the provider reported it; unset when
+    // the provider couldn't be asked
+    gatewayStatus: String,
+    gatewayPaymentId: String,
+    localAmount: Number,
+    gatewayAmount: Number,
+    action: {
+      type: String,
+      enum: ['completed', 'failed', 'expired', 'refunded', 'none'],
+      required: true,
+    },
+    note: String,
+    // Paid, but holding no stock (see services/inventory.js commitReservation)
+    stockShortfall: Boolean,
+  },
+  { _id: false }
+);
+
+// One pass of the payment reconciliation job (services/reconciliation.js).
+// Only orders that disagreed with the provider, or couldn't be checked,
+// are listed.
+const reconciliationReportSchema = new mongoose.Schema(
+  {
+    trigger: {
+      type: String,
+      enum: ['schedule', 'admin'],
+      required: true,
+    },
+    triggeredBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    finishedAt: Date,
+    ordersChecked: {
+      type: Number,
+      default: 0,
+    },
+    completed: {
+      type: Number,
+      default: 0,
+    },
+    failed: {
+      type: Number,
+      default: 0,
+    },
+    expired: {
+      type: Number,
+      default: 0,
+    },
+    refunded: {
+      type: Number,
+      default: 0,
+    },
+    stockShortfalls: {
+      type: Number,
+      default: 0,
+    },
+    lookupErrors: {
+      type: Number,
+      default: 0,
+    },
+    discrepancies: [discrepancySchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+reconciliationReportSchema.index({ startedAt: -1 });
+
+const ReconciliationReport = mongoose.model('ReconciliationReport', reconciliationReportSchema);
+
+export default ReconciliationReport;
@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+
+const reviewSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5,
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: 120,
+      default: '',
+    },
+    comment: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 2000,
+    },
+    // Image URLs attached by the reviewer
+    photos: [
+      {
+        type: String,
+      },
+    ],
+    // Set when the reviewer has a paid order containing the product
+    verifiedPurchase: {
+      type: Boolean,
+      default: false,
+    },
+    // Users who marked the review helpful; the count is kept alongside for sorting
+    helpfulVotes: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    helpfulCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Other customers' replies; the reviewer is notified of each one
+    replies: [
+      {
+        user: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        comment: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: 1000,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One review per customer per product
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, createdAt: -1 });
+
+// Refresh the product's average rating and review count
+reviewSchema.statics.recalculateProductRating = async function (productId) {
+  const [stats] = await this.aggregate([
+    { $match: { product: new mongoose.Types.ObjectId(productId) } },
+    { $group: { _id: '$product', average: { $avg: '$rating' }, count: { $sum: 1 } } },
+  ]);
+
+  await mongoose.model('Product').updateOne(
+    { _id: productId },
+    {
+      rating: stats ? Math.round(stats.average * 10) / 10 : 0,
+      reviews: stats ? stats.count : 0,
+    }
+  );
+};
+
+// Only new reviews and rating edits change the product's rating; helpful
+// votes and text edits don't
+reviewSchema.pre('save', function (next) {
+  this.$locals.ratingChanged = this.isNew || this.isModified('rating');
+  next();
+});
+
+reviewSchema.post('save', async function () {
+  if (this.$locals.ratingChanged) {
+    await this.constructor.recalculateProductRating(this.product);
+  }
+});
+
+reviewSchema.post('deleteOne', { document: true, query: false }, async function () {
+  await this.constructor.recalculateProductRating(this.product);
+});
+
+const Review = mongoose.model('Review', reviewSchema);
+
+export default Review;
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+
+// One step of a rate table: `rate` applies up to `upTo` (kg or units,
+// depending on the rule's `tierBy`). The last tier leaves `upTo` unset to
+// cover everything heavier.
+const tierSchema = new mongoose.Schema(
+  {
+    upTo: {
+      type: Number,
+      min: 0,
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+// How a zone prices and times one shipping method
+const methodRuleSchema = new mongoose.Schema(
+  {
+    method: {
+      type: String,
+      required: true,
+      enum: ['standard', 'express'],
+    },
+    tierBy: {
+      type: String,
+      enum: ['weight', 'quantity'],
+      default: 'weight',
+    },
+    tiers: {
+      type: [tierSchema],
+      validate: [(tiers) => tiers.length > 0, 'A shipping method needs at least one rate tier'],
+    },
+    // Orders worth at least this much (after discounts) ship free; never
+    // free when unset
+    freeShippingThreshold: {
+      type: Number,
+      min: 0,
+    },
+    // Delivery window in business days after the order is placed
+    minDays: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    maxDays: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const shippingZoneSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    // Leading digits of the PIN codes in the zone, e.g. "560" for
+    // Bengaluru. A PIN code belongs to the zone with its longest matching
+    // prefix, so a catch-all zone can list single digits.
+    pinPrefixes: {
+      type: [{ type: String, match: /^\d{1,6}$/ }],
+      validate: [(prefixes) => prefixes.length > 0, 'A zone needs at least one PIN prefix'],
+    },
+    methods: {
+      type: [methodRuleSchema],
+      validate: [(methods) => methods.length > 0, 'A zone needs at least one shipping method'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+shippingZoneSchema.index({ pinPrefixes: 1 });
+
+const ShippingZone = mongoose.model('ShippingZone', shippingZoneSchema);
+
+export default ShippingZone;
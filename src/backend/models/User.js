@@ -34,6 +34,12 @@ const userSchema = new mongoose.Schema(
       type: String,
       default: '',
     },
+    // Admins can move orders through fulfilment
+    role: {
+      type: String,
+      enum: ['customer', 'admin'],
+      default: 'customer',
+    },
     cart: [
       {
         productId: {
@@ -44,6 +50,11 @@ const userSchema = new mongoose.Schema(
           type: mongoose.Schema.Types.ObjectId,
           ref: 'Bundle',
         },
+        // Selected options, e.g. { colors: 'neon-blue' }
+        variant: {
+          type: Map,
+          of: String,
+        },
         quantity: {
           type: Number,
           default: 1,
@@ -67,16 +78,92 @@ const userSchema = new mongoose.Schema(
         ref: 'Order',
       },
     ],
+    // Named products-page filters, stored as the versioned query string the
+    // page reads and writes
+    filterPresets: [
+      {
+        name: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: 60,
+        },
+        query: {
+          type: String,
+          default: '',
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // Saved shipping addresses; exactly one is the default while any exist
+    addresses: [
+      {
+        label: {
+          type: String,
+          trim: true,
+          maxlength: 30,
+          default: 'Home',
+        },
+        fullName: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        phone: {
+          type: String,
+          required: true,
+        },
+        address: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        city: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        state: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        zipCode: {
+          type: String,
+          required: true,
+          match: /^[1-9]\d{5}$/,
+        },
+        country: {
+          type: String,
+          default: 'India',
+        },
+        isDefault: {
+          type: Boolean,
+          default: false,
+        },
+      },
+    ],
     preferences: {
       theme: {
         type: String,
         enum: ['light', 'dark'],
         default: 'dark',
       },
+      // Master switch for in-app notifications
       notifications: {
         type: Boolean,
         default: true,
       },
+      // Per-category opt-outs, applied while the master switch is on
+      notificationCategories: {
+        orders: { type: Boolean, default: true },
+        payments: { type: Boolean, default: true },
+        wishlist: { type: Boolean, default: true },
+        reviews: { type: Boolean, default: true },
+      },
     },
   },
   {
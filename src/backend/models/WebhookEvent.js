@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+// Ledger of webhook events already applied. Providers redeliver events
+// until they are acknowledged, and may send them out of order, so each
+// event is claimed here before it touches an order.
+const webhookEventSchema = new mongoose.Schema(
+  {
+    provider: {
+      type: String,
+      required: true,
+    },
+    // The provider's id for the event
+    eventId: {
+      type: String,
+      required: true,
+    },
+    type: String,
+    order: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Order',
+    },
+    // When the provider says the event happened
+    occurredAt: Date,
+    // Unset while the event is still being applied
+    processedAt: Date,
+    // 'ignored' when the event changed nothing, e.g. a failure reported after
+    // the payment was captured
+    outcome: {
+      type: String,
+      enum: ['applied', 'ignored'],
+    },
+    // Providers stop redelivering well within this
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+      expires: 60 * 60 * 24 * 30,
+    },
+  }
+);
+
+webhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+const WebhookEvent = mongoose.model('WebhookEvent', webhookEventSchema);
+
+export default WebhookEvent;
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+
+// Price and stock watch for a wishlisted product. The last seen price and
+// availability are what the alert job compares against.
+const wishlistAlertSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    // Price when the product was saved
+    savedPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    lastPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    wasInStock: {
+      type: Boolean,
+      default: true,
+    },
+    priceDrop: {
+      type: Boolean,
+      default: true,
+    },
+    backInStock: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+wishlistAlertSchema.index({ user: 1, product: 1 }, { unique: true });
+
+const WishlistAlert = mongoose.model('WishlistAlert', wishlistAlertSchema);
+
+export default WishlistAlert;
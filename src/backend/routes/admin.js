@@ -0,0 +1,299 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import Order from '../models/Order.js';
+import ReconciliationReport from '../models/ReconciliationReport.js';
+import { isAdmin } from '../middleware/auth.js';
+import { releaseCoupon } from '../services/pricing.js';
+import { releaseReservation, restockItems } from '../services/inventory.js';
+import {
+  ORDER_TRANSITIONS,
+  OrderTransitionError,
+  adminActor,
+  transitionOrder,
+} from '../services/orderLifecycle.js';
+import { RefundError, openQuantity, resolveReturn } from '../services/refunds.js';
+import { PaymentProviderError } from '../services/payments/index.js';
+import { publishOrderStatus } from '../services/orderEvents.js';
+import { runReconciliation } from '../services/reconciliation.js';
+import { recordCashCollection } from '../services/orderPayments.js';
+import { notifyOrderStatus, notifyRefundIssued, notifyReturnRejected } from '../services/notifications.js';
+
+const router = express.Router();
+
+// @route   GET /api/admin/orders
+// @desc    List orders, newest first
+// @access  Admin
+router.get('/orders', isAdmin, async (req, res) => {
+  try {
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const query = {};
+    if (ORDER_TRANSITIONS[req.query.status]) query.status = req.query.status;
+    if (req.query.paymentStatus) query.paymentStatus = String(req.query.paymentStatus);
+    if (req.query.paymentMethod) query.paymentMethod = String(req.query.paymentMethod);
+
+    const [orders, total] = await Promise.all([
+      Order.find(query)
+        .sort('-createdAt')
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('user', 'name email'),
+      Order.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      orders,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      total,
+    });
+  } catch (error) {
+    console.error('Admin get orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching orders',
+    });
+  }
+});
+
+// @route   PUT /api/admin/orders/:orderId/status
+// @desc    Move an order to its next status
+// @access  Admin
+router.put(
+  '/orders/:orderId/status',
+  isAdmin,
+  [
+    body('status').isIn(Object.keys(ORDER_TRANSITIONS)).withMessage('Invalid order status'),
+    body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason is too long'),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const order = mongoose.Types.ObjectId.isValid(req.params.orderId)
+        ? await Order.findById(req.params.orderId)
+        : null;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const { status, reason } = req.body;
+      const actor = adminActor(req.user);
+      // Delivering a cash on delivery order means the courier collected it
+      const collectsCash = order.paymentMethod === 'cash_on_delivery' && order.paymentStatus === 'pending';
+      if (status === 'delivered' && collectsCash) {
+        recordCashCollection(order, actor);
+      }
+      transitionOrder(order, status, { actor, reason });
+      await order.save();
+
+      // A cancelled order gives back what it was holding. Stock already sold
+      // to the order (cash on delivery, or paid) goes back on the shelf.
+      // Only an order still waiting on its payment holds a coupon use: a
+      // failed payment already gave it back and a paid order has used it.
+      if (status === 'cancelled') {
+        if (order.reservation?.status === 'committed') {
+          await restockItems(
+            order.items
+              .map((item) => ({
+                productId: item.productId,
+                bundleId: item.bundleId,
+                variant: item.variant,
+                quantity: openQuantity(order, item),
+              }))
+              .filter((item) => item.quantity > 0)
+          );
+        } else {
+          await releaseReservation(order);
+        }
+        if (order.paymentStatus === 'pending') {
+          await releaseCoupon(order.coupon?.code, order.user);
+        }
+      }
+
+      publishOrderStatus(order);
+      await notifyOrderStatus(order);
+
+      res.json({
+        success: true,
+        message: `Order marked ${status}`,
+        order,
+      });
+    } catch (error) {
+      if (error instanceof OrderTransitionError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Admin update order status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error updating order status',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/admin/orders/:orderId/returns/:returnId
+// @desc    Approve (refund and restock) or reject a return request
+// @access  Admin
+router.put(
+  '/orders/:orderId/returns/:returnId',
+  isAdmin,
+  [
+    body('action').isIn(['approve', 'reject']).withMessage('Action must be approve or reject'),
+    body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note is too long'),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const order = mongoose.Types.ObjectId.isValid(req.params.orderId)
+        ? await Order.findById(req.params.orderId)
+        : null;
+      const request = order?.refunds.id(req.params.returnId);
+      if (!request) {
+        return res.status(404).json({
+          success: false,
+          message: 'Return request not found',
+        });
+      }
+
+      const { action, note } = req.body;
+      const approve = action === 'approve';
+      const amount = await resolveReturn(order, request, { approve, note, actor: adminActor(req.user) });
+
+      if (!approve) {
+        await notifyReturnRejected(order, note || '');
+      } else {
+        publishOrderStatus(order);
+        if (order.status === 'returned') await notifyOrderStatus(order);
+        if (amount > 0) await notifyRefundIssued(order, amount);
+      }
+
+      res.json({
+        success: true,
+        message: approve ? 'Return approved' : 'Return rejected',
+        order,
+      });
+    } catch (error) {
+      if (error instanceof RefundError || error instanceof PaymentProviderError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Admin resolve return error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error resolving return',
+      });
+    }
+  }
+);
+
+// @route   GET /api/admin/reconciliation
+// @desc    List payment reconciliation reports, newest first
+// @access  Admin
+router.get('/reconciliation', isAdmin, async (req, res) => {
+  try {
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    // Runs that found nothing are only noise unless asked for
+    const query = req.query.all === 'true' ? {} : { 'discrepancies.0': { $exists: true } };
+
+    const [reports, total] = await Promise.all([
+      ReconciliationReport.find(query)
+        .sort('-startedAt')
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('-discrepancies'),
+      ReconciliationReport.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      reports,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      total,
+    });
+  } catch (error) {
+    console.error('Admin get reconciliation reports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching reconciliation reports',
+    });
+  }
+});
+
+// @route   GET /api/admin/reconciliation/:reportId
+// @desc    Get a reconciliation report with its discrepancies
+// @access  Admin
+router.get('/reconciliation/:reportId', isAdmin, async (req, res) => {
+  try {
+    const report = mongoose.Types.ObjectId.isValid(req.params.reportId)
+      ? await ReconciliationReport.findById(req.params.reportId).populate('triggeredBy', 'name email')
+      : null;
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    console.error('Admin get reconciliation report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching reconciliation report',
+    });
+  }
+});
+
+// @route   POST /api/admin/reconciliation
+// @desc    Reconcile unpaid orders with the payment provider now
+// @access  Admin
+router.post('/reconciliation', isAdmin, async (req, res) => {
+  try {
+    const report = await runReconciliation({ trigger: 'admin', triggeredBy: req.user._id });
+
+    res.json({
+      success: true,
+      message: `Checked ${report.ordersChecked} order(s), found ${report.discrepancies.length} discrepancies`,
+      report,
+    });
+  } catch (error) {
+    console.error('Admin run reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error running reconciliation',
+    });
+  }
+});
+
+export default router;
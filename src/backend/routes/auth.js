@@ -126,15 +126,22 @@ router.post(
   }
 );
 
+// Only same-origin paths are honoured as a post-login destination
+const safeReturnTo = (value, fallback) =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//')
+    ? value
+    : fallback;
+
 // @route   GET /api/auth/google
 // @desc    Authenticate with Google
 // @access  Public
-router.get(
-  '/google',
+router.get('/google', (req, res, next) => {
+  // The OAuth state round-trips the page to return to after login
   passport.authenticate('google', {
     scope: ['profile', 'email'],
-  })
-);
+    state: safeReturnTo(req.query.returnTo, '/profile'),
+  })(req, res, next);
+});
 
 // @route   GET /api/auth/google/callback
 // @desc    Google OAuth callback
@@ -142,11 +149,12 @@ router.get(
 router.get(
   '/google/callback',
   passport.authenticate('google', {
-    failureRedirect: `${process.env.FRONTEND_URL}/#/login?error=auth_failed`,
+    failureRedirect: `${process.env.FRONTEND_URL}/login?error=auth_failed`,
   }),
   (req, res) => {
     // Successful authentication, redirect to frontend
-    res.redirect(`${process.env.FRONTEND_URL}/#/profile`);
+    const returnTo = safeReturnTo(req.query.state, '/profile');
+    res.redirect(`${process.env.FRONTEND_URL}${returnTo}`);
   }
 );
 
@@ -0,0 +1,101 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Notification from '../models/Notification.js';
+import { isAuthenticated } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// @route   GET /api/notifications
+// @desc    Get your notifications, newest first, with the unread count
+// @access  Private
+router.get('/', isAuthenticated, async (req, res) => {
+  try {
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 50);
+
+    const query = { user: req.user._id };
+    if (req.query.unread === 'true') query.read = false;
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(query),
+      Notification.countDocuments({ user: req.user._id, read: false }),
+    ]);
+
+    res.json({
+      success: true,
+      notifications,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      total,
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching notifications',
+    });
+  }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark all your notifications as read
+// @access  Private
+router.put('/read-all', isAuthenticated, async (req, res) => {
+  try {
+    await Notification.updateMany({ user: req.user._id, read: false }, { $set: { read: true } });
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      unreadCount: 0,
+    });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating notifications',
+    });
+  }
+});
+
+// @route   PUT /api/notifications/:notificationId/read
+// @desc    Mark a notification as read
+// @access  Private
+router.put('/:notificationId/read', isAuthenticated, async (req, res) => {
+  try {
+    const notification = mongoose.Types.ObjectId.isValid(req.params.notificationId)
+      ? await Notification.findOneAndUpdate(
+          { _id: req.params.notificationId, user: req.user._id },
+          { $set: { read: true } },
+          { new: true }
+        )
+      : null;
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found',
+      });
+    }
+
+    const unreadCount = await Notification.countDocuments({ user: req.user._id, read: false });
+
+    res.json({
+      success: true,
+      notification,
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating notification',
+    });
+  }
+});
+
+export default router;
@@ -1,124 +1,240 @@
 import express from 'express';
-import Razorpay from 'razorpay';
-import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
 import { isAuthenticated } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
 import Order from '../models/Order.js';
+import { CouponError, PricingError, ShippingError, quoteOrder } from '../services/pricing.js';
+import { abandonPendingOrder, createPendingOrder } from '../services/checkout.js';
+import { confirmCashOnDelivery, recordFailure, recordPayment } from '../services/orderPayments.js';
+import { COD_MAX_ORDER_VALUE, checkCodEligibility } from '../services/cod.js';
+import { isFinalPaymentStatus, subscribeToOrder, toStatusUpdate } from '../services/orderEvents.js';
+import {
+  PaymentProviderError,
+  WebhookSignatureError,
+  activeProviderName,
+  getPaymentProvider,
+  setWebhookReceiver,
+} from '../services/payments/index.js';
+import { addressRules, normalizePhone } from '../utils/addresses.js';
+import { claimWebhookEvent, finishWebhookEvent, releaseWebhookEvent } from '../services/webhookEvents.js';
 
 const router = express.Router();
 
-// Initialize Razorpay
-const razorpay = new Razorpay({
-  key_id: process.env.RAZORPAY_KEY_ID || 'rzp_test_YOUR_KEY_ID_HERE',
-  key_secret: process.env.RAZORPAY_KEY_SECRET || 'YOUR_KEY_SECRET_HERE',
-});
+// The courier and the payment provider both need a mobile number
+const shippingAddressRules = addressRules('shippingAddress.');
 
-// ============================================================================
-// CREATE RAZORPAY ORDER
-// ============================================================================
-router.post('/create-order', isAuthenticated, async (req, res) => {
+// Open a payment intent for a new order with the active provider. Returns
+// what the storefront adapter for that provider needs to collect it. If the
+// intent can't be opened the order is called off, so the stock and coupon
+// use it took don't wait on the sweeper and a retry starts clean.
+const startPayment = async (order, method, user) => {
   try {
-    const { items, shippingAddress } = req.body;
-
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'Cart items are required',
-      });
-    }
-
-    // Calculate total amount
-    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const shipping = subtotal > 50 ? 0 : 10;
-    const tax = subtotal * 0.1;
-    const totalAmount = subtotal + shipping + tax;
-
-    // Create order in database with pending payment
-    const order = new Order({
-      user: req.user._id,
-      items,
-      totalAmount,
-      shippingAddress,
-      paymentMethod: 'razorpay',
-      paymentStatus: 'pending',
-      status: 'pending',
+    const provider = getPaymentProvider();
+    const { intentId, clientParams } = await provider.createIntent({
+      order,
+      method,
+      customer: { email: user.email, contact: normalizePhone(order.shippingAddress.phone) },
     });
 
+    order.paymentProvider = provider.name;
+    order.paymentIntentId = intentId;
     await order.save();
 
-    // Create Razorpay order
-    const razorpayOrder = await razorpay.orders.create({
-      amount: Math.round(totalAmount * 100), // Amount in paise (₹1 = 100 paise)
-      currency: 'INR',
-      receipt: order.orderNumber,
-      notes: {
-        orderId: order._id.toString(),
-        userId: req.user._id.toString(),
-        userEmail: req.user.email,
-      },
-    });
+    return { provider: provider.name, ...clientParams };
+  } catch (error) {
+    await abandonPendingOrder(order, 'Payment could not be started');
+    throw error;
+  }
+};
+
+// Apply a webhook delivery from `providerName` exactly once. Replays are
+// skipped by the event ledger; events arriving out of order are safe because
+// payment status only moves forward. Throws WebhookSignatureError if the
+// delivery isn't authentic.
+const handleWebhook = async (providerName, delivery) => {
+  const event = getPaymentProvider(providerName).parseWebhook(delivery);
+  const { eventId, type, orderId, paymentId } = event;
+
+  if (!(await claimWebhookEvent(providerName, event))) {
+    console.log(`Skipping already processed webhook event ${eventId}`);
+    return;
+  }
 
-    // Update order with Razorpay order ID
-    order.razorpayOrderId = razorpayOrder.id;
-    await order.save();
+  try {
+    let order = null;
+    let applied = false;
+
+    if (type === 'payment.captured' || type === 'payment.failed') {
+      order = mongoose.Types.ObjectId.isValid(orderId) ? await Order.findById(orderId) : null;
+      if (order) {
+        applied =
+          type === 'payment.captured'
+            ? await recordPayment(order, paymentId, 'Payment captured')
+            : await recordFailure(order);
+      }
+    } else {
+      console.log(`Unhandled event type: ${type}`);
+    }
 
-    res.json({
-      success: true,
-      orderId: order._id,
-      razorpayOrderId: razorpayOrder.id,
-      amount: razorpayOrder.amount,
-      currency: razorpayOrder.currency,
-      keyId: process.env.RAZORPAY_KEY_ID,
-    });
+    await finishWebhookEvent(providerName, eventId, { order, applied });
   } catch (error) {
-    console.error('Error creating Razorpay order:', error);
+    await releaseWebhookEvent(providerName, eventId);
+    throw error;
+  }
+};
+
+// The fake provider delivers its webhooks in-process
+setWebhookReceiver(handleWebhook);
+
+// ============================================================================
+// QUOTE (price breakdown the create endpoints will charge)
+// ============================================================================
+router.post('/quote', isAuthenticated, async (req, res) => {
+  try {
+    const { items, couponCode, pinCode, shippingMethod } = req.body;
+    let options = { couponCode, userId: req.user._id, pinCode, shippingMethod };
+    const problems = {};
+
+    // A rejected code, shipping method or PIN code still gets a quote,
+    // priced without it, along with the reason
+    for (;;) {
+      try {
+        const quote = await quoteOrder(items, options);
+        return res.json({
+          success: true,
+          quote,
+          ...problems,
+        });
+      } catch (error) {
+        if (error instanceof CouponError && options.couponCode) {
+          problems.couponError = error.message;
+          options = { ...options, couponCode: undefined };
+        } else if (error instanceof ShippingError && options.shippingMethod) {
+          problems.shippingError = error.message;
+          options = { ...options, shippingMethod: undefined };
+        } else if (error instanceof ShippingError && options.pinCode) {
+          problems.shippingError = error.message;
+          options = { ...options, pinCode: undefined };
+        } else {
+          throw error;
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error creating quote:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to create order',
+      message: 'Failed to calculate order total',
       error: error.message,
     });
   }
 });
 
 // ============================================================================
-// VERIFY RAZORPAY PAYMENT
+// CREATE PAYMENT (card, netbanking and wallets through the provider's UI)
+// ============================================================================
+router.post(
+  '/create-order',
+  isAuthenticated,
+  shippingAddressRules,
+  idempotent('create-order'),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { items, shippingAddress, shippingMethod, couponCode } = req.body;
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cart items are required',
+        });
+      }
+
+      // Prices come from the database, never from the request
+      const quote = await quoteOrder(items, {
+        couponCode,
+        userId: req.user._id,
+        pinCode: shippingAddress.zipCode,
+        shippingMethod,
+      });
+
+      // Create order in database with pending payment and reserved stock
+      const order = await createPendingOrder(req.user, quote, {
+        shippingAddress,
+        paymentMethod: 'razorpay',
+      });
+
+      const intent = await startPayment(order, 'card', req.user);
+
+      res.json({
+        success: true,
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        totalAmount: order.totalAmount,
+        intent,
+      });
+    } catch (error) {
+      if (error instanceof PricingError || error instanceof PaymentProviderError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Error creating payment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create order',
+        error: error.message,
+      });
+    }
+  }
+);
+
+// ============================================================================
+// VERIFY PAYMENT (confirmation from the provider's UI)
 // ============================================================================
 router.post('/verify-payment', isAuthenticated, async (req, res) => {
   try {
-    const { razorpay_order_id, razorpay_payment_id, razorpay_signature, orderId } = req.body;
+    const { orderId, payload } = req.body;
 
-    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+    if (!orderId || !payload || typeof payload !== 'object') {
       return res.status(400).json({
         success: false,
         message: 'Missing payment verification parameters',
       });
     }
 
-    // Find the order
-    const order = await Order.findById(orderId);
+    const order = mongoose.Types.ObjectId.isValid(orderId) ? await Order.findById(orderId) : null;
 
-    if (!order) {
+    if (!order || order.user.toString() !== req.user._id.toString()) {
       return res.status(404).json({
         success: false,
         message: 'Order not found',
       });
     }
 
-    // Verify signature
-    const body = razorpay_order_id + '|' + razorpay_payment_id;
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
-      .update(body.toString())
-      .digest('hex');
-
-    const isAuthentic = expectedSignature === razorpay_signature;
+    const { verified, paymentId } = await getPaymentProvider(order.paymentProvider).verify({
+      intentId: order.paymentIntentId,
+      payload,
+    });
 
-    if (isAuthentic) {
-      // Payment is verified
-      order.paymentStatus = 'completed';
-      order.status = 'processing';
-      order.razorpayPaymentId = razorpay_payment_id;
-      order.razorpaySignature = razorpay_signature;
-      await order.save();
+    if (verified) {
+      // The webhook may already have recorded it
+      await recordPayment(order, paymentId, 'Payment verified');
 
       res.json({
         success: true,
@@ -126,9 +242,7 @@ router.post('/verify-payment', isAuthenticated, async (req, res) => {
         order,
       });
     } else {
-      // Invalid signature
-      order.paymentStatus = 'failed';
-      await order.save();
+      await recordFailure(order);
 
       res.status(400).json({
         success: false,
@@ -148,204 +262,286 @@ router.post('/verify-payment', isAuthenticated, async (req, res) => {
 // ============================================================================
 // RAZORPAY WEBHOOK (for handling payment events)
 // ============================================================================
-router.post('/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+router.post('/webhook', async (req, res) => {
   try {
-    const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
-    const webhookSignature = req.headers['x-razorpay-signature'];
-
-    if (webhookSecret) {
-      // Verify webhook signature
-      const expectedSignature = crypto
-        .createHmac('sha256', webhookSecret)
-        .update(JSON.stringify(req.body))
-        .digest('hex');
-
-      if (webhookSignature !== expectedSignature) {
-        console.error('Webhook signature verification failed');
-        return res.status(400).send('Webhook signature verification failed');
-      }
-    }
-
-    const event = req.body.event;
-    const payload = req.body.payload.payment.entity;
-
-    // Handle different events
-    switch (event) {
-      case 'payment.captured':
-        // Payment successful
-        const orderId = payload.notes?.orderId;
-        if (orderId) {
-          const order = await Order.findById(orderId);
-          if (order && order.paymentStatus !== 'completed') {
-            order.paymentStatus = 'completed';
-            order.status = 'processing';
-            order.razorpayPaymentId = payload.id;
-            await order.save();
-          }
-        }
-        break;
-
-      case 'payment.failed':
-        // Payment failed
-        const failedOrderId = payload.notes?.orderId;
-        if (failedOrderId) {
-          const order = await Order.findById(failedOrderId);
-          if (order) {
-            order.paymentStatus = 'failed';
-            await order.save();
-          }
-        }
-        break;
-
-      default:
-        console.log(`Unhandled event type: ${event}`);
-    }
-
+    await handleWebhook('razorpay', { rawBody: req.rawBody, headers: req.headers });
     res.json({ status: 'ok' });
   } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.error('Webhook signature verification failed');
+      return res.status(error.statusCode).send(error.message);
+    }
     console.error('Webhook error:', error);
     res.status(500).json({ error: 'Webhook handler failed' });
   }
 });
 
 // ============================================================================
-// CREATE UPI PAYMENT (Alternative using Razorpay UPI)
+// CREATE UPI PAYMENT
 // ============================================================================
-router.post('/create-upi-payment', isAuthenticated, async (req, res) => {
-  try {
-    const { items, shippingAddress, upiVPA } = req.body;
+// Confirmation arrives by webhook once the customer approves the payment in
+// their UPI app.
+router.post(
+  '/create-upi-payment',
+  isAuthenticated,
+  shippingAddressRules,
+  idempotent('create-upi-payment'),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
 
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({
+      const { items, shippingAddress, shippingMethod, upiVPA, couponCode } = req.body;
+
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cart items are required',
+        });
+      }
+
+      if (!upiVPA) {
+        return res.status(400).json({
+          success: false,
+          message: 'UPI VPA is required',
+        });
+      }
+
+      // Prices come from the database, never from the request
+      const quote = await quoteOrder(items, {
+        couponCode,
+        userId: req.user._id,
+        pinCode: shippingAddress.zipCode,
+        shippingMethod,
+      });
+      const totalAmount = quote.total;
+
+      // Create order with UPI payment method and reserved stock
+      const order = await createPendingOrder(req.user, quote, {
+        shippingAddress,
+        paymentMethod: 'upi',
+        upiVPA,
+      });
+
+      const intent = await startPayment(order, 'upi', req.user);
+
+      // Generate UPI payment link
+      const upiLink = `upi://pay?pa=${upiVPA}&pn=ProductLab&am=${totalAmount}&cu=INR&tn=Order ${order.orderNumber}`;
+
+      res.json({
+        success: true,
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        totalAmount,
+        intent,
+        upiLink,
+        message: 'UPI payment initiated. Please complete payment on your UPI app.',
+      });
+    } catch (error) {
+      if (error instanceof PricingError || error instanceof PaymentProviderError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Error creating UPI payment:', error);
+      res.status(500).json({
         success: false,
-        message: 'Cart items are required',
+        message: 'Failed to create UPI payment',
+        error: error.message,
       });
     }
+  }
+);
+
+// ============================================================================
+// CASH ON DELIVERY
+// ============================================================================
+router.post('/cod-eligibility', isAuthenticated, async (req, res) => {
+  try {
+    const { items, shippingAddress, shippingMethod, couponCode } = req.body;
 
-    if (!upiVPA) {
+    if (!items || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'UPI VPA is required',
+        message: 'Cart items are required',
       });
     }
 
-    // Calculate total amount
-    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const shipping = subtotal > 50 ? 0 : 10;
-    const tax = subtotal * 0.1;
-    const totalAmount = subtotal + shipping + tax;
-
-    // Create order with UPI payment method
-    const order = new Order({
-      user: req.user._id,
-      items,
-      totalAmount,
-      shippingAddress,
-      paymentMethod: 'upi',
-      paymentStatus: 'pending',
-      status: 'pending',
-      upiVPA,
+    const quote = await quoteOrder(items, {
+      couponCode,
+      userId: req.user._id,
+      pinCode: shippingAddress?.zipCode,
+      shippingMethod,
     });
-
-    await order.save();
-
-    // Create Razorpay UPI order
-    const razorpayOrder = await razorpay.orders.create({
-      amount: Math.round(totalAmount * 100),
-      currency: 'INR',
-      receipt: order.orderNumber,
-      method: 'upi',
-      notes: {
-        orderId: order._id.toString(),
-        userId: req.user._id.toString(),
-        upiVPA,
-      },
-    });
-
-    order.razorpayOrderId = razorpayOrder.id;
-    await order.save();
-
-    // Generate UPI payment link
-    const upiLink = `upi://pay?pa=${upiVPA}&pn=ProductLab&am=${totalAmount}&cu=INR&tn=Order ${order.orderNumber}`;
+    const { eligible, reasons } = await checkCodEligibility(req.user, quote, shippingAddress);
 
     res.json({
       success: true,
-      orderId: order._id,
-      orderNumber: order.orderNumber,
-      razorpayOrderId: razorpayOrder.id,
-      upiLink,
-      totalAmount,
-      keyId: process.env.RAZORPAY_KEY_ID,
-      message: 'UPI payment initiated. Please complete payment on your UPI app.',
+      eligible,
+      reasons,
+      maxOrderValue: COD_MAX_ORDER_VALUE,
     });
   } catch (error) {
-    console.error('Error creating UPI payment:', error);
+    if (error instanceof PricingError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error checking COD eligibility:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to create UPI payment',
+      message: 'Failed to check cash on delivery',
       error: error.message,
     });
   }
 });
 
-// ============================================================================
-// VERIFY UPI PAYMENT
-// ============================================================================
-router.post('/verify-upi/:orderId', isAuthenticated, async (req, res) => {
-  try {
-    const { orderId } = req.params;
-    const { razorpay_payment_id, razorpay_order_id, razorpay_signature } = req.body;
+// The order goes straight to processing; the courier collects the total
+router.post(
+  '/create-cod-order',
+  isAuthenticated,
+  shippingAddressRules,
+  idempotent('create-cod-order'),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
 
-    const order = await Order.findById(orderId);
+      const { items, shippingAddress, shippingMethod, couponCode } = req.body;
 
-    if (!order) {
-      return res.status(404).json({
-        success: false,
-        message: 'Order not found',
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cart items are required',
+        });
+      }
+
+      // Prices come from the database, never from the request
+      const quote = await quoteOrder(items, {
+        couponCode,
+        userId: req.user._id,
+        pinCode: shippingAddress.zipCode,
+        shippingMethod,
       });
-    }
 
-    if (order.paymentMethod !== 'upi') {
-      return res.status(400).json({
+      const { eligible, reasons } = await checkCodEligibility(req.user, quote, shippingAddress);
+      if (!eligible) {
+        return res.status(400).json({
+          success: false,
+          message: reasons[0],
+          reasons,
+        });
+      }
+
+      const order = await createPendingOrder(req.user, quote, {
+        shippingAddress,
+        paymentMethod: 'cash_on_delivery',
+        paymentProvider: null,
+      });
+      try {
+        await confirmCashOnDelivery(order);
+      } catch (error) {
+        await abandonPendingOrder(order, 'Order could not be confirmed');
+        throw error;
+      }
+
+      res.json({
+        success: true,
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        totalAmount: order.totalAmount,
+        message: 'Order placed. Please keep the amount ready for the courier.',
+      });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Error creating COD order:', error);
+      res.status(500).json({
         success: false,
-        message: 'Invalid payment method for this order',
+        message: 'Failed to place order',
+        error: error.message,
       });
     }
+  }
+);
+
+// ============================================================================
+// SIMULATE PAYMENT (fake provider only)
+// ============================================================================
+// Stands in for the customer paying (or not) at the gateway. Only exists
+// while PAYMENT_PROVIDER=fake.
+router.post(
+  '/fake/simulate',
+  isAuthenticated,
+  [
+    body('orderId').isMongoId().withMessage('Invalid order'),
+    body('outcome').isIn(['success', 'failure']).withMessage('Outcome must be success or failure'),
+    body('delayMs').optional().isInt({ min: 0, max: 60000 }).withMessage('Delay must be 0-60000ms').toInt(),
+  ],
+  async (req, res) => {
+    try {
+      if (activeProviderName() !== 'fake') {
+        return res.status(404).json({
+          success: false,
+          message: 'Route not found',
+        });
+      }
+
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { orderId, outcome, delayMs } = req.body;
+      const order = await Order.findOne({ _id: orderId, user: req.user._id });
 
-    // Verify signature
-    const body = razorpay_order_id + '|' + razorpay_payment_id;
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
-      .update(body.toString())
-      .digest('hex');
+      if (!order || order.paymentProvider !== 'fake') {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
 
-    if (expectedSignature === razorpay_signature) {
-      order.paymentStatus = 'completed';
-      order.status = 'processing';
-      order.razorpayPaymentId = razorpay_payment_id;
-      order.razorpaySignature = razorpay_signature;
-      await order.save();
+      const result = getPaymentProvider('fake').simulate(order.paymentIntentId, { outcome, delayMs });
 
       res.json({
         success: true,
-        message: 'UPI payment verified successfully',
-        order,
+        ...result,
       });
-    } else {
-      res.status(400).json({
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Error simulating payment:', error);
+      res.status(500).json({
         success: false,
-        message: 'Payment verification failed',
+        message: 'Failed to simulate payment',
       });
     }
-  } catch (error) {
-    console.error('Error verifying UPI payment:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to verify UPI payment',
-      error: error.message,
-    });
   }
-});
+);
 
 // ============================================================================
 // GET PAYMENT STATUS
@@ -354,7 +550,7 @@ router.get('/status/:orderId', isAuthenticated, async (req, res) => {
   try {
     const { orderId } = req.params;
 
-    const order = await Order.findById(orderId);
+    const order = mongoose.Types.ObjectId.isValid(orderId) ? await Order.findById(orderId) : null;
 
     if (!order) {
       return res.status(404).json({
@@ -373,10 +569,7 @@ router.get('/status/:orderId', isAuthenticated, async (req, res) => {
 
     res.json({
       success: true,
-      paymentStatus: order.paymentStatus,
-      paymentMethod: order.paymentMethod,
-      orderStatus: order.status,
-      totalAmount: order.totalAmount,
+      ...toStatusUpdate(order),
     });
   } catch (error) {
     console.error('Error getting payment status:', error);
@@ -388,6 +581,88 @@ router.get('/status/:orderId', isAuthenticated, async (req, res) => {
   }
 });
 
+// ============================================================================
+// ORDER STATUS STREAM (Server-Sent Events)
+// ============================================================================
+// Sends the current status, then every change until the payment settles.
+// Clients fall back to polling /status/:orderId if the stream drops.
+router.get('/stream/:orderId', isAuthenticated, async (req, res) => {
+  try {
+    const { orderId } = req.params;
+
+    const order = mongoose.Types.ObjectId.isValid(orderId) ? await Order.findById(orderId) : null;
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (order.user.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied',
+      });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Don't let a proxy hold events back
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let heartbeat;
+    let unsubscribe = () => {};
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    const write = (chunk) => {
+      if (closed) return;
+      res.write(chunk);
+      // compression() buffers output until it's flushed
+      res.flush?.();
+    };
+
+    const send = (update) => {
+      write(`event: status\ndata: ${JSON.stringify(update)}\n\n`);
+      if (isFinalPaymentStatus(update)) close();
+    };
+
+    req.on('close', close);
+
+    // Listen before reading the current state so nothing published in
+    // between is missed
+    unsubscribe = subscribeToOrder(order._id, send);
+    const current = await Order.findById(order._id);
+    send(toStatusUpdate(current));
+
+    if (!closed) {
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), 25 * 1000);
+    }
+  } catch (error) {
+    console.error('Error streaming order status:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to stream order status',
+      error: error.message,
+    });
+  }
+});
+
 // ============================================================================
 // FETCH PAYMENT DETAILS (for order history)
 // ============================================================================
@@ -395,21 +670,25 @@ router.get('/details/:paymentId', isAuthenticated, async (req, res) => {
   try {
     const { paymentId } = req.params;
 
-    // Fetch payment from Razorpay
-    const payment = await razorpay.payments.fetch(paymentId);
+    // Only payments for the customer's own orders, from whichever provider
+    // took them
+    const order = await Order.findOne({
+      user: req.user._id,
+      $or: [{ paymentId }, { razorpayPaymentId: paymentId }],
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found',
+      });
+    }
+
+    const payment = await getPaymentProvider(order.paymentProvider).fetchPayment(paymentId);
 
     res.json({
       success: true,
-      payment: {
-        id: payment.id,
-        amount: payment.amount / 100, // Convert paise to rupees
-        currency: payment.currency,
-        status: payment.status,
-        method: payment.method,
-        email: payment.email,
-        contact: payment.contact,
-        createdAt: payment.created_at,
-      },
+      payment,
     });
   } catch (error) {
     console.error('Error fetching payment details:', error);
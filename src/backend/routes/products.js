@@ -1,6 +1,9 @@
 import express from 'express';
+import mongoose from 'mongoose';
+import { query, validationResult } from 'express-validator';
 import Product from '../models/Product.js';
 import { optionalAuth } from '../middleware/auth.js';
+import { searchProducts, suggest } from '../services/search.js';
 
 const router = express.Router();
 
@@ -10,6 +13,7 @@ const router = express.Router();
 router.get('/', optionalAuth, async (req, res) => {
   try {
     const {
+      ids,
       category,
       search,
       minPrice,
@@ -23,6 +27,11 @@ router.get('/', optionalAuth, async (req, res) => {
     // Build query
     let query = { isActive: true };
 
+    // Specific products, e.g. the ones in a cart or wishlist
+    if (ids) {
+      query._id = { $in: listParam(ids).filter((id) => mongoose.Types.ObjectId.isValid(id)) };
+    }
+
     if (category) {
       query.category = category;
     }
@@ -43,10 +52,11 @@ router.get('/', optionalAuth, async (req, res) => {
     }
 
     // Execute query with pagination
+    const pageSize = Math.min(Math.max(Number(limit) || 12, 1), 100);
     const products = await Product.find(query)
       .sort(sort)
-      .limit(limit * 1)
-      .skip((page - 1) * limit)
+      .limit(pageSize)
+      .skip((page - 1) * pageSize)
       .exec();
 
     const count = await Product.countDocuments(query);
@@ -54,7 +64,7 @@ router.get('/', optionalAuth, async (req, res) => {
     res.json({
       success: true,
       products,
-      totalPages: Math.ceil(count / limit),
+      totalPages: Math.ceil(count / pageSize),
       currentPage: Number(page),
       total: count,
     });
@@ -67,6 +77,96 @@ router.get('/', optionalAuth, async (req, res) => {
   }
 });
 
+// Comma-separated list query param, e.g. ?tags=wireless,rgb
+const listParam = (value) =>
+  (Array.isArray(value) ? value.join(',') : value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const numberParam = (value) => (value === undefined || value === '' ? undefined : Number(value));
+
+// Optional price bound: one non-negative number
+const priceParam = (name, message) =>
+  query(name)
+    .optional({ values: 'falsy' })
+    .isString()
+    .withMessage(message)
+    .bail()
+    .isFloat({ min: 0 })
+    .withMessage(message);
+
+// @route   GET /api/products/search
+// @desc    Typo-tolerant product search with facet counts
+// @access  Public
+router.get(
+  '/search',
+  optionalAuth,
+  [
+    // A repeated parameter arrives as an array
+    query('q').optional().isString().withMessage('Search text must be a single value'),
+    priceParam('minPrice', 'Minimum price must be a number'),
+    priceParam('maxPrice', 'Maximum price must be a number'),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { q, inStock, sort, page = 1, limit = 12 } = req.query;
+
+      const result = await searchProducts({
+        q,
+        categories: listParam(req.query.categories),
+        tags: listParam(req.query.tags),
+        minPrice: numberParam(req.query.minPrice),
+        maxPrice: numberParam(req.query.maxPrice),
+        inStock: inStock === 'true',
+        sort,
+        page: Math.max(Number(page) || 1, 1),
+        limit: Math.min(Math.max(Number(limit) || 12, 1), 100),
+      });
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      console.error('Search products error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error searching products',
+      });
+    }
+  }
+);
+
+// @route   GET /api/products/suggest
+// @desc    Autocomplete suggestions for products, categories and tags
+// @access  Public
+router.get('/suggest', optionalAuth, async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 5, 1), 10);
+    const suggestions = await suggest(String(req.query.q || ''), limit);
+
+    res.json({
+      success: true,
+      suggestions,
+    });
+  } catch (error) {
+    console.error('Suggest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching suggestions',
+    });
+  }
+});
+
 // @route   GET /api/products/:slug
 // @desc    Get single product by slug
 // @access  Public
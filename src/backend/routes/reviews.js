@@ -0,0 +1,400 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, validationResult } from 'express-validator';
+import Review from '../models/Review.js';
+import Product from '../models/Product.js';
+import Bundle from '../models/Bundle.js';
+import Order from '../models/Order.js';
+import { isAuthenticated, optionalAuth } from '../middleware/auth.js';
+import { notifyReviewReply } from '../services/notifications.js';
+
+const router = express.Router();
+
+const MAX_PHOTOS = 5;
+
+const SORTS = {
+  newest: { createdAt: -1 },
+  oldest: { createdAt: 1 },
+  highest: { rating: -1, createdAt: -1 },
+  lowest: { rating: 1, createdAt: -1 },
+  helpful: { helpfulCount: -1, createdAt: -1 },
+};
+
+// Reviewer and reply authors, as shown next to what they wrote
+const REVIEW_AUTHORS = [
+  { path: 'user', select: 'name avatar' },
+  { path: 'replies.user', select: 'name avatar' },
+];
+
+const reviewValidators = [
+  body('rating').isInt({ min: 1, max: 5 }).withMessage('Rating must be between 1 and 5').toInt(),
+  body('title').optional().isString().trim().isLength({ max: 120 }).withMessage('Title is too long'),
+  body('comment').isString().trim().notEmpty().withMessage('Review text is required')
+    .isLength({ max: 2000 }).withMessage('Review is too long'),
+  body('photos').optional().isArray({ max: MAX_PHOTOS }).withMessage(`Up to ${MAX_PHOTOS} photos`),
+  body('photos.*').isURL({ protocols: ['http', 'https'], require_protocol: true }).withMessage('Photos must be image URLs'),
+];
+
+// The reviewer bought the product, on its own or in a bundle, in an order
+// that was paid for and not cancelled
+const hasPurchased = async (userId, productId) => {
+  const bundles = await Bundle.find({ 'products.product': productId }).select('_id');
+
+  const order = await Order.exists({
+    user: userId,
+    paymentStatus: 'completed',
+    status: { $ne: 'cancelled' },
+    $or: [
+      { 'items.productId': productId },
+      { 'items.bundleId': { $in: bundles.map((bundle) => bundle._id) } },
+    ],
+  });
+
+  return Boolean(order);
+};
+
+// Client shape: voter ids are replaced by whether the current user voted
+const toClientReview = (review, userId) => {
+  const { helpfulVotes, ...rest } = review.toObject ? review.toObject() : review;
+  return {
+    ...rest,
+    votedHelpful: Boolean(userId) && helpfulVotes.some((id) => id.toString() === userId.toString()),
+  };
+};
+
+const sendValidationErrors = (req, res) => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) return false;
+  res.status(400).json({
+    success: false,
+    errors: errors.array(),
+  });
+  return true;
+};
+
+// @route   GET /api/reviews/product/:productId
+// @desc    Get reviews for a product with a rating summary
+// @access  Public
+router.get('/product/:productId', optionalAuth, async (req, res) => {
+  try {
+    const { productId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found',
+      });
+    }
+
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 50);
+    const rating = Number(req.query.rating);
+    const sort = SORTS[req.query.sort] || SORTS.newest;
+
+    const query = { product: productId };
+    if (rating >= 1 && rating <= 5) query.rating = rating;
+
+    const [reviews, total, breakdown] = await Promise.all([
+      Review.find(query)
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate(REVIEW_AUTHORS),
+      Review.countDocuments(query),
+      Review.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(productId) } },
+        { $group: { _id: '$rating', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    // Summary covers all reviews, whatever the rating filter
+    const distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    breakdown.forEach(({ _id, count }) => {
+      distribution[_id] = count;
+    });
+    const count = Object.values(distribution).reduce((sum, n) => sum + n, 0);
+    const average = count
+      ? Object.entries(distribution).reduce((sum, [stars, n]) => sum + Number(stars) * n, 0) / count
+      : 0;
+
+    res.json({
+      success: true,
+      reviews: reviews.map((review) => toClientReview(review, req.user?._id)),
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      total,
+      summary: {
+        average: Math.round(average * 10) / 10,
+        count,
+        distribution,
+      },
+    });
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching reviews',
+    });
+  }
+});
+
+// @route   POST /api/reviews/product/:productId
+// @desc    Review a product
+// @access  Private
+router.post('/product/:productId', isAuthenticated, reviewValidators, async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const { productId } = req.params;
+    const product = mongoose.Types.ObjectId.isValid(productId)
+      ? await Product.findOne({ _id: productId, isActive: true })
+      : null;
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found',
+      });
+    }
+
+    if (await Review.exists({ product: product._id, user: req.user._id })) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product',
+      });
+    }
+
+    const { rating, title, comment, photos = [] } = req.body;
+    const review = await Review.create({
+      product: product._id,
+      user: req.user._id,
+      rating,
+      title,
+      comment,
+      photos,
+      verifiedPurchase: await hasPurchased(req.user._id, product._id),
+    });
+    await review.populate(REVIEW_AUTHORS);
+
+    res.status(201).json({
+      success: true,
+      message: 'Review posted',
+      review: toClientReview(review, req.user._id),
+    });
+  } catch (error) {
+    // Two submissions racing past the exists() check
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reviewed this product',
+      });
+    }
+    console.error('Create review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error posting review',
+    });
+  }
+});
+
+// @route   PUT /api/reviews/:reviewId
+// @desc    Edit your review
+// @access  Private
+router.put('/:reviewId', isAuthenticated, reviewValidators, async (req, res) => {
+  try {
+    if (sendValidationErrors(req, res)) return;
+
+    const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+      ? await Review.findOne({ _id: req.params.reviewId, user: req.user._id })
+      : null;
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found',
+      });
+    }
+
+    const { rating, title, comment, photos = [] } = req.body;
+    review.rating = rating;
+    review.title = title ?? '';
+    review.comment = comment;
+    review.photos = photos;
+    // Purchases made since the review was written count too
+    review.verifiedPurchase = review.verifiedPurchase || (await hasPurchased(req.user._id, review.product));
+    await review.save();
+    await review.populate(REVIEW_AUTHORS);
+
+    res.json({
+      success: true,
+      message: 'Review updated',
+      review: toClientReview(review, req.user._id),
+    });
+  } catch (error) {
+    console.error('Update review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating review',
+    });
+  }
+});
+
+// @route   DELETE /api/reviews/:reviewId
+// @desc    Delete your review
+// @access  Private
+router.delete('/:reviewId', isAuthenticated, async (req, res) => {
+  try {
+    const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+      ? await Review.findOne({ _id: req.params.reviewId, user: req.user._id })
+      : null;
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found',
+      });
+    }
+
+    await review.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Review deleted',
+    });
+  } catch (error) {
+    console.error('Delete review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting review',
+    });
+  }
+});
+
+// @route   POST /api/reviews/:reviewId/helpful
+// @desc    Mark or unmark a review as helpful
+// @access  Private
+router.post('/:reviewId/helpful', isAuthenticated, async (req, res) => {
+  try {
+    const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+      ? await Review.findById(req.params.reviewId)
+      : null;
+    if (!review) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review not found',
+      });
+    }
+
+    if (review.user.toString() === req.user._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: "You can't vote on your own review",
+      });
+    }
+
+    const index = review.helpfulVotes.findIndex((id) => id.toString() === req.user._id.toString());
+    if (index > -1) {
+      review.helpfulVotes.splice(index, 1);
+    } else {
+      review.helpfulVotes.push(req.user._id);
+    }
+    review.helpfulCount = review.helpfulVotes.length;
+    await review.save();
+    await review.populate(REVIEW_AUTHORS);
+
+    res.json({
+      success: true,
+      review: toClientReview(review, req.user._id),
+    });
+  } catch (error) {
+    console.error('Toggle helpful vote error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating vote',
+    });
+  }
+});
+
+// @route   POST /api/reviews/:reviewId/replies
+// @desc    Reply to a review
+// @access  Private
+router.post(
+  '/:reviewId/replies',
+  isAuthenticated,
+  [
+    body('comment').isString().trim().notEmpty().withMessage('Reply text is required')
+      .isLength({ max: 1000 }).withMessage('Reply is too long'),
+  ],
+  async (req, res) => {
+    try {
+      if (sendValidationErrors(req, res)) return;
+
+      const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+        ? await Review.findById(req.params.reviewId)
+        : null;
+      if (!review) {
+        return res.status(404).json({
+          success: false,
+          message: 'Review not found',
+        });
+      }
+
+      review.replies.push({ user: req.user._id, comment: req.body.comment });
+      await review.save();
+
+      // Reviewers aren't told about their own replies
+      if (review.user.toString() !== req.user._id.toString()) {
+        const product = await Product.findById(review.product).select('slug');
+        if (product) {
+          await notifyReviewReply(review, req.user, product.slug);
+        }
+      }
+
+      await review.populate(REVIEW_AUTHORS);
+
+      res.status(201).json({
+        success: true,
+        message: 'Reply posted',
+        review: toClientReview(review, req.user._id),
+      });
+    } catch (error) {
+      console.error('Create review reply error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error posting reply',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/reviews/:reviewId/replies/:replyId
+// @desc    Delete your reply
+// @access  Private
+router.delete('/:reviewId/replies/:replyId', isAuthenticated, async (req, res) => {
+  try {
+    const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+      ? await Review.findById(req.params.reviewId)
+      : null;
+    const reply = review?.replies.id(req.params.replyId);
+    if (!reply || reply.user.toString() !== req.user._id.toString()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reply not found',
+      });
+    }
+
+    review.replies.pull(reply._id);
+    await review.save();
+    await review.populate(REVIEW_AUTHORS);
+
+    res.json({
+      success: true,
+      message: 'Reply deleted',
+      review: toClientReview(review, req.user._id),
+    });
+  } catch (error) {
+    console.error('Delete review reply error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting reply',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+import express from 'express';
+import { optionalAuth } from '../middleware/auth.js';
+import { PricingError, ShippingError, priceLines, quoteShipping } from '../services/pricing.js';
+
+const router = express.Router();
+
+// @route   POST /api/shipping/estimate
+// @desc    Shipping methods, rates and delivery dates for cart lines to a PIN code
+// @access  Public
+router.post('/estimate', optionalAuth, async (req, res) => {
+  try {
+    const { items, pinCode } = req.body;
+
+    const lines = await priceLines(items);
+    const orderValue = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    try {
+      const { delivery, options } = await quoteShipping(lines, { pinCode, orderValue });
+      res.json({
+        success: true,
+        deliverable: true,
+        pinCode: delivery.pinCode,
+        zone: delivery.zone,
+        options,
+      });
+    } catch (error) {
+      if (!(error instanceof ShippingError)) throw error;
+
+      res.json({
+        success: true,
+        deliverable: false,
+        message: error.message,
+        options: [],
+      });
+    }
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Shipping estimate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error estimating delivery',
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,73 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User.js';
 import Order from '../models/Order.js';
+import Product from '../models/Product.js';
+import WishlistAlert from '../models/WishlistAlert.js';
 import { isAuthenticated } from '../middleware/auth.js';
+import { PricingError, quoteOrder } from '../services/pricing.js';
+import { availableStock } from '../services/inventory.js';
+import { createPendingOrder } from '../services/checkout.js';
+import { subscribeToProduct, unsubscribeFromProduct } from '../services/alerts.js';
+import { NOTIFICATION_CATEGORIES, notifyOrderStatus, notifyRefundIssued } from '../services/notifications.js';
+import { customerActor } from '../services/orderLifecycle.js';
+import { publishOrderStatus } from '../services/orderEvents.js';
+import {
+  CANCELLATION_REASONS,
+  RETURN_REASONS,
+  RefundError,
+  cancelOrderItems,
+  requestReturn,
+} from '../services/refunds.js';
+import { PaymentProviderError } from '../services/payments/index.js';
+import { isSameLine, normalizeVariant } from '../utils/variants.js';
+import { addressRules } from '../utils/addresses.js';
 
 const router = express.Router();
 
+const MAX_FILTER_PRESETS = 20;
+const MAX_ADDRESSES = 10;
+const NOTIFICATION_CATEGORY_KEYS = [...new Set(Object.values(NOTIFICATION_CATEGORIES))];
+
+// Cart quantities can't run past what is still available to sell. Returns
+// the message to show, or null when the quantity is fine.
+const checkCartStock = async (productId, variant, quantity) => {
+  if (!productId) return null;
+
+  const product = await Product.findById(productId);
+  if (!product) return null;
+
+  const available = availableStock(product, variant);
+  if (quantity <= available) return null;
+  return available > 0 ? `Only ${available} left of ${product.name}` : `${product.name} is out of stock`;
+};
+
+// Optional { itemId, quantity } selection plus a reason, shared by
+// cancellations and returns
+const refundRequestRules = (reasons) => [
+  body('items').optional().isArray().withMessage('Items must be a list'),
+  body('items.*.itemId').isMongoId().withMessage('Invalid order item'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1').toInt(),
+  body('reasonCode').isIn(reasons).withMessage('Please choose a reason'),
+  body('comment').optional().isString().trim().isLength({ max: 500 }).withMessage('Comment is too long'),
+];
+
+const savedAddressRules = [
+  body('label').optional().isString().trim().isLength({ max: 30 }).withMessage('Label is too long'),
+  ...addressRules(),
+  body('isDefault').optional().isBoolean().withMessage('isDefault must be true or false').toBoolean(),
+];
+
+const ADDRESS_FIELDS = ['label', 'fullName', 'phone', 'address', 'city', 'state', 'zipCode', 'country'];
+
+// Make `address` the user's only default
+const makeDefaultAddress = (user, address) => {
+  for (const other of user.addresses) {
+    other.isDefault = other._id.equals(address._id);
+  }
+};
+
 // @route   GET /api/user/profile
 // @desc    Get user profile
 // @access  Private
@@ -39,6 +101,13 @@ router.put(
   [
     body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
     body('email').optional().isEmail().normalizeEmail().withMessage('Invalid email'),
+    body('preferences.theme').optional().isIn(['light', 'dark']).withMessage('Invalid theme'),
+    body('preferences.notifications').optional().isBoolean().withMessage('notifications must be true or false').toBoolean(),
+    body(NOTIFICATION_CATEGORY_KEYS.map((category) => `preferences.notificationCategories.${category}`))
+      .optional()
+      .isBoolean()
+      .withMessage('Notification categories must be true or false')
+      .toBoolean(),
   ],
   async (req, res) => {
     try {
@@ -55,7 +124,17 @@ router.put(
 
       if (name) updateFields.name = name;
       if (email) updateFields.email = email.toLowerCase();
-      if (preferences) updateFields.preferences = preferences;
+      // Only the preferences sent are changed; the rest keep their values
+      if (preferences) {
+        if (preferences.theme !== undefined) updateFields['preferences.theme'] = preferences.theme;
+        if (preferences.notifications !== undefined) {
+          updateFields['preferences.notifications'] = preferences.notifications;
+        }
+        NOTIFICATION_CATEGORY_KEYS.forEach((category) => {
+          const value = preferences.notificationCategories?.[category];
+          if (value !== undefined) updateFields[`preferences.notificationCategories.${category}`] = value;
+        });
+      }
 
       // Check if email is already taken
       if (email) {
@@ -121,6 +200,7 @@ router.get('/cart', isAuthenticated, async (req, res) => {
 router.post('/cart', isAuthenticated, async (req, res) => {
   try {
     const { productId, bundleId, quantity = 1 } = req.body;
+    const variant = normalizeVariant(req.body.variant);
 
     if (!productId && !bundleId) {
       return res.status(400).json({
@@ -131,21 +211,30 @@ router.post('/cart', isAuthenticated, async (req, res) => {
 
     const user = await User.findById(req.user._id);
 
-    // Check if item already in cart
-    const existingItemIndex = user.cart.findIndex(
-      (item) =>
-        (productId && item.productId?.toString() === productId) ||
-        (bundleId && item.bundleId?.toString() === bundleId)
+    // Check if the same product and variant is already in cart
+    const existingItemIndex = user.cart.findIndex((item) =>
+      isSameLine(item, { productId, bundleId, variant })
     );
 
+    const nextQuantity =
+      existingItemIndex > -1 ? user.cart[existingItemIndex].quantity + quantity : quantity;
+    const stockMessage = await checkCartStock(productId, variant, nextQuantity);
+    if (stockMessage) {
+      return res.status(409).json({
+        success: false,
+        message: stockMessage,
+      });
+    }
+
     if (existingItemIndex > -1) {
       // Update quantity
-      user.cart[existingItemIndex].quantity += quantity;
+      user.cart[existingItemIndex].quantity = nextQuantity;
     } else {
       // Add new item
       user.cart.push({
         productId,
         bundleId,
+        variant,
         quantity,
       });
     }
@@ -170,6 +259,62 @@ router.post('/cart', isAuthenticated, async (req, res) => {
   }
 });
 
+// @route   POST /api/user/cart/merge
+// @desc    Merge a guest cart into the user's cart after login
+// @access  Private
+router.post('/cart/merge', isAuthenticated, async (req, res) => {
+  try {
+    const { items = [] } = req.body;
+
+    if (!Array.isArray(items)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Items must be an array',
+      });
+    }
+
+    const user = await User.findById(req.user._id);
+
+    // Lines for the same product and variant are deduped rather than summed:
+    // the guest cart usually mirrors what the user already had, so keep the
+    // larger quantity instead of doubling it
+    items.forEach(({ productId, bundleId, quantity, ...line }) => {
+      const qty = Math.floor(Number(quantity));
+      const id = productId || bundleId;
+      if (!id || !mongoose.Types.ObjectId.isValid(id) || !(qty >= 1)) return;
+
+      const variant = normalizeVariant(line.variant);
+      const existing = user.cart.find((item) =>
+        isSameLine(item, { productId, bundleId, variant })
+      );
+
+      if (existing) {
+        existing.quantity = Math.max(existing.quantity, qty);
+      } else {
+        user.cart.push({ productId, bundleId, variant, quantity: qty });
+      }
+    });
+
+    await user.save();
+
+    const updatedUser = await User.findById(req.user._id)
+      .populate('cart.productId')
+      .populate('cart.bundleId');
+
+    res.json({
+      success: true,
+      message: 'Cart merged',
+      cart: updatedUser.cart,
+    });
+  } catch (error) {
+    console.error('Merge cart error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error merging cart',
+    });
+  }
+});
+
 // @route   PUT /api/user/cart/:itemId
 // @desc    Update cart item quantity
 // @access  Private
@@ -194,6 +339,14 @@ router.put('/cart/:itemId', isAuthenticated, async (req, res) => {
       });
     }
 
+    const stockMessage = await checkCartStock(cartItem.productId, cartItem.variant, quantity);
+    if (stockMessage) {
+      return res.status(409).json({
+        success: false,
+        message: stockMessage,
+      });
+    }
+
     cartItem.quantity = quantity;
     await user.save();
 
@@ -268,15 +421,19 @@ router.delete('/cart', isAuthenticated, async (req, res) => {
 });
 
 // @route   GET /api/user/wishlist
-// @desc    Get user wishlist
+// @desc    Get user wishlist with its price and stock alerts
 // @access  Private
 router.get('/wishlist', isAuthenticated, async (req, res) => {
   try {
-    const user = await User.findById(req.user._id).populate('wishlist');
+    const [user, alerts] = await Promise.all([
+      User.findById(req.user._id).populate('wishlist'),
+      WishlistAlert.find({ user: req.user._id }),
+    ]);
 
     res.json({
       success: true,
       wishlist: user.wishlist,
+      alerts,
     });
   } catch (error) {
     console.error('Get wishlist error:', error);
@@ -301,6 +458,7 @@ router.post('/wishlist/:productId', isAuthenticated, async (req, res) => {
       // Remove from wishlist
       user.wishlist.splice(index, 1);
       await user.save();
+      await unsubscribeFromProduct(user._id, productId);
 
       const updatedUser = await User.findById(req.user._id).populate('wishlist');
 
@@ -310,9 +468,20 @@ router.post('/wishlist/:productId', isAuthenticated, async (req, res) => {
         wishlist: updatedUser.wishlist,
       });
     } else {
-      // Add to wishlist
-      user.wishlist.push(productId);
+      const product = mongoose.Types.ObjectId.isValid(productId)
+        ? await Product.findOne({ _id: productId, isActive: true })
+        : null;
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          message: 'Product not found',
+        });
+      }
+
+      // Add to wishlist, remembering the price and stock it was saved at
+      user.wishlist.push(product._id);
       await user.save();
+      await subscribeToProduct(user._id, product);
 
       const updatedUser = await User.findById(req.user._id).populate('wishlist');
 
@@ -331,79 +500,417 @@ router.post('/wishlist/:productId', isAuthenticated, async (req, res) => {
   }
 });
 
-// @route   GET /api/user/orders
-// @desc    Get user orders
+// @route   PUT /api/user/wishlist/:productId/alerts
+// @desc    Choose which alerts to get for a wishlisted product
 // @access  Private
-router.get('/orders', isAuthenticated, async (req, res) => {
+router.put(
+  '/wishlist/:productId/alerts',
+  isAuthenticated,
+  [
+    body('priceDrop').optional().isBoolean().withMessage('priceDrop must be true or false').toBoolean(),
+    body('backInStock').optional().isBoolean().withMessage('backInStock must be true or false').toBoolean(),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { priceDrop, backInStock } = req.body;
+      const alert = mongoose.Types.ObjectId.isValid(req.params.productId)
+        ? await WishlistAlert.findOne({ user: req.user._id, product: req.params.productId })
+        : null;
+      if (!alert) {
+        return res.status(404).json({
+          success: false,
+          message: 'Product is not on your wishlist',
+        });
+      }
+
+      if (priceDrop !== undefined) alert.priceDrop = priceDrop;
+      if (backInStock !== undefined) alert.backInStock = backInStock;
+      await alert.save();
+
+      res.json({
+        success: true,
+        message: 'Alerts updated',
+        alert,
+      });
+    } catch (error) {
+      console.error('Update wishlist alerts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error updating alerts',
+      });
+    }
+  }
+);
+
+// @route   GET /api/user/filter-presets
+// @desc    Get saved product filter presets
+// @access  Private
+router.get('/filter-presets', isAuthenticated, async (req, res) => {
   try {
-    const orders = await Order.find({ user: req.user._id })
-      .sort('-createdAt')
-      .populate('items.productId')
-      .populate('items.bundleId');
+    const user = await User.findById(req.user._id).select('filterPresets');
 
     res.json({
       success: true,
-      orders,
+      presets: user.filterPresets,
     });
   } catch (error) {
-    console.error('Get orders error:', error);
+    console.error('Get filter presets error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching orders',
+      message: 'Error fetching filter presets',
     });
   }
 });
 
-// @route   POST /api/user/orders
-// @desc    Create new order
+// @route   POST /api/user/filter-presets
+// @desc    Save a named filter preset, replacing one with the same name
 // @access  Private
-router.post('/orders', isAuthenticated, async (req, res) => {
+router.post(
+  '/filter-presets',
+  isAuthenticated,
+  [
+    body('name').trim().notEmpty().withMessage('Preset name is required')
+      .isLength({ max: 60 }).withMessage('Preset name is too long'),
+    body('query').isString().isLength({ max: 2000 }).withMessage('Invalid filter query'),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { name, query } = req.body;
+      const user = await User.findById(req.user._id).select('filterPresets');
+
+      const existing = user.filterPresets.find(
+        (preset) => preset.name.toLowerCase() === name.toLowerCase()
+      );
+
+      if (existing) {
+        existing.query = query;
+      } else {
+        if (user.filterPresets.length >= MAX_FILTER_PRESETS) {
+          return res.status(400).json({
+            success: false,
+            message: `You can save up to ${MAX_FILTER_PRESETS} presets`,
+          });
+        }
+        user.filterPresets.push({ name, query });
+      }
+
+      await user.save();
+
+      res.json({
+        success: true,
+        message: 'Filter preset saved',
+        presets: user.filterPresets,
+      });
+    } catch (error) {
+      console.error('Save filter preset error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error saving filter preset',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/user/filter-presets/:presetId
+// @desc    Delete a saved filter preset
+// @access  Private
+router.delete('/filter-presets/:presetId', isAuthenticated, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('filterPresets');
+    const preset = user.filterPresets.id(req.params.presetId);
+
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        message: 'Filter preset not found',
+      });
+    }
+
+    user.filterPresets.pull(preset._id);
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Filter preset deleted',
+      presets: user.filterPresets,
+    });
+  } catch (error) {
+    console.error('Delete filter preset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting filter preset',
+    });
+  }
+});
+
+// @route   GET /api/user/addresses
+// @desc    Get saved addresses
+// @access  Private
+router.get('/addresses', isAuthenticated, async (req, res) => {
   try {
-    const { items, shippingAddress, paymentMethod } = req.body;
+    const user = await User.findById(req.user._id).select('addresses');
 
-    if (!items || items.length === 0) {
+    res.json({
+      success: true,
+      addresses: user.addresses,
+    });
+  } catch (error) {
+    console.error('Get addresses error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching addresses',
+    });
+  }
+});
+
+// @route   POST /api/user/addresses
+// @desc    Save a new address; the first one becomes the default
+// @access  Private
+router.post('/addresses', isAuthenticated, savedAddressRules, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const user = await User.findById(req.user._id).select('addresses');
+    if (user.addresses.length >= MAX_ADDRESSES) {
       return res.status(400).json({
         success: false,
-        message: 'No items in order',
+        message: `You can save up to ${MAX_ADDRESSES} addresses`,
       });
     }
 
-    // Calculate total
-    const totalAmount = items.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
+    const fields = Object.fromEntries(
+      ADDRESS_FIELDS.filter((field) => req.body[field] !== undefined).map((field) => [field, req.body[field]])
     );
+    user.addresses.push(fields);
+    const address = user.addresses[user.addresses.length - 1];
+    if (req.body.isDefault || user.addresses.length === 1) {
+      makeDefaultAddress(user, address);
+    }
 
-    const order = await Order.create({
-      user: req.user._id,
-      items,
-      totalAmount,
-      shippingAddress,
-      paymentMethod,
+    await user.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Address saved',
+      address,
+      addresses: user.addresses,
     });
+  } catch (error) {
+    console.error('Save address error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving address',
+    });
+  }
+});
+
+// @route   PUT /api/user/addresses/:addressId
+// @desc    Update a saved address
+// @access  Private
+router.put('/addresses/:addressId', isAuthenticated, savedAddressRules, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const user = await User.findById(req.user._id).select('addresses');
+    const address = mongoose.Types.ObjectId.isValid(req.params.addressId)
+      ? user.addresses.id(req.params.addressId)
+      : null;
+
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        message: 'Address not found',
+      });
+    }
 
-    // Clear user cart
-    await User.findByIdAndUpdate(req.user._id, { $set: { cart: [] } });
+    for (const field of ADDRESS_FIELDS) {
+      if (req.body[field] !== undefined) address[field] = req.body[field];
+    }
+    // The default changes by choosing another one, never by unsetting it
+    if (req.body.isDefault) {
+      makeDefaultAddress(user, address);
+    }
+
+    await user.save();
 
-    // Add order to user's orders
-    await User.findByIdAndUpdate(req.user._id, {
-      $push: { orders: order._id },
+    res.json({
+      success: true,
+      message: 'Address updated',
+      address,
+      addresses: user.addresses,
     });
+  } catch (error) {
+    console.error('Update address error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating address',
+    });
+  }
+});
 
-    res.status(201).json({
+// @route   DELETE /api/user/addresses/:addressId
+// @desc    Delete a saved address
+// @access  Private
+router.delete('/addresses/:addressId', isAuthenticated, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('addresses');
+    const address = mongoose.Types.ObjectId.isValid(req.params.addressId)
+      ? user.addresses.id(req.params.addressId)
+      : null;
+
+    if (!address) {
+      return res.status(404).json({
+        success: false,
+        message: 'Address not found',
+      });
+    }
+
+    user.addresses.pull(address._id);
+    // Hand the default on to the oldest remaining address
+    if (address.isDefault && user.addresses.length > 0) {
+      makeDefaultAddress(user, user.addresses[0]);
+    }
+
+    await user.save();
+
+    res.json({
       success: true,
-      message: 'Order created successfully',
-      order,
+      message: 'Address deleted',
+      addresses: user.addresses,
     });
   } catch (error) {
-    console.error('Create order error:', error);
+    console.error('Delete address error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error creating order',
+      message: 'Error deleting address',
     });
   }
 });
 
+// @route   GET /api/user/orders
+// @desc    Get user orders
+// @access  Private
+router.get('/orders', isAuthenticated, async (req, res) => {
+  try {
+    const orders = await Order.find({ user: req.user._id })
+      .sort('-createdAt')
+      .populate('items.productId')
+      .populate('items.bundleId');
+
+    res.json({
+      success: true,
+      orders,
+    });
+  } catch (error) {
+    console.error('Get orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching orders',
+    });
+  }
+});
+
+// @route   POST /api/user/orders
+// @desc    Create new order
+// @access  Private
+router.post(
+  '/orders',
+  isAuthenticated,
+  [
+    ...addressRules('shippingAddress.'),
+    // Cash on delivery has its own eligibility checks, so it's only taken
+    // through POST /api/payment/create-cod-order
+    body('paymentMethod')
+      .optional()
+      .isIn(['razorpay', 'upi'])
+      .withMessage('Payment method must be razorpay or upi'),
+  ],
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+      }
+
+      const { items, shippingAddress, paymentMethod, couponCode, shippingMethod } = req.body;
+
+      if (!items || items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'No items in order',
+        });
+      }
+
+      // Prices come from the database, never from the request
+      const quote = await quoteOrder(items, {
+        couponCode,
+        userId: req.user._id,
+        pinCode: shippingAddress.zipCode,
+        shippingMethod,
+      });
+
+      const order = await createPendingOrder(req.user, quote, { shippingAddress, paymentMethod });
+
+      // Clear user cart
+      await User.findByIdAndUpdate(req.user._id, { $set: { cart: [] } });
+
+      // Add order to user's orders
+      await User.findByIdAndUpdate(req.user._id, {
+        $push: { orders: order._id },
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Order created successfully',
+        order,
+      });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Create order error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error creating order',
+      });
+    }
+  }
+);
+
 // @route   GET /api/user/orders/:orderId
 // @desc    Get single order
 // @access  Private
@@ -436,4 +943,107 @@ router.get('/orders/:orderId', isAuthenticated, async (req, res) => {
   }
 });
 
+// @route   POST /api/user/orders/:orderId/cancel
+// @desc    Cancel some or all of an unshipped order, refunding what was paid
+// @access  Private
+router.post('/orders/:orderId/cancel', isAuthenticated, refundRequestRules(CANCELLATION_REASONS), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const order = mongoose.Types.ObjectId.isValid(req.params.orderId)
+      ? await Order.findOne({ _id: req.params.orderId, user: req.user._id })
+      : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const { items, reasonCode, comment } = req.body;
+    const { amount } = await cancelOrderItems(order, {
+      items,
+      reasonCode,
+      comment,
+      actor: customerActor(req.user),
+    });
+
+    publishOrderStatus(order);
+    if (order.status === 'cancelled') await notifyOrderStatus(order);
+    if (amount > 0) await notifyRefundIssued(order, amount);
+
+    await order.populate(['items.productId', 'items.bundleId']);
+    res.json({
+      success: true,
+      message: order.status === 'cancelled' ? 'Order cancelled' : 'Items cancelled',
+      order,
+    });
+  } catch (error) {
+    if (error instanceof RefundError || error instanceof PaymentProviderError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Cancel order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cancelling order',
+    });
+  }
+});
+
+// @route   POST /api/user/orders/:orderId/returns
+// @desc    Request a return for some or all of a delivered order
+// @access  Private
+router.post('/orders/:orderId/returns', isAuthenticated, refundRequestRules(RETURN_REASONS), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const order = mongoose.Types.ObjectId.isValid(req.params.orderId)
+      ? await Order.findOne({ _id: req.params.orderId, user: req.user._id })
+      : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const { items, reasonCode, comment } = req.body;
+    await requestReturn(order, { items, reasonCode, comment, actor: customerActor(req.user) });
+
+    await order.populate(['items.productId', 'items.bundleId']);
+    res.status(201).json({
+      success: true,
+      message: "Return requested. We'll let you know once it's approved.",
+      order,
+    });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Request return error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error requesting return',
+    });
+  }
+});
+
 export default router;
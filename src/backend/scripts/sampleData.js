@@ -16,6 +16,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=800',
     inStock: true,
     stock: 50,
+    weight: 0.35,
     rating: 4.8,
     reviews: 245,
     features: [
@@ -36,6 +37,12 @@ export const sampleProducts = [
       ['Bluetooth', '5.3'],
       ['Range', '10m / 33ft'],
     ]),
+    options: [{ name: 'colors', values: ['midnight-black', 'arctic-white', 'neon-blue'] }],
+    variants: [
+      { sku: 'NPH-BLK', attributes: new Map([['colors', 'midnight-black']]), stock: 25 },
+      { sku: 'NPH-WHT', attributes: new Map([['colors', 'arctic-white']]), stock: 20 },
+      { sku: 'NPH-BLU', attributes: new Map([['colors', 'neon-blue']]), price: 319, stock: 5 },
+    ],
     badge: 'bestseller',
     tags: ['wireless', 'premium', 'anc', 'bluetooth'],
   },
@@ -53,6 +60,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=800',
     inStock: true,
     stock: 30,
+    weight: 0.15,
     rating: 4.6,
     reviews: 189,
     features: [
@@ -71,6 +79,16 @@ export const sampleProducts = [
       ['Battery', '7 days typical use'],
       ['Connectivity', 'Bluetooth 5.0, Wi-Fi'],
     ]),
+    options: [
+      { name: 'colors', values: ['void-black', 'stellar-silver'] },
+      { name: 'sizes', values: ['42mm', '46mm'] },
+    ],
+    variants: [
+      { sku: 'QWP-BLK-42', attributes: new Map([['colors', 'void-black'], ['sizes', '42mm']]), stock: 10 },
+      { sku: 'QWP-BLK-46', attributes: new Map([['colors', 'void-black'], ['sizes', '46mm']]), price: 529, stock: 8 },
+      { sku: 'QWP-SLV-42', attributes: new Map([['colors', 'stellar-silver'], ['sizes', '42mm']]), stock: 0 },
+      { sku: 'QWP-SLV-46', attributes: new Map([['colors', 'stellar-silver'], ['sizes', '46mm']]), price: 529, stock: 12 },
+    ],
     badge: 'new',
     tags: ['smartwatch', 'fitness', 'premium', 'health'],
   },
@@ -87,6 +105,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1587829741301-dc798b83add3?w=800',
     inStock: true,
     stock: 100,
+    weight: 1.1,
     rating: 4.7,
     reviews: 312,
     features: [
@@ -121,6 +140,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1558618666-fcd25c85cd64?w=800',
     inStock: true,
     stock: 75,
+    weight: 0.6,
     rating: 4.5,
     reviews: 156,
     features: [
@@ -155,6 +175,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1590658268037-6bf12165a8df?w=800',
     inStock: true,
     stock: 60,
+    weight: 0.1,
     rating: 4.7,
     reviews: 203,
     features: [
@@ -188,6 +209,7 @@ export const sampleProducts = [
     mainImage: 'https://images.unsplash.com/photo-1575311373937-040b8e1fd5b6?w=800',
     inStock: true,
     stock: 120,
+    weight: 0.08,
     rating: 4.3,
     reviews: 421,
     features: [
@@ -266,6 +288,97 @@ export const sampleBundles = [
   },
 ];
 
+export const sampleCoupons = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order (up to ₹100)',
+    type: 'percentage',
+    value: 10,
+    maxDiscount: 100,
+    perUserLimit: 1,
+  },
+  {
+    code: 'FLAT50',
+    description: '₹50 off orders over ₹300',
+    type: 'fixed',
+    value: 50,
+    minOrderValue: 300,
+    usageLimit: 500,
+    perUserLimit: 2,
+  },
+  {
+    code: 'FREESHIP',
+    description: 'Free shipping on any order',
+    type: 'free_shipping',
+    perUserLimit: 5,
+  },
+  {
+    code: 'AUDIO15',
+    description: '15% off audio gear',
+    type: 'percentage',
+    value: 15,
+    categories: ['audio'],
+    expiresAt: new Date('2027-12-31T23:59:59Z'),
+  },
+];
+
+// Rates in rupees; tiers are by weight in kg unless `tierBy` says otherwise
+export const sampleShippingZones = [
+  {
+    name: 'Metro cities',
+    pinPrefixes: ['11', '380', '400', '411', '500', '560', '600', '700'],
+    methods: [
+      {
+        method: 'standard',
+        tiers: [{ upTo: 1, rate: 49 }, { upTo: 3, rate: 79 }, { rate: 129 }],
+        freeShippingThreshold: 499,
+        minDays: 2,
+        maxDays: 4,
+      },
+      {
+        method: 'express',
+        tiers: [{ upTo: 1, rate: 99 }, { upTo: 3, rate: 149 }, { rate: 249 }],
+        freeShippingThreshold: 2999,
+        minDays: 1,
+        maxDays: 2,
+      },
+    ],
+  },
+  {
+    name: 'Rest of India',
+    pinPrefixes: ['1', '2', '3', '4', '5', '6', '7', '8'],
+    methods: [
+      {
+        method: 'standard',
+        tiers: [{ upTo: 1, rate: 69 }, { upTo: 3, rate: 109 }, { rate: 179 }],
+        freeShippingThreshold: 999,
+        minDays: 4,
+        maxDays: 7,
+      },
+      {
+        method: 'express',
+        tiers: [{ upTo: 1, rate: 149 }, { upTo: 3, rate: 219 }, { rate: 349 }],
+        minDays: 2,
+        maxDays: 4,
+      },
+    ],
+  },
+  {
+    name: 'North East, Jammu & Kashmir and islands',
+    pinPrefixes: ['18', '19', '744', '78', '79'],
+    methods: [
+      {
+        method: 'standard',
+        tierBy: 'quantity',
+        tiers: [{ upTo: 2, rate: 99 }, { upTo: 5, rate: 149 }, { rate: 249 }],
+        freeShippingThreshold: 1999,
+        minDays: 6,
+        maxDays: 10,
+      },
+    ],
+  },
+];
+
 export const testUser = {
   email: 'test@example.com',
   password: 'password123',
@@ -273,6 +386,14 @@ export const testUser = {
   authProvider: 'local',
 };
 
+export const adminUser = {
+  email: 'admin@example.com',
+  password: 'password123',
+  name: 'Store Admin',
+  authProvider: 'local',
+  role: 'admin',
+};
+
 // Category mapping for easy reference
 export const categories = {
   AUDIO: 'audio',
@@ -3,8 +3,17 @@ import mongoose from 'mongoose';
 import Product from '../models/Product.js';
 import Bundle from '../models/Bundle.js';
 import User from '../models/User.js';
+import Coupon from '../models/Coupon.js';
+import ShippingZone from '../models/ShippingZone.js';
 import connectDB from '../config/database.js';
-import { sampleProducts, sampleBundles, testUser } from './sampleData.js';
+import {
+  sampleProducts,
+  sampleBundles,
+  sampleCoupons,
+  sampleShippingZones,
+  testUser,
+  adminUser,
+} from './sampleData.js';
 
 dotenv.config();
 
@@ -16,6 +25,8 @@ const seedDatabase = async () => {
     await Product.deleteMany({});
     await Bundle.deleteMany({});
     await User.deleteMany({});
+    await Coupon.deleteMany({});
+    await ShippingZone.deleteMany({});
 
     console.log('📦 Seeding products...');
     const createdProducts = await Product.insertMany(sampleProducts);
@@ -67,18 +78,31 @@ const seedDatabase = async () => {
     const createdBundles = await Bundle.insertMany(bundlesWithProducts);
     console.log(`✅ Created ${createdBundles.length} bundles`);
 
+    console.log('🏷️  Seeding coupons...');
+    const createdCoupons = await Coupon.insertMany(sampleCoupons);
+    console.log(`✅ Created ${createdCoupons.length} coupons`);
+
+    console.log('🚚 Seeding shipping zones...');
+    const createdZones = await ShippingZone.insertMany(sampleShippingZones);
+    console.log(`✅ Created ${createdZones.length} shipping zones`);
+
     console.log('👤 Creating test user...');
     const createdUser = await User.create(testUser);
     console.log('✅ Test user created:', createdUser.email);
+    const createdAdmin = await User.create(adminUser);
+    console.log('✅ Admin user created:', createdAdmin.email);
 
     console.log('\n🎉 Database seeded successfully!');
     console.log('\n📝 Test Credentials:');
     console.log('   Email: test@example.com');
     console.log('   Password: password123');
+    console.log('   Admin: admin@example.com / password123');
     console.log('\n📊 Database Summary:');
     console.log(`   Products: ${createdProducts.length}`);
     console.log(`   Bundles: ${createdBundles.length}`);
-    console.log(`   Users: 1`);
+    console.log(`   Coupons: ${createdCoupons.length}`);
+    console.log(`   Shipping zones: ${createdZones.length}`);
+    console.log(`   Users: 2`);
     
     process.exit(0);
   } catch (error) {
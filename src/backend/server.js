@@ -7,6 +7,9 @@ import compression from 'compression';
 import dotenv from 'dotenv';
 import connectDB from './config/database.js';
 import passportConfig from './config/passport.js';
+import { startReservationSweeper } from './services/inventory.js';
+import { startReconciliationWorker } from './services/reconciliation.js';
+import { startWishlistAlertJob } from './services/alerts.js';
 
 // Load environment variables
 dotenv.config();
@@ -17,6 +20,10 @@ import productRoutes from './routes/products.js';
 import bundleRoutes from './routes/bundles.js';
 import userRoutes from './routes/user.js';
 import paymentRoutes from './routes/payment.js';
+import reviewRoutes from './routes/reviews.js';
+import notificationRoutes from './routes/notifications.js';
+import adminRoutes from './routes/admin.js';
+import shippingRoutes from './routes/shipping.js';
 
 // Initialize Express app
 const app = express();
@@ -24,10 +31,26 @@ const app = express();
 // Connect to MongoDB
 connectDB();
 
+// Return stock held by orders whose payment never arrived
+startReservationSweeper();
+
+// Settle orders whose payment report never reached us
+startReconciliationWorker();
+
+// Tell customers when wishlisted products get cheaper or come back
+startWishlistAlertJob();
+
 // Middleware
 app.use(helmet()); // Security headers
 app.use(compression()); // Compress responses
-app.use(express.json()); // Parse JSON bodies
+// Parse JSON bodies, keeping the raw bytes for webhook signature checks
+app.use(
+  express.json({
+    verify: (req, res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // CORS configuration
@@ -67,6 +90,10 @@ app.use('/api/products', productRoutes);
 app.use('/api/bundles', bundleRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/payment', paymentRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/shipping', shippingRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -90,6 +117,7 @@ app.get('/', (req, res) => {
       user: '/api/user',
       health: '/api/health',
       payment: '/api/payment',
+      shipping: '/api/shipping',
     },
   });
 });
@@ -0,0 +1,114 @@
+import Product from '../models/Product.js';
+import WishlistAlert from '../models/WishlistAlert.js';
+import { createNotifications } from './notifications.js';
+
+// Wishlisted products are watched for price drops and restocks. Saving a
+// product records its current price and availability; a periodic job
+// compares against them and notifies the customer when things improve.
+
+const ALERT_INTERVAL_MS = 10 * 60 * 1000;
+
+// Something in the product can be bought right now, in any variant
+const isAvailable = (product) =>
+  product.isActive &&
+  product.inStock &&
+  (product.stock > 0 || product.variants.some((variant) => variant.stock > 0));
+
+const formatPrice = (amount) => `₹${amount.toLocaleString('en-IN')}`;
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+export const subscribeToProduct = async (userId, product) => {
+  await WishlistAlert.updateOne(
+    { user: userId, product: product._id },
+    {
+      $set: {
+        savedPrice: product.price,
+        lastPrice: product.price,
+        wasInStock: isAvailable(product),
+      },
+    },
+    { upsert: true }
+  );
+};
+
+export const unsubscribeFromProduct = async (userId, productId) => {
+  await WishlistAlert.deleteOne({ user: userId, product: productId });
+};
+
+// ============================================================================
+// ALERT JOB
+// ============================================================================
+
+// Compare every watched product against what its subscribers last saw.
+// Returns the number of notifications raised (users who opted out of
+// wishlist notifications aren't counted).
+export const checkWishlistAlerts = async () => {
+  const alerts = await WishlistAlert.find();
+  if (alerts.length === 0) return 0;
+
+  const productIds = [...new Set(alerts.map((alert) => alert.product.toString()))];
+  const products = await Product.find({ _id: { $in: productIds } });
+  const productsById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  const notifications = [];
+
+  for (const alert of alerts) {
+    const product = productsById.get(alert.product.toString());
+    if (!product) continue;
+
+    const link = `/products/${product.slug}`;
+    const available = isAvailable(product);
+
+    if (alert.backInStock && available && !alert.wasInStock) {
+      notifications.push({
+        user: alert.user,
+        type: 'back_in_stock',
+        title: `${product.name} is back in stock`,
+        message: 'An item on your wishlist can be ordered again.',
+        link,
+        product: product._id,
+      });
+    }
+
+    if (alert.priceDrop && product.price < alert.lastPrice) {
+      notifications.push({
+        user: alert.user,
+        type: 'price_drop',
+        title: `Price drop on ${product.name}`,
+        message: `Now ${formatPrice(product.price)}, down from ${formatPrice(alert.lastPrice)}.`,
+        link,
+        product: product._id,
+      });
+    }
+
+    // Later changes are measured from what was seen now, so a price that
+    // goes up and back down isn't reported as a drop twice
+    if (alert.lastPrice !== product.price || alert.wasInStock !== available) {
+      alert.lastPrice = product.price;
+      alert.wasInStock = available;
+      await alert.save();
+    }
+  }
+
+  return createNotifications(notifications);
+};
+
+export const startWishlistAlertJob = () => {
+  const timer = setInterval(async () => {
+    try {
+      const raised = await checkWishlistAlerts();
+      if (raised > 0) {
+        console.log(`Raised ${raised} wishlist notification(s)`);
+      }
+    } catch (error) {
+      console.error('Wishlist alert job error:', error);
+    }
+  }, ALERT_INTERVAL_MS);
+
+  // Don't keep the process alive just for the job
+  timer.unref();
+  return timer;
+};
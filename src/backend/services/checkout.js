@@ -0,0 +1,56 @@
+import Order from '../models/Order.js';
+import { redeemCoupon, releaseCoupon, toOrderFields } from './pricing.js';
+import { newReservation, reserveStock, restock } from './inventory.js';
+import { customerActor, orderPlaced } from './orderLifecycle.js';
+import { expirePayment } from './orderPayments.js';
+
+// Placing an order from a quote. Every checkout route goes through here, so
+// stock and coupon uses are taken, and given back, the same way whatever
+// the payment method.
+
+// Reserve stock and redeem the coupon for a quote, then save the pending
+// order for `user`. Anything already taken is handed back if a later step
+// fails. `fields` are the rest of the order: shipping address, payment
+// method and so on.
+export const createPendingOrder = async (user, quote, fields) => {
+  const units = await reserveStock(quote.items);
+
+  try {
+    if (quote.coupon) {
+      await redeemCoupon(quote.coupon.code, user._id);
+    }
+  } catch (error) {
+    await restock(units);
+    throw error;
+  }
+
+  try {
+    const order = new Order({
+      user: user._id,
+      ...toOrderFields(quote),
+      ...fields,
+      paymentStatus: 'pending',
+      status: 'pending',
+      ...orderPlaced(customerActor(user)),
+      reservation: newReservation(units),
+    });
+    await order.save();
+    return order;
+  } catch (error) {
+    await restock(units);
+    await releaseCoupon(quote.coupon?.code, user._id);
+    throw error;
+  }
+};
+
+// Call off a new order whose checkout couldn't be finished, e.g. because
+// the payment provider was unreachable: cancel it and give back its stock
+// and coupon use, so a retry isn't held up by it. The order is reloaded
+// first, since the step that failed may have left the copy in hand half
+// changed.
+export const abandonPendingOrder = async (order, reason) => {
+  const current = await Order.findById(order._id);
+  if (current) {
+    await expirePayment(current, reason);
+  }
+};
@@ -0,0 +1,70 @@
+import Order from '../models/Order.js';
+
+// Cash on delivery. The order ships unpaid and the courier collects the
+// total at the door, so it is only offered where that risk is acceptable:
+// modest order values, PIN codes couriers collect cash in, and customers
+// who haven't been turning COD orders away.
+
+export const COD_MAX_ORDER_VALUE = 10000;
+// Undelivered COD orders a customer may have at once
+const MAX_OPEN_COD_ORDERS = 2;
+// Cancelled COD orders within the window that end eligibility
+const MAX_RECENT_COD_CANCELLATIONS = 2;
+const CANCELLATION_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+
+// First digits of the PIN codes couriers collect cash in, e.g. "11" for
+// Delhi. COD_PIN_PREFIXES overrides the default metro list.
+const DEFAULT_PIN_PREFIXES = ['11', '38', '40', '41', '50', '56', '60', '70'];
+
+const serviceablePinPrefixes = () =>
+  process.env.COD_PIN_PREFIXES
+    ? process.env.COD_PIN_PREFIXES.split(',').map((prefix) => prefix.trim()).filter(Boolean)
+    : DEFAULT_PIN_PREFIXES;
+
+const isCodPinServiceable = (pinCode) =>
+  /^\d{6}$/.test(pinCode || '') && serviceablePinPrefixes().some((prefix) => pinCode.startsWith(prefix));
+
+// Whether `user` may pay for a quoted order on delivery to
+// `shippingAddress`. Returns every reason it can't, so the storefront can
+// show them together.
+export const checkCodEligibility = async (user, quote, shippingAddress) => {
+  const reasons = [];
+
+  if (quote.total > COD_MAX_ORDER_VALUE) {
+    reasons.push(
+      `Cash on delivery is available for orders up to ₹${COD_MAX_ORDER_VALUE.toLocaleString('en-IN')}`
+    );
+  }
+
+  const pinCode = shippingAddress?.zipCode?.trim();
+  if (!/^\d{6}$/.test(pinCode || '')) {
+    reasons.push('Enter a 6-digit PIN code to check cash on delivery');
+  } else if (!isCodPinServiceable(pinCode)) {
+    reasons.push(`Cash on delivery isn't available for PIN code ${pinCode}`);
+  }
+
+  const [openOrders, recentCancellations] = await Promise.all([
+    Order.countDocuments({
+      user: user._id,
+      paymentMethod: 'cash_on_delivery',
+      status: { $in: ['pending', 'processing', 'shipped'] },
+    }),
+    Order.countDocuments({
+      user: user._id,
+      paymentMethod: 'cash_on_delivery',
+      status: 'cancelled',
+      createdAt: { $gte: new Date(Date.now() - CANCELLATION_WINDOW_MS) },
+    }),
+  ]);
+
+  if (openOrders >= MAX_OPEN_COD_ORDERS) {
+    reasons.push(
+      `You already have ${openOrders} cash on delivery orders on the way; please pay online for this one`
+    );
+  }
+  if (recentCancellations >= MAX_RECENT_COD_CANCELLATIONS) {
+    reasons.push('Cash on delivery is unavailable because of recently cancelled cash on delivery orders');
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+};
@@ -0,0 +1,210 @@
+import Product from '../models/Product.js';
+import Bundle from '../models/Bundle.js';
+import Order from '../models/Order.js';
+import { PricingError } from './pricing.js';
+import { variantKey } from '../utils/variants.js';
+
+// Stock is taken off the shelf when a payment order is created and put back
+// if the payment fails or never arrives. `Product.stock` (or the matching
+// variant's stock) is therefore what is still available to sell.
+
+export const RESERVATION_TTL_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Not enough stock to fill an order or cart line
+export class StockError extends PricingError {
+  constructor(message) {
+    super(message);
+    this.name = 'StockError';
+    this.statusCode = 409;
+  }
+}
+
+// The variant subdocument a selection draws stock from, if it has its own
+const findVariant = (product, variant) => {
+  const key = variantKey(variant);
+  return key ? product.variants.find((v) => variantKey(v.attributes) === key) : undefined;
+};
+
+// Units that can still be sold for a product and selection
+export const availableStock = (product, variant) => {
+  if (!product.inStock) return 0;
+  return findVariant(product, variant)?.stock ?? product.stock;
+};
+
+// Expand order lines into the product units they consume; a bundle line
+// consumes each product in the bundle
+const toUnits = async (items) => {
+  const bundleIds = items.filter((item) => item.bundleId).map((item) => item.bundleId);
+  const bundles = bundleIds.length ? await Bundle.find({ _id: { $in: bundleIds } }) : [];
+  const bundlesById = new Map(bundles.map((bundle) => [bundle._id.toString(), bundle]));
+
+  return items.flatMap((item) => {
+    if (!item.bundleId) {
+      return [{ productId: item.productId, variant: item.variant, quantity: item.quantity }];
+    }
+    const bundle = bundlesById.get(item.bundleId.toString());
+    return (bundle?.products || []).map((entry) => ({
+      productId: entry.product,
+      quantity: entry.quantity * item.quantity,
+    }));
+  });
+};
+
+// Put reserved units back on the shelf
+export const restock = async (units) => {
+  await Promise.all(
+    units.map(({ product, variantId, quantity }) =>
+      variantId
+        ? Product.updateOne(
+            { _id: product, 'variants._id': variantId },
+            { $inc: { 'variants.$.stock': quantity } }
+          )
+        : Product.updateOne({ _id: product }, { $inc: { stock: quantity } })
+    )
+  );
+};
+
+// Put sold order lines back on the shelf, e.g. after a cancellation or an
+// approved return. Units whose product has since been deleted are skipped.
+export const restockItems = async (items) => {
+  const units = await toUnits(items);
+  const resolved = await Promise.all(
+    units.map(async (unit) => {
+      const product = await Product.findById(unit.productId);
+      if (!product) return null;
+      return {
+        product: product._id,
+        variantId: findVariant(product, unit.variant)?._id,
+        quantity: unit.quantity,
+      };
+    })
+  );
+  await restock(resolved.filter(Boolean));
+};
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+// Take stock for priced order lines. Each decrement only succeeds while
+// enough stock remains, so concurrent checkouts can't oversell; if any line
+// falls short everything taken so far is put back. Returns the reserved
+// units to store on the order.
+export const reserveStock = async (items) => {
+  const units = await toUnits(items);
+  const reserved = [];
+
+  try {
+    for (const unit of units) {
+      const product = await Product.findById(unit.productId);
+      if (!product) {
+        throw new StockError('A product in your cart is no longer available');
+      }
+
+      const variant = findVariant(product, unit.variant);
+      const result = variant
+        ? await Product.updateOne(
+            {
+              _id: product._id,
+              inStock: true,
+              variants: { $elemMatch: { _id: variant._id, stock: { $gte: unit.quantity } } },
+            },
+            { $inc: { 'variants.$.stock': -unit.quantity } }
+          )
+        : await Product.updateOne(
+            { _id: product._id, inStock: true, stock: { $gte: unit.quantity } },
+            { $inc: { stock: -unit.quantity } }
+          );
+
+      if (result.modifiedCount === 0) {
+        const left = availableStock(product, unit.variant);
+        throw new StockError(
+          left > 0 ? `Only ${left} left of ${product.name}` : `${product.name} is out of stock`
+        );
+      }
+
+      reserved.push({ product: product._id, variantId: variant?._id, quantity: unit.quantity });
+    }
+  } catch (error) {
+    await restock(reserved);
+    throw error;
+  }
+
+  return reserved;
+};
+
+export const newReservation = (units) => ({
+  status: 'reserved',
+  items: units,
+  expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+});
+
+// Payment captured: the reserved units are sold
+export const commitReservation = async (order) => {
+  const reservation = order.reservation;
+  if (!reservation || reservation.status === 'committed') return;
+
+  if (reservation.status === 'released') {
+    // Paid after the reservation timed out; take the stock again if it's
+    // still there. Otherwise nothing was taken, so the reservation stays
+    // released (a cancellation won't restock it) and the order is flagged
+    // for manual attention.
+    try {
+      reservation.items = await reserveStock(order.items);
+    } catch (error) {
+      console.error(`Stock for paid order ${order.orderNumber} could not be re-reserved:`, error.message);
+      reservation.shortfall = true;
+      await order.save();
+      return;
+    }
+  }
+
+  reservation.status = 'committed';
+  await order.save();
+};
+
+// Payment failed or abandoned: return the units to stock
+export const releaseReservation = async (order) => {
+  const reservation = order.reservation;
+  if (!reservation || reservation.status !== 'reserved') return;
+
+  await restock(reservation.items);
+  reservation.status = 'released';
+  await order.save();
+};
+
+// ============================================================================
+// TIMEOUTS
+// ============================================================================
+
+export const releaseExpiredReservations = async () => {
+  const expired = await Order.find({
+    'reservation.status': 'reserved',
+    'reservation.expiresAt': { $lt: new Date() },
+    paymentStatus: 'pending',
+  });
+
+  for (const order of expired) {
+    await releaseReservation(order);
+  }
+
+  return expired.length;
+};
+
+export const startReservationSweeper = () => {
+  const timer = setInterval(async () => {
+    try {
+      const released = await releaseExpiredReservations();
+      if (released > 0) {
+        console.log(`Released stock for ${released} expired reservation(s)`);
+      }
+    } catch (error) {
+      console.error('Reservation sweep error:', error);
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
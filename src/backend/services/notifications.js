@@ -0,0 +1,121 @@
+import User from '../models/User.js';
+import Notification from '../models/Notification.js';
+
+// In-app notifications. Every type belongs to a preference category; users
+// can turn notifications off entirely or opt out of single categories.
+
+export const NOTIFICATION_CATEGORIES = {
+  order_status: 'orders',
+  payment_failed: 'payments',
+  price_drop: 'wishlist',
+  back_in_stock: 'wishlist',
+  review_reply: 'reviews',
+  refund_issued: 'payments',
+  return_rejected: 'orders',
+};
+
+const ORDERS_LINK = '/profile/orders';
+
+const ORDER_STATUS_MESSAGES = {
+  processing: "Payment received. We're getting your order ready.",
+  shipped: 'Your order is on its way.',
+  delivered: 'Your order has been delivered.',
+  cancelled: 'Your order has been cancelled.',
+  returned: 'Your return is complete.',
+};
+
+// Cash on delivery orders are confirmed before anything is paid
+const COD_STATUS_MESSAGES = {
+  processing: "Order confirmed. We're getting it ready; please pay the courier on delivery.",
+  shipped: 'Your order is on its way. Please keep the amount ready for the courier.',
+};
+
+const wantsCategory = (user, category) =>
+  user.preferences?.notifications !== false &&
+  user.preferences?.notificationCategories?.[category] !== false;
+
+// Save the notifications whose recipients want them. Never throws: a lost
+// notification shouldn't fail the payment or order update that raised it.
+export const createNotifications = async (notifications) => {
+  if (notifications.length === 0) return 0;
+
+  try {
+    const userIds = [...new Set(notifications.map((notification) => notification.user.toString()))];
+    const users = await User.find({ _id: { $in: userIds } }).select('preferences');
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    const wanted = notifications
+      .map((notification) => ({ ...notification, category: NOTIFICATION_CATEGORIES[notification.type] }))
+      .filter((notification) => {
+        const user = usersById.get(notification.user.toString());
+        return user && wantsCategory(user, notification.category);
+      });
+
+    if (wanted.length > 0) {
+      await Notification.insertMany(wanted);
+    }
+    return wanted.length;
+  } catch (error) {
+    console.error('Create notifications error:', error);
+    return 0;
+  }
+};
+
+export const notify = (notification) => createNotifications([notification]);
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export const notifyOrderStatus = (order) =>
+  notify({
+    user: order.user,
+    type: 'order_status',
+    title: `Order ${order.orderNumber} is ${order.status}`,
+    message:
+      (order.paymentMethod === 'cash_on_delivery' && COD_STATUS_MESSAGES[order.status]) ||
+      ORDER_STATUS_MESSAGES[order.status] ||
+      '',
+    link: ORDERS_LINK,
+    order: order._id,
+  });
+
+export const notifyPaymentFailed = (order) =>
+  notify({
+    user: order.user,
+    type: 'payment_failed',
+    title: `Payment failed for order ${order.orderNumber}`,
+    message: "The payment didn't go through and the order wasn't placed. You can try again from checkout.",
+    link: ORDERS_LINK,
+    order: order._id,
+  });
+
+export const notifyRefundIssued = (order, amount) =>
+  notify({
+    user: order.user,
+    type: 'refund_issued',
+    title: `Refund of ₹${amount.toLocaleString('en-IN')} issued for order ${order.orderNumber}`,
+    message: 'It can take 5-7 business days to reach your account.',
+    link: ORDERS_LINK,
+    order: order._id,
+  });
+
+export const notifyReturnRejected = (order, note) =>
+  notify({
+    user: order.user,
+    type: 'return_rejected',
+    title: `Your return for order ${order.orderNumber} was not accepted`,
+    message: note,
+    link: ORDERS_LINK,
+    order: order._id,
+  });
+
+export const notifyReviewReply = (review, replier, productSlug) =>
+  notify({
+    user: review.user,
+    type: 'review_reply',
+    title: `${replier.name} replied to your review`,
+    message: review.title ? `On "${review.title}"` : '',
+    link: `/products/${productSlug}`,
+    product: review.product,
+  });
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+
+// In-process pub/sub for order status changes, feeding the per-order SSE
+// streams. Anything that changes an order's payment or fulfilment status
+// publishes the new state here after saving it.
+
+const emitter = new EventEmitter();
+// One listener per open stream, so the default warning threshold of 10 is
+// easy to pass under normal load
+emitter.setMaxListeners(0);
+
+const channel = (orderId) => `order:${orderId}`;
+
+// What status endpoints and streams send to the client
+export const toStatusUpdate = (order) => ({
+  paymentStatus: order.paymentStatus,
+  paymentMethod: order.paymentMethod,
+  orderStatus: order.status,
+  totalAmount: order.totalAmount,
+});
+
+// Payment is settled one way or the other, or (cash on delivery) won't be
+// until the parcel arrives; nothing more will come while the customer waits
+export const isFinalPaymentStatus = ({ paymentStatus, paymentMethod }) =>
+  paymentStatus !== 'pending' || paymentMethod === 'cash_on_delivery';
+
+export const publishOrderStatus = (order) => {
+  emitter.emit(channel(order._id), toStatusUpdate(order));
+};
+
+// Returns a function that removes the listener
+export const subscribeToOrder = (orderId, listener) => {
+  emitter.on(channel(orderId), listener);
+  return () => emitter.off(channel(orderId), listener);
+};
@@ -0,0 +1,86 @@
+// Order status state machine. `Order.status` only changes through
+// transitionOrder, which checks the move is allowed and records who made it
+// and why in `statusHistory`. The Order model refuses status changes that
+// bypass it.
+
+export const ORDER_TRANSITIONS = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+};
+
+export const SYSTEM_ACTOR = { type: 'system' };
+
+export const customerActor = (user) => ({ type: 'customer', user: user._id });
+
+export const adminActor = (user) => ({ type: 'admin', user: user._id });
+
+// A transition the order can't make; routes turn it into a 409
+export class OrderTransitionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'OrderTransitionError';
+    this.statusCode = 409;
+  }
+}
+
+// Paid and not refunded in full; a partly cancelled order still ships
+const hasUnrefundedPayment = (order) => ['completed', 'partially_refunded'].includes(order.paymentStatus);
+
+// Cash on delivery, still to be collected at the door
+const collectsOnDelivery = (order) =>
+  order.paymentMethod === 'cash_on_delivery' && order.paymentStatus === 'pending';
+
+// Conditions beyond the transition table. Each returns why the move is
+// refused, or nothing when it may go ahead.
+const GUARDS = {
+  processing: (order) => {
+    if (!hasUnrefundedPayment(order) && !collectsOnDelivery(order)) return 'Payment has not been completed';
+  },
+  shipped: (order) => {
+    if (!hasUnrefundedPayment(order) && !collectsOnDelivery(order)) {
+      return "Orders can't ship before payment is completed";
+    }
+    if (!order.shippingAddress?.address) return 'Order has no shipping address';
+  },
+  delivered: (order) => {
+    if (collectsOnDelivery(order)) return 'Record the cash collected before marking the order delivered';
+  },
+  // Paid orders are cancelled or returned by refunding them (see
+  // services/refunds.js), which moves them here once the refund is through
+  cancelled: (order) => {
+    if (hasUnrefundedPayment(order)) return 'Paid orders must be refunded before they are cancelled';
+  },
+  returned: (order) => {
+    if (hasUnrefundedPayment(order)) return 'Returned orders must be refunded';
+  },
+};
+
+// Why `order` can't move to `to`, or null if it can
+export const transitionBlocker = (order, to) => {
+  if (!ORDER_TRANSITIONS[order.status]?.includes(to)) {
+    return `Order can't go from ${order.status} to ${to}`;
+  }
+  return GUARDS[to]?.(order) || null;
+};
+
+// Move the order to `to` and append the change to its history. The caller
+// saves the order (usually along with the payment fields that prompted it).
+export const transitionOrder = (order, to, { actor, reason = '' }) => {
+  const blocker = transitionBlocker(order, to);
+  if (blocker) {
+    throw new OrderTransitionError(blocker);
+  }
+
+  order.statusHistory.push({ from: order.status, to, actor, reason, at: new Date() });
+  order.status = to;
+  order.$locals.statusTransition = true;
+};
+
+// First history entry, for a new order
+export const orderPlaced = (actor) => ({
+  statusHistory: [{ from: null, to: 'pending', actor, reason: 'Order placed', at: new Date() }],
+});
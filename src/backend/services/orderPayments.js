@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import { reclaimCoupon, releaseCoupon, roundMoney } from './pricing.js';
+import { commitReservation, releaseReservation } from './inventory.js';
+import { notifyOrderStatus, notifyPaymentFailed } from './notifications.js';
+import { SYSTEM_ACTOR, transitionOrder } from './orderLifecycle.js';
+import { publishOrderStatus } from './orderEvents.js';
+import { getPaymentProvider } from './payments/index.js';
+
+// Payment outcomes for an order, whoever reports them: the storefront's
+// confirmation, a provider webhook, the reconciliation job or, for cash on
+// delivery, the admin who delivers it. The provider outcomes return whether
+// they changed the order.
+
+// Save a payment status change unless the order changed since it was
+// loaded. The client confirmation and the webhook often arrive together;
+// whichever saves second loses and leaves the order to the winner.
+const saveIfUnchanged = async (order) => {
+  order.increment();
+  try {
+    await order.save();
+    return true;
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) return false;
+    throw error;
+  }
+};
+
+// Payment captured. Only the first report counts. A waiting order moves on
+// to fulfilment. One that was cancelled (expired, or cancelled by the
+// customer while the payment was open) has already given its stock back,
+// so the payment is refunded rather than selling the stock again.
+export const recordPayment = async (order, paymentId, reason) => {
+  if (!['pending', 'failed', 'expired'].includes(order.paymentStatus)) return false;
+
+  const { paymentStatus } = order;
+  order.paymentStatus = 'completed';
+  order.paymentId = paymentId;
+  if (order.status === 'pending') {
+    transitionOrder(order, 'processing', { actor: SYSTEM_ACTOR, reason });
+  }
+  if (!(await saveIfUnchanged(order))) return false;
+
+  if (order.status === 'cancelled') {
+    try {
+      await refundLateCapture(order);
+    } catch (error) {
+      // Left completed on the cancelled order; reconciliation retries it
+      console.error(`Refund of late payment for cancelled order ${order.orderNumber} failed:`, error.message);
+    }
+    publishOrderStatus(order);
+    return true;
+  }
+
+  // The failure gave back the coupon use; the order is keeping it after all
+  if (paymentStatus === 'failed') {
+    await reclaimCoupon(order.coupon?.code, order.user);
+  }
+  await commitReservation(order);
+  publishOrderStatus(order);
+  await notifyOrderStatus(order);
+  return true;
+};
+
+// Give back a payment captured after its order was cancelled. Throws if the
+// provider refuses, leaving the order as it was.
+export const refundLateCapture = async (order) => {
+  const amount = roundMoney(order.totalAmount - order.refundedAmount);
+  await getPaymentProvider(order.paymentProvider).refund({
+    paymentId: order.paymentId,
+    amount,
+    notes: { orderId: order._id.toString(), orderNumber: order.orderNumber, kind: 'late_capture' },
+  });
+
+  order.refundedAmount = roundMoney(order.refundedAmount + amount);
+  order.paymentStatus = 'refunded';
+  await order.save();
+  return amount;
+};
+
+// Payment failed: give back the stock and coupon use the order was holding.
+// The customer can still retry, so the order stays open. A failure reported
+// after the payment went through is stale and changes nothing.
+export const recordFailure = async (order) => {
+  if (order.paymentStatus !== 'pending') return false;
+
+  order.paymentStatus = 'failed';
+  if (!(await saveIfUnchanged(order))) return false;
+
+  await releaseCoupon(order.coupon?.code, order.user);
+  await releaseReservation(order);
+  publishOrderStatus(order);
+  await notifyPaymentFailed(order);
+  return true;
+};
+
+// No payment ever arrived: cancel the order and give back what it was
+// holding. A payment the provider reports later is refunded.
+export const expirePayment = async (order, reason) => {
+  if (order.status !== 'pending' || !['pending', 'failed'].includes(order.paymentStatus)) return false;
+
+  const { paymentStatus } = order;
+  order.paymentStatus = 'expired';
+  transitionOrder(order, 'cancelled', { actor: SYSTEM_ACTOR, reason });
+  if (!(await saveIfUnchanged(order))) return false;
+
+  // A failed payment already gave these back
+  if (paymentStatus === 'pending') {
+    await releaseCoupon(order.coupon?.code, order.user);
+    await releaseReservation(order);
+  }
+  publishOrderStatus(order);
+  await notifyOrderStatus(order);
+  return true;
+};
+
+// A cash on delivery order has nothing to wait for, so it goes straight to
+// fulfilment with its stock sold and its payment still pending. Both change
+// in one save, so if it fails the order is still pending and holding its
+// reservation.
+export const confirmCashOnDelivery = async (order) => {
+  transitionOrder(order, 'processing', { actor: SYSTEM_ACTOR, reason: 'Cash on delivery order confirmed' });
+  order.reservation.status = 'committed';
+  await order.save();
+  publishOrderStatus(order);
+  await notifyOrderStatus(order);
+};
+
+// The courier collected a cash on delivery order's total. The caller saves
+// the order, along with its move to delivered.
+export const recordCashCollection = (order, actor) => {
+  order.paymentStatus = 'completed';
+  order.codCollectedAt = new Date();
+  order.codCollectedBy = actor.user;
+};
@@ -0,0 +1,18 @@
+// The provider couldn't do what was asked (not configured, API error,
+// refund refused); routes turn it into a 502
+export class PaymentProviderError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.statusCode = 502;
+  }
+}
+
+// A webhook delivery whose signature doesn't check out
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Webhook signature verification failed') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+    this.statusCode = 400;
+  }
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { PaymentProviderError, WebhookSignatureError } from './errors.js';
+
+const SIGNATURE_HEADER = 'x-fake-signature';
+
+const randomId = (prefix) => `${prefix}_fake_${crypto.randomBytes(7).toString('hex')}`;
+
+// An in-process payment provider for offline development and tests. Nothing
+// leaves the server: intents, payments and refunds live in memory.
+//
+// The storefront's fake adapter drives a payment with simulate(), choosing
+// whether it succeeds or fails and how long it takes. Like a real gateway,
+// the outcome is reported twice: a confirmation for the client to verify
+// (successful payments that complete straight away) and a signed webhook,
+// delivered through `deliverWebhook` once the payment settles.
+export const createFakeProvider = ({ secret = 'fake_webhook_secret', deliverWebhook = async () => {} } = {}) => {
+  const intents = new Map();
+  const payments = new Map();
+
+  const sign = (data) => crypto.createHmac('sha256', secret).update(data).digest('hex');
+
+  const sendWebhook = async (type, intent) => {
+    const rawBody = Buffer.from(
+      JSON.stringify({
+        id: randomId('evt'),
+        type,
+        createdAt: new Date().toISOString(),
+        orderId: intent.orderId,
+        paymentId: intent.paymentId,
+      })
+    );
+    try {
+      await deliverWebhook({ rawBody, headers: { [SIGNATURE_HEADER]: sign(rawBody) } });
+    } catch (error) {
+      console.error('Fake webhook delivery error:', error);
+    }
+  };
+
+  const settle = (intent, outcome) => {
+    intent.status = outcome === 'success' ? 'captured' : 'failed';
+    if (outcome === 'success') {
+      payments.set(intent.paymentId, {
+        id: intent.paymentId,
+        amount: intent.amount,
+        refunded: 0,
+        method: intent.method,
+        createdAt: Math.floor(Date.now() / 1000),
+      });
+    }
+    // Webhooks arrive after the client hears back, as they usually do
+    setImmediate(() => sendWebhook(outcome === 'success' ? 'payment.captured' : 'payment.failed', intent));
+  };
+
+  return {
+    name: 'fake',
+
+    createIntent: async ({ order, method }) => {
+      const intent = {
+        id: randomId('intent'),
+        orderId: order._id.toString(),
+        amount: order.totalAmount,
+        method,
+        status: 'created',
+      };
+      intents.set(intent.id, intent);
+      return {
+        intentId: intent.id,
+        clientParams: { intentId: intent.id, amount: intent.amount, currency: 'INR' },
+      };
+    },
+
+    verify: async ({ intentId, payload }) => {
+      const intent = intents.get(intentId);
+      const verified =
+        intent?.status === 'captured' &&
+        payload.paymentId === intent.paymentId &&
+        payload.signature === sign(`${intentId}|${payload.paymentId}`);
+      return { verified, paymentId: payload.paymentId };
+    },
+
+    refund: async ({ paymentId, amount }) => {
+      const payment = payments.get(paymentId);
+      if (!payment) {
+        throw new PaymentProviderError('No such payment');
+      }
+      if (payment.refunded + amount > payment.amount) {
+        throw new PaymentProviderError('Refund amount exceeds the captured amount');
+      }
+      payment.refunded += amount;
+      return { id: randomId('rfnd'), status: 'processed', amount };
+    },
+
+    lookupIntent: async (intentId) => {
+      const intent = intents.get(intentId);
+      if (!intent) {
+        // Everything is forgotten when the server restarts
+        throw new PaymentProviderError('No such intent');
+      }
+      if (intent.status === 'captured') {
+        return { status: 'paid', paymentId: intent.paymentId, amount: intent.amount };
+      }
+      return { status: intent.status === 'failed' ? 'failed' : 'open' };
+    },
+
+    parseWebhook: ({ rawBody, headers }) => {
+      if (headers[SIGNATURE_HEADER] !== sign(rawBody)) {
+        throw new WebhookSignatureError();
+      }
+      const { id, type, createdAt, orderId, paymentId } = JSON.parse(rawBody.toString());
+      return { eventId: id, type, occurredAt: new Date(createdAt), orderId, paymentId };
+    },
+
+    fetchPayment: async (paymentId) => {
+      const payment = payments.get(paymentId);
+      if (!payment) {
+        throw new PaymentProviderError('No such payment');
+      }
+      return {
+        id: payment.id,
+        amount: payment.amount,
+        currency: 'INR',
+        status: payment.refunded > 0 ? 'refunded' : 'captured',
+        method: payment.method,
+        email: '',
+        contact: '',
+        createdAt: payment.createdAt,
+      };
+    },
+
+    // Complete an intent. `delayMs` leaves it processing for that long first;
+    // the outcome then only arrives by webhook. Returns the intent's status
+    // and, for a payment that succeeded straight away, the confirmation the
+    // client passes to verify().
+    simulate: (intentId, { outcome, delayMs = 0 }) => {
+      const intent = intents.get(intentId);
+      if (!intent || intent.status !== 'created') {
+        throw new PaymentProviderError('This payment has already been attempted');
+      }
+      intent.paymentId = randomId('pay');
+
+      if (delayMs > 0) {
+        intent.status = 'processing';
+        setTimeout(() => settle(intent, outcome), delayMs).unref();
+        return { status: intent.status };
+      }
+
+      settle(intent, outcome);
+      return intent.status === 'captured'
+        ? {
+            status: intent.status,
+            confirmation: { paymentId: intent.paymentId, signature: sign(`${intentId}|${intent.paymentId}`) },
+          }
+        : { status: intent.status };
+    },
+  };
+};
@@ -0,0 +1,69 @@
+import { createRazorpayProvider } from './razorpay.js';
+import { createFakeProvider } from './fake.js';
+import { PaymentProviderError } from './errors.js';
+
+// Payment providers. Each one implements:
+//
+//   name
+//   createIntent({ order, method, customer }) -> { intentId, clientParams }
+//     Start collecting `order.totalAmount` from `customer`, an { email,
+//     contact } pair where contact is a 10-digit mobile number.
+//     `clientParams` are handed to the storefront adapter for this provider,
+//     which shows its payment UI.
+//   verify({ intentId, payload }) -> { verified, paymentId }
+//     Check the confirmation the storefront adapter sent back.
+//   refund({ paymentId, amount, notes }) -> { id, status, amount }
+//   lookupIntent(intentId) -> { status, paymentId, amount }
+//     Ask the provider how an intent stands: 'paid' (with the captured
+//     payment), 'failed' (every attempt failed) or 'open' (nothing settled
+//     yet, which includes never attempted).
+//   parseWebhook({ rawBody, headers }) -> { eventId, type, occurredAt, orderId, paymentId }
+//     Authenticate a webhook delivery and normalize it. `type` is
+//     'payment.captured', 'payment.failed', or whatever else was sent;
+//     redeliveries of an event carry the same `eventId`.
+//   fetchPayment(paymentId) -> { id, amount, currency, status, method, email, contact, createdAt }
+//
+// Amounts are in rupees. PAYMENT_PROVIDER picks the provider for new
+// payments: `razorpay` (the default) or `fake`, an in-process stand-in for
+// offline development and tests. Orders remember which provider took their
+// payment, so refunds go back through the same one.
+
+export { PaymentProviderError, WebhookSignatureError } from './errors.js';
+
+const FACTORIES = {
+  razorpay: () =>
+    createRazorpayProvider({
+      keyId: process.env.RAZORPAY_KEY_ID,
+      keySecret: process.env.RAZORPAY_KEY_SECRET,
+      webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET,
+    }),
+  fake: () => createFakeProvider({ deliverWebhook: (delivery) => webhookReceiver?.('fake', delivery) }),
+};
+
+const providers = new Map();
+let webhookReceiver = null;
+
+export const activeProviderName = () => process.env.PAYMENT_PROVIDER || 'razorpay';
+
+// Providers are built on first use, after the environment is loaded
+export const getPaymentProvider = (name = activeProviderName()) => {
+  if (!providers.has(name)) {
+    const factory = FACTORIES[name];
+    if (!factory) {
+      throw new PaymentProviderError(`Unknown payment provider "${name}"`);
+    }
+    providers.set(name, factory());
+  }
+  return providers.get(name);
+};
+
+// Swap a provider, e.g. for a fake with scripted behaviour in tests
+export const setPaymentProvider = (name, provider) => {
+  providers.set(name, provider);
+};
+
+// Where providers that deliver webhooks in-process (the fake) send them, as
+// receiver(providerName, { rawBody, headers }) like a real request
+export const setWebhookReceiver = (receiver) => {
+  webhookReceiver = receiver;
+};
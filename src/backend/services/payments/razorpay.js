@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import { PaymentProviderError, WebhookSignatureError } from './errors.js';
+
+const toPaise = (amount) => Math.round(amount * 100);
+
+const hmac = (secret, data) => crypto.createHmac('sha256', secret).update(data).digest('hex');
+
+// Razorpay Checkout. The storefront opens Checkout with `clientParams` and
+// sends back the razorpay_* fields from its success handler for verify().
+export const createRazorpayProvider = ({ keyId, keySecret, webhookSecret }) => {
+  let client;
+
+  // Created on first use so a missing key only fails the calls that need it
+  const getClient = () => {
+    if (!keyId || !keySecret) {
+      throw new PaymentProviderError('Razorpay is not configured');
+    }
+    client ??= new Razorpay({ key_id: keyId, key_secret: keySecret });
+    return client;
+  };
+
+  // The SDK rejects with { error: { description } } rather than an Error
+  const call = async (action, request) => {
+    try {
+      return await request(getClient());
+    } catch (error) {
+      if (error instanceof PaymentProviderError) throw error;
+      console.error(`Razorpay ${action} error:`, error);
+      throw new PaymentProviderError(error.error?.description || `Razorpay could not ${action}`);
+    }
+  };
+
+  return {
+    name: 'razorpay',
+
+    createIntent: async ({ order, method, customer }) => {
+      const razorpayOrder = await call('create the order', (razorpay) =>
+        razorpay.orders.create({
+          amount: toPaise(order.totalAmount),
+          currency: 'INR',
+          receipt: order.orderNumber,
+          ...(method === 'upi' && { method: 'upi' }),
+          notes: {
+            orderId: order._id.toString(),
+            userId: order.user.toString(),
+            userEmail: customer?.email,
+            userContact: customer?.contact,
+          },
+        })
+      );
+
+      return {
+        intentId: razorpayOrder.id,
+        clientParams: {
+          keyId,
+          razorpayOrderId: razorpayOrder.id,
+          amount: razorpayOrder.amount,
+          currency: razorpayOrder.currency,
+        },
+      };
+    },
+
+    verify: async ({ intentId, payload }) => {
+      const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = payload;
+      if (!keySecret || !razorpay_payment_id || !razorpay_signature || razorpay_order_id !== intentId) {
+        return { verified: false, paymentId: razorpay_payment_id };
+      }
+      const expected = hmac(keySecret, `${intentId}|${razorpay_payment_id}`);
+      return { verified: expected === razorpay_signature, paymentId: razorpay_payment_id };
+    },
+
+    refund: async ({ paymentId, amount, notes = {} }) => {
+      const refund = await call('issue the refund', (razorpay) =>
+        razorpay.payments.refund(paymentId, { amount: toPaise(amount), speed: 'normal', notes })
+      );
+      return { id: refund.id, status: refund.status, amount: refund.amount / 100 };
+    },
+
+    lookupIntent: async (intentId) => {
+      const { items } = await call('fetch the order payments', (razorpay) =>
+        razorpay.orders.fetchPayments(intentId)
+      );
+      // A refunded payment was captured first
+      const captured = items.find((payment) => ['captured', 'refunded'].includes(payment.status));
+      if (captured) {
+        return { status: 'paid', paymentId: captured.id, amount: captured.amount / 100 };
+      }
+      // Created and authorized attempts may still go through
+      if (items.length > 0 && items.every((payment) => payment.status === 'failed')) {
+        return { status: 'failed' };
+      }
+      return { status: 'open' };
+    },
+
+    // Signature checks are skipped when no webhook secret is configured
+    parseWebhook: ({ rawBody, headers }) => {
+      if (webhookSecret && headers['x-razorpay-signature'] !== hmac(webhookSecret, rawBody)) {
+        throw new WebhookSignatureError();
+      }
+
+      const body = JSON.parse(rawBody.toString());
+      const payment = body.payload?.payment?.entity;
+      return {
+        // Redeliveries repeat the event id; the body hash covers senders that omit it
+        eventId: headers['x-razorpay-event-id'] || crypto.createHash('sha256').update(rawBody).digest('hex'),
+        type: body.event,
+        occurredAt: body.created_at ? new Date(body.created_at * 1000) : undefined,
+        orderId: payment?.notes?.orderId,
+        paymentId: payment?.id,
+      };
+    },
+
+    fetchPayment: async (paymentId) => {
+      const payment = await call('fetch the payment', (razorpay) => razorpay.payments.fetch(paymentId));
+      return {
+        id: payment.id,
+        amount: payment.amount / 100,
+        currency: payment.currency,
+        status: payment.status,
+        method: payment.method,
+        email: payment.email,
+        contact: payment.contact,
+        createdAt: payment.created_at,
+      };
+    },
+  };
+};
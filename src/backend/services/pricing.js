@@ -0,0 +1,377 @@
+import mongoose from 'mongoose';
+import Product from '../models/Product.js';
+import Bundle from '../models/Bundle.js';
+import Coupon from '../models/Coupon.js';
+import CouponRedemption from '../models/CouponRedemption.js';
+import Order from '../models/Order.js';
+import { normalizeVariant, resolveVariant } from '../utils/variants.js';
+import { PIN_CODE_PATTERN } from '../utils/addresses.js';
+import {
+  DEFAULT_ITEM_WEIGHT_KG,
+  DEFAULT_SHIPPING_METHOD,
+  SHIPPING_METHODS,
+  findShippingZone,
+  measureShipment,
+  shippingOptions,
+} from './shipping.js';
+
+// Single source of truth for what an order costs. Clients send only what
+// they want (product or bundle, variant, quantity); prices are always loaded
+// from Mongo so a tampered request can't change the amount charged.
+
+export const TAX_RATE = 0.1;
+
+// Thrown for requests that can't be priced (unknown product, bad quantity);
+// routes turn it into a 400 instead of a 500
+export class PricingError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PricingError';
+    this.statusCode = 400;
+  }
+}
+
+// A coupon code that can't be applied; the message is shown to the customer
+export class CouponError extends PricingError {
+  constructor(message) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+// The order can't be shipped as asked: no zone covers the PIN code, or the
+// zone doesn't offer the chosen method
+export class ShippingError extends PricingError {
+  constructor(message) {
+    super(message);
+    this.name = 'ShippingError';
+  }
+}
+
+export const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+const parseLine = (line, index) => {
+  const { productId, bundleId } = line || {};
+  const quantity = Number(line?.quantity ?? 1);
+  const id = productId || bundleId;
+
+  if (!id || (productId && bundleId)) {
+    throw new PricingError(`Item ${index + 1} must reference a product or a bundle`);
+  }
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new PricingError(`Item ${index + 1} has an invalid id`);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new PricingError(`Item ${index + 1} has an invalid quantity`);
+  }
+
+  return { productId, bundleId, quantity, variant: normalizeVariant(line.variant) };
+};
+
+// A bundle ships as its products together; unset when none of them has a
+// weight, so the shipping default applies
+const bundleWeight = (bundle) => {
+  const weighed = bundle.products.filter((item) => item.product?.weight != null);
+  if (weighed.length === 0) return undefined;
+  return bundle.products.reduce(
+    (sum, item) => sum + (item.product?.weight ?? DEFAULT_ITEM_WEIGHT_KG) * item.quantity,
+    0
+  );
+};
+
+// ============================================================================
+// LINE PRICING
+// ============================================================================
+
+// Resolve client cart lines into priced order lines
+export const priceLines = async (items) => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PricingError('Cart items are required');
+  }
+
+  const lines = items.map(parseLine);
+
+  const productIds = lines.filter((line) => line.productId).map((line) => line.productId);
+  const bundleIds = lines.filter((line) => line.bundleId).map((line) => line.bundleId);
+
+  const [products, bundles] = await Promise.all([
+    productIds.length ? Product.find({ _id: { $in: productIds }, isActive: true }) : [],
+    bundleIds.length
+      ? Bundle.find({ _id: { $in: bundleIds }, isActive: true }).populate('products.product', 'weight')
+      : [],
+  ]);
+
+  const productsById = new Map(products.map((product) => [product._id.toString(), product]));
+  const bundlesById = new Map(bundles.map((bundle) => [bundle._id.toString(), bundle]));
+
+  return lines.map(({ productId, bundleId, quantity, variant }) => {
+    if (bundleId) {
+      const bundle = bundlesById.get(bundleId.toString());
+      if (!bundle) {
+        throw new PricingError(`Bundle ${bundleId} is no longer available`);
+      }
+
+      return {
+        bundleId: bundle._id,
+        name: bundle.name,
+        category: bundle.category,
+        quantity,
+        price: bundle.price,
+        originalPrice: bundle.originalPrice,
+        lineTotal: roundMoney(bundle.price * quantity),
+        image: bundle.image,
+        weight: bundleWeight(bundle),
+      };
+    }
+
+    const product = productsById.get(productId.toString());
+    if (!product) {
+      throw new PricingError(`Product ${productId} is no longer available`);
+    }
+
+    const { sku, price } = resolveVariant(product, variant);
+
+    return {
+      productId: product._id,
+      variant,
+      sku,
+      name: product.name,
+      category: product.category,
+      quantity,
+      price,
+      originalPrice: product.originalPrice,
+      lineTotal: roundMoney(price * quantity),
+      image: product.mainImage || product.images[0],
+      weight: product.weight,
+    };
+  });
+};
+
+// ============================================================================
+// COUPONS
+// ============================================================================
+
+// Check a code against the priced lines and work out what it takes off.
+// Throws a CouponError explaining why the code can't be used.
+export const applyCoupon = async (code, { lines, userId }) => {
+  const coupon = await Coupon.findOne({ code: String(code).trim().toUpperCase() });
+  const now = new Date();
+
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError('This code is not valid');
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError('This code is not active yet');
+  }
+  if (coupon.expiresAt && coupon.expiresAt < now) {
+    throw new CouponError('This code has expired');
+  }
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    throw new CouponError('This code has reached its usage limit');
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+  if (subtotal < coupon.minOrderValue) {
+    throw new CouponError(`This code needs a minimum order of ₹${coupon.minOrderValue}`);
+  }
+
+  const eligibleLines = coupon.categories.length
+    ? lines.filter((line) => coupon.categories.includes(line.category))
+    : lines;
+  if (eligibleLines.length === 0) {
+    throw new CouponError(`This code only applies to ${coupon.categories.join(', ')} items`);
+  }
+
+  if (userId) {
+    // Orders whose payment failed or never arrived, and orders cancelled
+    // before they were paid, don't count as a use
+    const timesUsed = await Order.countDocuments({
+      user: userId,
+      'coupon.code': coupon.code,
+      $nor: [
+        { paymentStatus: { $in: ['failed', 'expired'] } },
+        { status: 'cancelled', paymentStatus: 'pending' },
+      ],
+    });
+    if (timesUsed >= coupon.perUserLimit) {
+      throw new CouponError('You have already used this code');
+    }
+  }
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, line) => sum + line.lineTotal, 0);
+  let discount = 0;
+  if (coupon.type === 'percentage') {
+    discount = (eligibleSubtotal * coupon.value) / 100;
+    if (coupon.maxDiscount) discount = Math.min(discount, coupon.maxDiscount);
+  } else if (coupon.type === 'fixed') {
+    discount = Math.min(coupon.value, eligibleSubtotal);
+  }
+
+  return {
+    code: coupon.code,
+    type: coupon.type,
+    description: coupon.description,
+    discount: roundMoney(discount),
+    freeShipping: coupon.type === 'free_shipping',
+  };
+};
+
+// Count a redemption for `userId` against the global usage limit and the
+// coupon's per-user limit. Both are conditional updates, so concurrent
+// checkouts can't take the last use or go past a customer's allowance
+// between applyCoupon's checks and here.
+export const redeemCoupon = async (code, userId) => {
+  const coupon = await Coupon.findOneAndUpdate(
+    {
+      code,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }],
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true }
+  );
+
+  if (!coupon) {
+    throw new CouponError('This code has reached its usage limit');
+  }
+
+  try {
+    // With the customer at their limit nothing matches, and the upsert
+    // runs into their existing record
+    await CouponRedemption.updateOne(
+      { code, user: userId, count: { $lt: coupon.perUserLimit } },
+      { $inc: { count: 1 } },
+      { upsert: true }
+    );
+  } catch (error) {
+    await Coupon.updateOne({ code, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    if (error.code === 11000) {
+      throw new CouponError('You have already used this code');
+    }
+    throw error;
+  }
+};
+
+// Give a use back when the order it was redeemed for never gets paid
+export const releaseCoupon = async (code, userId) => {
+  if (!code) return;
+  await Coupon.updateOne({ code, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+  await CouponRedemption.updateOne({ code, user: userId, count: { $gt: 0 } }, { $inc: { count: -1 } });
+};
+
+// Take a use back for an order paid after a failed payment gave it up. The
+// customer has already paid the discounted price, so no limit applies.
+export const reclaimCoupon = async (code, userId) => {
+  if (!code) return;
+  await Coupon.updateOne({ code }, { $inc: { usedCount: 1 } });
+  await CouponRedemption.updateOne({ code, user: userId }, { $inc: { count: 1 } }, { upsert: true });
+};
+
+// ============================================================================
+// TOTALS
+// ============================================================================
+
+const subtotalOf = (lines) => roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+const discountOn = (subtotal, discount) => roundMoney(Math.min(Math.max(discount, 0), subtotal));
+
+// `discount` is an amount off the subtotal; tax applies after the discount.
+// `shipping` is the rate of the chosen shipping method.
+export const calculateTotals = (lines, { discount = 0, shipping = 0 } = {}) => {
+  const subtotal = subtotalOf(lines);
+  const appliedDiscount = discountOn(subtotal, discount);
+  const discountedSubtotal = subtotal - appliedDiscount;
+
+  // Savings against list prices, shown to the customer but not charged
+  const savings = roundMoney(
+    lines.reduce(
+      (sum, line) => sum + Math.max((line.originalPrice ?? line.price) - line.price, 0) * line.quantity,
+      0
+    )
+  );
+
+  const tax = roundMoney(discountedSubtotal * TAX_RATE);
+  const total = roundMoney(discountedSubtotal + shipping + tax);
+
+  return { subtotal, discount: appliedDiscount, savings, shipping, tax, total };
+};
+
+// Shipping for priced lines to `pinCode`: every method the zone offers,
+// and the one chosen (standard unless asked otherwise). Throws a
+// ShippingError if the order can't go there that way.
+export const quoteShipping = async (lines, { pinCode, method, orderValue, freeShipping }) => {
+  pinCode = String(pinCode).trim();
+  if (!PIN_CODE_PATTERN.test(pinCode)) {
+    throw new ShippingError('Enter a valid 6-digit PIN code');
+  }
+  const zone = await findShippingZone(pinCode);
+  if (!zone) {
+    throw new ShippingError(`We don't deliver to PIN code ${pinCode} yet`);
+  }
+
+  const options = shippingOptions(zone, { ...measureShipment(lines), orderValue, freeShipping });
+  const chosen = method
+    ? options.find((option) => option.method === method)
+    : (options.find((option) => option.method === DEFAULT_SHIPPING_METHOD) ?? options[0]);
+  if (!chosen) {
+    throw new ShippingError(
+      `${SHIPPING_METHODS[method] ?? method} delivery isn't available for PIN code ${pinCode}`
+    );
+  }
+
+  return {
+    delivery: { pinCode, zone: zone.name, method: chosen.method, estimate: chosen.estimate },
+    rate: chosen.rate,
+    options,
+  };
+};
+
+// Full breakdown for a cart: priced lines, the applied coupon and totals.
+// Shipping is only charged once there's a PIN code to ship to; until then
+// the quote has no `delivery` and no shipping options.
+export const quoteOrder = async (items, { couponCode, userId, pinCode, shippingMethod } = {}) => {
+  const lines = await priceLines(items);
+  const coupon = couponCode ? await applyCoupon(couponCode, { lines, userId }) : null;
+
+  const subtotal = subtotalOf(lines);
+  const shipping = pinCode
+    ? await quoteShipping(lines, {
+        pinCode,
+        method: shippingMethod,
+        orderValue: subtotal - discountOn(subtotal, coupon?.discount ?? 0),
+        freeShipping: coupon?.freeShipping,
+      })
+    : null;
+
+  return {
+    items: lines,
+    coupon,
+    ...calculateTotals(lines, {
+      discount: coupon?.discount,
+      shipping: shipping?.rate ?? 0,
+    }),
+    delivery: shipping?.delivery ?? null,
+    shippingOptions: shipping?.options ?? [],
+    currency: 'INR',
+  };
+};
+
+// Order documents store the priced lines and the breakdown that was charged
+export const toOrderFields = (quote) => ({
+  items: quote.items.map(({ lineTotal, originalPrice, category, weight, ...item }) => item),
+  totalAmount: quote.total,
+  coupon: quote.coupon
+    ? { code: quote.coupon.code, type: quote.coupon.type, discount: quote.coupon.discount }
+    : undefined,
+  pricing: {
+    subtotal: quote.subtotal,
+    discount: quote.discount,
+    shipping: quote.shipping,
+    tax: quote.tax,
+    total: quote.total,
+  },
+  shippingMethod: quote.delivery?.method,
+  deliveryEstimate: quote.delivery && {
+    earliest: quote.delivery.estimate.earliest,
+    latest: quote.delivery.estimate.latest,
+  },
+});
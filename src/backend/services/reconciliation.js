@@ -0,0 +1,197 @@
+import Order from '../models/Order.js';
+import ReconciliationReport from '../models/ReconciliationReport.js';
+import { RESERVATION_TTL_MS } from './inventory.js';
+import { expirePayment, recordFailure, recordPayment, refundLateCapture } from './orderPayments.js';
+import { getPaymentProvider } from './payments/index.js';
+
+// Payment reconciliation. An order can stay unpaid forever if the browser
+// closed before the client confirmation was sent and the webhook never
+// arrived. This job asks the provider about every unpaid order that has
+// been waiting a while and settles it the way the missing report would
+// have: completed, failed, or (when nothing was paid in time) expired.
+// It also retries refunds of payments captured after their order was
+// cancelled that the provider refused at the time, and lists paid orders
+// whose stock ran out before the payment arrived.
+
+// Left alone until well after the payment UI would have given up
+export const RECONCILE_AFTER_MS = 2 * RESERVATION_TTL_MS;
+// No payment by then and the order is cancelled
+export const EXPIRE_AFTER_MS = 24 * 60 * 60 * 1000;
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 200;
+
+const SHORTFALL_NOTE = 'Paid after its reservation expired, and the stock has run out';
+
+// The amount the provider captured doesn't match the order
+const amountMismatch = (order, lookup) =>
+  lookup.amount !== undefined && Math.abs(lookup.amount - order.totalAmount) >= 0.01;
+
+// Check one order against its provider. Returns the discrepancy to report,
+// or null when the order and the provider agree.
+const reconcileOrder = async (order, now) => {
+  const entry = {
+    order: order._id,
+    orderNumber: order.orderNumber,
+    provider: order.paymentProvider,
+    localStatus: order.paymentStatus,
+    localAmount: order.totalAmount,
+    action: 'none',
+  };
+
+  if (order.status === 'processing') {
+    // Only picked up for a stock shortfall; see commitReservation
+    return { ...entry, stockShortfall: true, note: SHORTFALL_NOTE };
+  }
+
+  if (order.status === 'cancelled') {
+    const lateCapture = {
+      ...entry,
+      gatewayStatus: 'paid',
+      gatewayPaymentId: order.paymentId,
+      gatewayAmount: order.totalAmount,
+    };
+    try {
+      await refundLateCapture(order);
+      return { ...lateCapture, action: 'refunded', note: 'Paid after the order was cancelled' };
+    } catch (error) {
+      return { ...lateCapture, note: `Paid after the order was cancelled; refund failed: ${error.message}` };
+    }
+  }
+
+  const overdue = order.createdAt < new Date(now - EXPIRE_AFTER_MS);
+
+  if (!order.paymentIntentId) {
+    // The intent was never opened, so there is nothing to ask about
+    if (!overdue) return null;
+    const expired = await expirePayment(order, 'No payment was started');
+    return { ...entry, action: expired ? 'expired' : 'none', note: 'Order has no payment intent' };
+  }
+
+  let lookup;
+  try {
+    lookup = await getPaymentProvider(order.paymentProvider).lookupIntent(order.paymentIntentId);
+  } catch (error) {
+    return { ...entry, note: `Provider lookup failed: ${error.message}` };
+  }
+
+  const reported = {
+    ...entry,
+    gatewayStatus: lookup.status,
+    gatewayPaymentId: lookup.paymentId,
+    gatewayAmount: lookup.amount,
+  };
+
+  if (lookup.status === 'paid') {
+    // Only a capture of the full total completes the order; anything else
+    // is left for someone to look into
+    if (amountMismatch(order, lookup)) {
+      return { ...reported, note: 'Captured amount differs from the order total' };
+    }
+
+    const completed = await recordPayment(order, lookup.paymentId, 'Payment reconciled with provider');
+    return {
+      ...reported,
+      action: completed ? 'completed' : 'none',
+      ...(order.reservation?.shortfall && { stockShortfall: true, note: SHORTFALL_NOTE }),
+    };
+  }
+
+  if (lookup.status === 'failed' && order.paymentStatus === 'pending') {
+    const failed = await recordFailure(order);
+    return { ...reported, action: failed ? 'failed' : 'none' };
+  }
+
+  if (overdue) {
+    const expired = await expirePayment(order, 'Payment not received');
+    return { ...reported, action: expired ? 'expired' : 'none' };
+  }
+
+  return null;
+};
+
+// Check every unpaid order older than RECONCILE_AFTER_MS, every cancelled
+// order still holding a payment and every paid order short of stock, and
+// save a report of what was found. Orders that stay in the list (not yet
+// due to expire, or waiting on someone) go to the back of the queue once
+// checked, so a full batch of them can't keep newer orders out.
+export const reconcilePayments = async ({ trigger = 'schedule', triggeredBy } = {}) => {
+  const now = Date.now();
+  const report = new ReconciliationReport({ trigger, triggeredBy, startedAt: new Date(now) });
+
+  const orders = await Order.find({
+    paymentMethod: { $ne: 'cash_on_delivery' },
+    createdAt: { $lt: new Date(now - RECONCILE_AFTER_MS) },
+    $or: [
+      { status: 'pending', paymentStatus: { $in: ['pending', 'failed'] } },
+      { status: 'cancelled', paymentStatus: 'completed' },
+      { status: 'processing', 'reservation.shortfall': true },
+    ],
+  })
+    .sort({ lastReconciledAt: 1, createdAt: 1 })
+    .limit(BATCH_SIZE);
+
+  for (const order of orders) {
+    let discrepancy;
+    try {
+      discrepancy = await reconcileOrder(order, now);
+    } catch (error) {
+      console.error(`Reconciliation error for order ${order.orderNumber}:`, error);
+      discrepancy = {
+        order: order._id,
+        orderNumber: order.orderNumber,
+        provider: order.paymentProvider,
+        localStatus: order.paymentStatus,
+        localAmount: order.totalAmount,
+        action: 'none',
+        note: error.message,
+      };
+    }
+
+    report.ordersChecked += 1;
+    await Order.updateOne({ _id: order._id }, { $set: { lastReconciledAt: new Date() } });
+    if (!discrepancy) continue;
+
+    report.discrepancies.push(discrepancy);
+    if (discrepancy.stockShortfall) report.stockShortfalls += 1;
+    if (discrepancy.action === 'none') {
+      if (!discrepancy.gatewayStatus && !discrepancy.stockShortfall) report.lookupErrors += 1;
+    } else {
+      report[discrepancy.action] += 1;
+    }
+  }
+
+  report.finishedAt = new Date();
+  await report.save();
+  return report;
+};
+
+let running = null;
+
+// One pass at a time; a request while a pass is running shares its result
+export const runReconciliation = (options) => {
+  running ??= reconcilePayments(options).finally(() => {
+    running = null;
+  });
+  return running;
+};
+
+export const startReconciliationWorker = () => {
+  const timer = setInterval(async () => {
+    try {
+      const report = await runReconciliation();
+      if (report.discrepancies.length > 0) {
+        console.log(
+          `Payment reconciliation: ${report.completed} completed, ${report.failed} failed, ` +
+            `${report.expired} expired, ${report.refunded} refunded, ${report.stockShortfalls} short of stock, ` +
+            `${report.lookupErrors} unchecked`
+        );
+      }
+    } catch (error) {
+      console.error('Payment reconciliation error:', error);
+    }
+  }, RECONCILE_INTERVAL_MS);
+
+  // Don't keep the process alive just for the worker
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,306 @@
+import mongoose from 'mongoose';
+import { releaseCoupon, roundMoney } from './pricing.js';
+import { releaseReservation, restockItems } from './inventory.js';
+import { SYSTEM_ACTOR, transitionOrder } from './orderLifecycle.js';
+import { getPaymentProvider } from './payments/index.js';
+
+// Customer cancellations and returns. Either can cover the whole order or
+// some of its units. Units taken back are refunded (when the order was paid)
+// and restocked. Once nothing is left on an order it moves to `cancelled`
+// or `returned`.
+
+export const CANCELLATION_REASONS = [
+  'changed_mind',
+  'ordered_by_mistake',
+  'found_better_price',
+  'delivery_too_slow',
+  'other',
+];
+
+export const RETURN_REASONS = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'no_longer_needed',
+  'other',
+];
+
+export const RETURN_WINDOW_DAYS = 30;
+
+const CANCELLABLE_STATUSES = ['pending', 'processing'];
+const PAID_STATUSES = ['completed', 'partially_refunded'];
+
+// A cancellation or return the order can't take; routes turn it into a 409
+export class RefundError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RefundError';
+    this.statusCode = 409;
+  }
+}
+
+const isPaid = (order) => PAID_STATUSES.includes(order.paymentStatus);
+
+// Units of a line the customer still has a claim on: not cancelled, not
+// returned, not waiting on a return request and not being refunded
+export const openQuantity = (order, item) => {
+  const awaitingReturn = order.refunds
+    .filter((refund) => ['requested', 'processing'].includes(refund.status))
+    .flatMap((refund) => refund.items)
+    .filter((line) => line.itemId.equals(item._id))
+    .reduce((sum, line) => sum + line.quantity, 0);
+  return item.quantity - item.cancelledQuantity - item.returnedQuantity - awaitingReturn;
+};
+
+// Match a selection of { itemId, quantity } against the order. No selection
+// means every open unit.
+const selectLines = (order, selection) => {
+  if (!selection || selection.length === 0) {
+    const lines = order.items
+      .map((item) => ({ item, quantity: openQuantity(order, item) }))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      throw new RefundError('Every item on this order has already been cancelled or returned');
+    }
+    return lines;
+  }
+
+  const seen = new Set();
+  return selection.map(({ itemId, quantity }) => {
+    const item = order.items.id(itemId);
+    if (!item) {
+      throw new RefundError('An item you selected is not part of this order');
+    }
+    if (seen.has(itemId)) {
+      throw new RefundError(`${item.name} was selected more than once`);
+    }
+    seen.add(itemId);
+
+    const open = openQuantity(order, item);
+    if (quantity > open) {
+      throw new RefundError(
+        open > 0
+          ? `Only ${open} of ${item.name} can be selected`
+          : `No more of ${item.name} can be cancelled or returned`
+      );
+    }
+    return { item, quantity };
+  });
+};
+
+// What the customer paid for these units: their share of the order total
+// less shipping, so coupon discounts and tax are refunded in proportion
+const shareOfTotal = (order, lines) => {
+  const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  if (itemsTotal === 0) return 0;
+
+  const paidForItems = (order.pricing?.total ?? order.totalAmount) - (order.pricing?.shipping ?? 0);
+  const linesTotal = lines.reduce((sum, { item, quantity }) => sum + item.price * quantity, 0);
+  return roundMoney((linesTotal / itemsTotal) * paidForItems);
+};
+
+// Save the order only if nobody else changed it since it was loaded.
+// Claims a refund's units and amount before any money moves, so two
+// requests working from the same copy of the order can't both refund.
+const claim = async (order) => {
+  order.increment();
+  try {
+    await order.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      throw new RefundError('This order was just changed, please try again');
+    }
+    throw error;
+  }
+};
+
+// Refund `lines` and mark them taken back, then bring the order's payment
+// and fulfilment status in line with what is left on it. The caller saves
+// the order and restocks. The refund is claimed (`processing`) before it is
+// sent and given up again if the provider refuses it, leaving the order as
+// it was.
+const settle = async (order, refund, lines, { actor }) => {
+  if (order.refunds.some((other) => other.status === 'processing')) {
+    throw new RefundError('Another refund on this order is in progress, please try again shortly');
+  }
+
+  const selected = new Map(lines.map(({ item, quantity }) => [item._id.toString(), quantity]));
+  const closesOrder = order.items.every((item) => {
+    const taken = item.cancelledQuantity + item.returnedQuantity + (selected.get(item._id.toString()) || 0);
+    return taken === item.quantity;
+  });
+
+  // The last units off an order settle the whole balance, shipping included
+  const balance = roundMoney(order.totalAmount - order.refundedAmount);
+  const amount = isPaid(order) ? (closesOrder ? balance : Math.min(shareOfTotal(order, lines), balance)) : 0;
+
+  const claimedFrom = refund.status;
+  refund.status = 'processing';
+  refund.amount = amount;
+  await claim(order);
+
+  // Cash collected on delivery is paid back by the store directly
+  if (amount > 0 && order.paymentMethod !== 'cash_on_delivery') {
+    try {
+      // Older orders only have their Razorpay payment reference
+      const result = await getPaymentProvider(order.paymentProvider).refund({
+        paymentId: order.paymentId || order.razorpayPaymentId,
+        amount,
+        notes: { orderId: order._id.toString(), orderNumber: order.orderNumber, kind: refund.kind },
+      });
+      refund.gatewayRefundId = result.id;
+    } catch (error) {
+      // A cancellation is dropped; a return goes back to waiting
+      if (refund.kind === 'cancellation') {
+        order.refunds.pull(refund._id);
+      } else {
+        refund.status = claimedFrom;
+        refund.amount = 0;
+      }
+      await order.save();
+      throw error;
+    }
+  }
+
+  if (amount > 0) {
+    order.refundedAmount = roundMoney(order.refundedAmount + amount);
+    order.paymentStatus = order.refundedAmount >= order.totalAmount ? 'refunded' : 'partially_refunded';
+  }
+
+  for (const { item, quantity } of lines) {
+    if (refund.kind === 'cancellation') item.cancelledQuantity += quantity;
+    else item.returnedQuantity += quantity;
+  }
+  refund.status = 'completed';
+  refund.resolvedAt = new Date();
+
+  if (closesOrder) {
+    transitionOrder(order, refund.kind === 'cancellation' ? 'cancelled' : 'returned', {
+      actor,
+      reason: refund.kind === 'cancellation' ? 'Cancelled' : 'Returned',
+    });
+  }
+
+  return { amount, closesOrder };
+};
+
+// Order lines in the shape inventory restocks from
+const toStockLines = (lines) =>
+  lines.map(({ item, quantity }) => ({
+    productId: item.productId,
+    bundleId: item.bundleId,
+    variant: item.variant,
+    quantity,
+  }));
+
+const toRefundLines = (lines) =>
+  lines.map(({ item, quantity }) => ({ itemId: item._id, name: item.name, quantity }));
+
+// ============================================================================
+// CANCELLATIONS
+// ============================================================================
+
+// Cancel some or all of an unshipped order. Unpaid orders can only be
+// cancelled whole, since their pending payment is for the full amount.
+// Returns the completed cancellation and the amount refunded.
+export const cancelOrderItems = async (order, { items, reasonCode, comment = '', actor }) => {
+  if (!CANCELLABLE_STATUSES.includes(order.status)) {
+    throw new RefundError(
+      order.status === 'cancelled'
+        ? 'This order has already been cancelled'
+        : "Orders can't be cancelled once they've shipped"
+    );
+  }
+
+  const lines = selectLines(order, items);
+  const wholeOrder = order.items.every((item) => {
+    const line = lines.find((l) => l.item._id.equals(item._id));
+    return (line?.quantity || 0) === openQuantity(order, item);
+  });
+  if (!isPaid(order) && !wholeOrder) {
+    throw new RefundError('Unpaid orders can only be cancelled in full');
+  }
+
+  order.refunds.push({
+    kind: 'cancellation',
+    reasonCode,
+    comment,
+    items: toRefundLines(lines),
+    requestedBy: actor,
+  });
+  const refund = order.refunds[order.refunds.length - 1];
+
+  const paymentStatus = order.paymentStatus;
+  const { amount, closesOrder } = await settle(order, refund, lines, { actor });
+  await order.save();
+
+  // Sold units go back on the shelf; an unpaid order still holds its
+  // reservation, which is released instead
+  if (order.reservation?.status === 'committed') {
+    await restockItems(toStockLines(lines));
+  } else {
+    await releaseReservation(order);
+  }
+  // A failed payment already gave the coupon use back
+  if (closesOrder && paymentStatus !== 'failed') {
+    await releaseCoupon(order.coupon?.code, order.user);
+  }
+
+  return { refund, amount };
+};
+
+// ============================================================================
+// RETURNS
+// ============================================================================
+
+const deliveredAt = (order) =>
+  [...order.statusHistory].reverse().find((entry) => entry.to === 'delivered')?.at ?? order.updatedAt;
+
+// Ask to send back some or all of a delivered order. The request waits for
+// the store to approve or reject it.
+export const requestReturn = async (order, { items, reasonCode, comment = '', actor }) => {
+  if (order.status !== 'delivered') {
+    throw new RefundError('Only delivered orders can be returned');
+  }
+  const windowEnds = deliveredAt(order).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  if (Date.now() > windowEnds) {
+    throw new RefundError(`Returns close ${RETURN_WINDOW_DAYS} days after delivery`);
+  }
+
+  const lines = selectLines(order, items);
+  order.refunds.push({
+    kind: 'return',
+    reasonCode,
+    comment,
+    items: toRefundLines(lines),
+    requestedBy: actor,
+  });
+  await order.save();
+
+  return order.refunds[order.refunds.length - 1];
+};
+
+// Approve (refund and restock) or reject a return request. Returns the
+// amount refunded.
+export const resolveReturn = async (order, refund, { approve, note = '', actor = SYSTEM_ACTOR }) => {
+  if (refund.kind !== 'return' || refund.status !== 'requested') {
+    throw new RefundError('This return has already been resolved');
+  }
+
+  if (!approve) {
+    refund.status = 'rejected';
+    refund.resolutionNote = note;
+    refund.resolvedAt = new Date();
+    await order.save();
+    return 0;
+  }
+
+  const lines = refund.items.map((line) => ({ item: order.items.id(line.itemId), quantity: line.quantity }));
+  const { amount } = await settle(order, refund, lines, { actor });
+  refund.resolutionNote = note;
+  await order.save();
+
+  await restockItems(toStockLines(lines));
+  return amount;
+};
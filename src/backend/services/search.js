@@ -0,0 +1,287 @@
+import Product from '../models/Product.js';
+
+// Product search and autocomplete.
+// The Mongo text index only matches whole, correctly spelled words, so
+// searches run against an in-memory index of the (small) catalog instead:
+// query terms match by exact word, prefix or a small edit distance. Ranking
+// happens here; the page of results is then loaded fresh from Mongo so
+// prices and stock are never stale.
+
+const INDEX_TTL_MS = 60 * 1000;
+
+// Where a query term matched, and how much that counts towards the score
+const FIELD_WEIGHTS = { name: 3, tags: 2, category: 2, description: 1 };
+
+export const PRICE_BUCKETS = [
+  { label: 'Under 100', min: 0, max: 100 },
+  { label: '100 – 250', min: 100, max: 250 },
+  { label: '250 – 500', min: 250, max: 500 },
+  { label: '500 – 1000', min: 500, max: 1000 },
+  { label: '1000 and above', min: 1000 },
+];
+
+const SORTS = {
+  relevance: null,
+  newest: (a, b) => b.createdAt - a.createdAt,
+  'price-low': (a, b) => a.price - b.price,
+  'price-high': (a, b) => b.price - a.price,
+  title: (a, b) => a.name.localeCompare(b.name),
+  rating: (a, b) => b.rating - a.rating,
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export const tokenize = (text = '') =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps),
+// giving up early once it exceeds `max`
+const editDistance = (a, b, max) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return prev[b.length];
+};
+
+// Short words must be spelled right; longer ones tolerate one or two typos
+const allowedTypos = (term) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2);
+
+// 1 for an exact word, less for a prefix or a near miss, 0 for no match
+const matchQuality = (term, word, allowPrefix) => {
+  if (word === term) return 1;
+  if (allowPrefix && term.length >= 2 && word.startsWith(term)) return 0.8;
+
+  const max = allowedTypos(term);
+  if (max === 0) return 0;
+  const distance = editDistance(term, word.slice(0, term.length + max), max);
+  return distance <= max ? 0.6 - 0.15 * (distance - 1) : 0;
+};
+
+const bestQuality = (term, words, allowPrefix) =>
+  words.reduce((best, word) => Math.max(best, matchQuality(term, word, allowPrefix)), 0);
+
+// Score a document against every query term; a document must match all
+// terms somewhere. The last term is still being typed, so it may be a prefix.
+const scoreDocument = (doc, terms) => {
+  let score = 0;
+
+  for (const [index, term] of terms.entries()) {
+    const allowPrefix = index === terms.length - 1;
+    let termScore = 0;
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+      termScore = Math.max(termScore, weight * bestQuality(term, doc.words[field], allowPrefix));
+    }
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  return score;
+};
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+let cachedIndex = null;
+
+// Drop the cached index, e.g. after products are edited
+export const invalidateSearchIndex = () => {
+  cachedIndex = null;
+};
+
+// Whether any selection of the product can be bought. Listed variants
+// carry their own stock; the base stock only covers combinations that
+// aren't listed, so it counts only while some combination is unlisted.
+const isAvailable = ({ inStock, stock, options = [], variants = [] }) => {
+  if (!inStock) return false;
+  if (variants.some((variant) => variant.stock > 0)) return true;
+
+  const combinations = options.reduce((count, option) => count * Math.max(option.values.length, 1), 1);
+  return variants.length < combinations && stock > 0;
+};
+
+const loadIndex = async () => {
+  if (cachedIndex && Date.now() - cachedIndex.builtAt < INDEX_TTL_MS) {
+    return cachedIndex.docs;
+  }
+
+  const products = await Product.find({ isActive: true })
+    .select(
+      'name slug description category tags price stock inStock options variants.stock rating mainImage images createdAt'
+    )
+    .lean();
+
+  const docs = products.map((product) => ({
+    ...product,
+    available: isAvailable(product),
+    words: {
+      name: tokenize(product.name),
+      tags: product.tags.flatMap(tokenize),
+      category: tokenize(product.category),
+      description: tokenize(product.description),
+    },
+  }));
+
+  cachedIndex = { builtAt: Date.now(), docs };
+  return docs;
+};
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+const matchesFilters = (doc, filters, skip) =>
+  (skip === 'category' || filters.categories.length === 0 || filters.categories.includes(doc.category)) &&
+  (skip === 'tags' || filters.tags.length === 0 || filters.tags.some((tag) => doc.tags.includes(tag))) &&
+  (skip === 'price' ||
+    ((filters.minPrice === undefined || doc.price >= filters.minPrice) &&
+      (filters.maxPrice === undefined || doc.price <= filters.maxPrice))) &&
+  (!filters.inStock || doc.available);
+
+const countBy = (docs, keysOf) => {
+  const counts = new Map();
+  docs.forEach((doc) => keysOf(doc).forEach((key) => counts.set(key, (counts.get(key) || 0) + 1)));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Each facet is counted with every filter applied except its own, so the
+// counts show what selecting another value would return
+const buildFacets = (matched, filters) => ({
+  categories: countBy(
+    matched.filter((doc) => matchesFilters(doc, filters, 'category')),
+    (doc) => [doc.category]
+  ),
+  tags: countBy(
+    matched.filter((doc) => matchesFilters(doc, filters, 'tags')),
+    (doc) => doc.tags
+  ),
+  prices: PRICE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: matched.filter(
+      (doc) =>
+        matchesFilters(doc, filters, 'price') &&
+        doc.price >= bucket.min &&
+        (bucket.max === undefined || doc.price < bucket.max)
+    ).length,
+  })),
+});
+
+export const searchProducts = async ({
+  q = '',
+  categories = [],
+  tags = [],
+  minPrice,
+  maxPrice,
+  inStock = false,
+  sort = 'relevance',
+  page = 1,
+  limit = 12,
+}) => {
+  const docs = await loadIndex();
+  const terms = tokenize(q);
+  const filters = { categories, tags, minPrice, maxPrice, inStock };
+
+  // Without a query every product matches equally
+  const matched = terms.length
+    ? docs
+        .map((doc) => ({ doc, score: scoreDocument(doc, terms) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ doc }) => doc)
+    : docs;
+
+  const filtered = matched.filter((doc) => matchesFilters(doc, filters));
+  const compare = SORTS[sort] ?? (terms.length ? null : SORTS.newest);
+  if (compare) filtered.sort(compare);
+
+  const start = (page - 1) * limit;
+  const pageIds = filtered.slice(start, start + limit).map((doc) => doc._id);
+
+  // Fresh documents for the page, kept in ranked order
+  const fresh = await Product.find({ _id: { $in: pageIds } });
+  const freshById = new Map(fresh.map((product) => [product._id.toString(), product]));
+  const products = pageIds.map((id) => freshById.get(id.toString())).filter(Boolean);
+
+  return {
+    products,
+    total: filtered.length,
+    totalPages: Math.ceil(filtered.length / limit),
+    currentPage: page,
+    facets: buildFacets(matched, filters),
+  };
+};
+
+// ============================================================================
+// SUGGEST
+// ============================================================================
+
+// Ranked completions for a partial query: matching products, plus the
+// categories and tags the query points at
+export const suggest = async (q, limit = 5) => {
+  const terms = tokenize(q);
+  if (terms.length === 0) {
+    return { products: [], categories: [], tags: [] };
+  }
+
+  const docs = await loadIndex();
+
+  const products = docs
+    .map((doc) => ({ doc, score: scoreDocument(doc, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.doc.rating - a.doc.rating)
+    .slice(0, limit)
+    .map(({ doc }) => ({
+      _id: doc._id,
+      name: doc.name,
+      slug: doc.slug,
+      category: doc.category,
+      price: doc.price,
+      image: doc.mainImage || doc.images[0],
+    }));
+
+  // Categories and tags are matched against the last (in-progress) term
+  const lastTerm = terms[terms.length - 1];
+  const rankValues = (values) =>
+    countBy(docs, values)
+      .map((entry) => ({
+        ...entry,
+        quality: Math.max(...tokenize(entry.value).map((word) => matchQuality(lastTerm, word, true))),
+      }))
+      .filter((entry) => entry.quality > 0)
+      .sort((a, b) => b.quality - a.quality || b.count - a.count)
+      .slice(0, limit)
+      .map(({ value, count }) => ({ value, count }));
+
+  return {
+    products,
+    categories: rankValues((doc) => [doc.category]),
+    tags: rankValues((doc) => doc.tags),
+  };
+};
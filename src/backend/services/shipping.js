@@ -0,0 +1,81 @@
+import ShippingZone from '../models/ShippingZone.js';
+import { PIN_CODE_PATTERN } from '../utils/addresses.js';
+
+// Shipping rates and delivery estimates. Zones (models/ShippingZone.js) are
+// matched by PIN code prefix and price each method they offer from a
+// weight or quantity rate table, waiving it above the zone's free-shipping
+// threshold.
+
+export const SHIPPING_METHODS = {
+  standard: 'Standard',
+  express: 'Express',
+};
+export const DEFAULT_SHIPPING_METHOD = 'standard';
+const METHOD_ORDER = Object.keys(SHIPPING_METHODS);
+
+// Assumed for products and bundles without a shipping weight
+export const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+// The active zone with the longest prefix of `pinCode`, or null if none
+// covers it
+export const findShippingZone = async (pinCode) => {
+  if (!PIN_CODE_PATTERN.test(pinCode || '')) return null;
+
+  const prefixes = Array.from({ length: pinCode.length }, (_, i) => pinCode.slice(0, i + 1));
+  const zones = await ShippingZone.find({ isActive: true, pinPrefixes: { $in: prefixes } });
+
+  const matchLength = (zone) =>
+    Math.max(
+      ...zone.pinPrefixes.filter((prefix) => pinCode.startsWith(prefix)).map((prefix) => prefix.length)
+    );
+  return zones.sort((a, b) => matchLength(b) - matchLength(a))[0] ?? null;
+};
+
+// Total weight (kg) and units of priced order lines
+export const measureShipment = (lines) => ({
+  weight: lines.reduce((sum, line) => sum + (line.weight ?? DEFAULT_ITEM_WEIGHT_KG) * line.quantity, 0),
+  quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+});
+
+const addBusinessDays = (from, days) => {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    // Couriers don't deliver on Sundays
+    if (date.getDay() !== 0) remaining -= 1;
+  }
+  return date;
+};
+
+// Delivery window for an order placed at `from`
+export const estimateDelivery = ({ minDays, maxDays }, from = new Date()) => ({
+  minDays,
+  maxDays,
+  earliest: addBusinessDays(from, minDays),
+  latest: addBusinessDays(from, maxDays),
+});
+
+const tierRate = (rule, { weight, quantity }) => {
+  const measure = rule.tierBy === 'quantity' ? quantity : weight;
+  const tiers = [...rule.tiers].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  return (tiers.find((tier) => tier.upTo == null || measure <= tier.upTo) ?? tiers[tiers.length - 1]).rate;
+};
+
+// Every method `zone` offers for a shipment, standard first. `orderValue`
+// is the subtotal after discounts; `freeShipping` waives every rate (e.g.
+// for a free-shipping coupon).
+export const shippingOptions = (zone, { weight, quantity, orderValue, freeShipping = false, from }) =>
+  zone.methods
+    .map((rule) => {
+      const free =
+        freeShipping || (rule.freeShippingThreshold != null && orderValue >= rule.freeShippingThreshold);
+      return {
+        method: rule.method,
+        label: SHIPPING_METHODS[rule.method],
+        rate: free ? 0 : tierRate(rule, { weight, quantity }),
+        freeShippingThreshold: rule.freeShippingThreshold ?? null,
+        estimate: estimateDelivery(rule, from),
+      };
+    })
+    .sort((a, b) => METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method));
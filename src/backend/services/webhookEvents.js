@@ -0,0 +1,24 @@
+import WebhookEvent from '../models/WebhookEvent.js';
+
+// Claim a webhook event before applying it. Returns false if the event was
+// already claimed, i.e. this delivery is a replay.
+export const claimWebhookEvent = async (provider, { eventId, type, occurredAt }) => {
+  try {
+    await WebhookEvent.create({ provider, eventId, type, occurredAt });
+    return true;
+  } catch (error) {
+    if (error.code === 11000) return false;
+    throw error;
+  }
+};
+
+// Record what applying the event did
+export const finishWebhookEvent = (provider, eventId, { order, applied }) =>
+  WebhookEvent.updateOne(
+    { provider, eventId },
+    { order: order?._id, processedAt: new Date(), outcome: applied ? 'applied' : 'ignored' }
+  );
+
+// Give up a claim after applying the event failed, so the provider's next
+// delivery of it gets another try
+export const releaseWebhookEvent = (provider, eventId) => WebhookEvent.deleteOne({ provider, eventId });
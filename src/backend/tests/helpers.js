@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { mock } from 'node:test';
+import Order from '../models/Order.js';
+import Product from '../models/Product.js';
+import Coupon from '../models/Coupon.js';
+import CouponRedemption from '../models/CouponRedemption.js';
+import User from '../models/User.js';
+import { createFakeProvider } from '../services/payments/fake.js';
+import { setPaymentProvider } from '../services/payments/index.js';
+import { SYSTEM_ACTOR, orderPlaced, transitionOrder } from '../services/orderLifecycle.js';
+
+// Shared setup for the service tests. Nothing talks to MongoDB: the model
+// calls the services make are stubbed, and any other query fails straight
+// away rather than waiting for a connection.
+
+mongoose.set('bufferCommands', false);
+
+export const CUSTOMER_ID = new mongoose.Types.ObjectId();
+
+// Stub the model calls. Saves validate the order and otherwise succeed;
+// stock and coupon updates always match. Returns the updates made, so tests
+// can check what was restocked or given back.
+export const stubDatabase = () => {
+  const stockUpdates = [];
+  const couponUpdates = [];
+
+  mock.method(Order.prototype, 'save', async function () {
+    await this.validate();
+    return this;
+  });
+  mock.method(Product, 'findById', async (id) => ({ _id: id, name: 'Test product', inStock: true, stock: 10, variants: [] }));
+  mock.method(Product, 'updateOne', async (filter, update) => {
+    stockUpdates.push({ product: filter._id, update });
+    return { modifiedCount: 1 };
+  });
+  mock.method(Coupon, 'updateOne', async (filter, update) => {
+    couponUpdates.push(update.$inc.usedCount);
+    return { modifiedCount: 1 };
+  });
+  mock.method(CouponRedemption, 'updateOne', async () => ({ modifiedCount: 1 }));
+  // Notifications look up their recipients' preferences
+  mock.method(User, 'find', () => ({ select: async () => [] }));
+
+  return { stockUpdates, couponUpdates };
+};
+
+// A fresh fake provider, used for every order placed in the test
+export const useFakeProvider = () => {
+  const provider = createFakeProvider();
+  setPaymentProvider('fake', provider);
+  return provider;
+};
+
+let orderCount = 0;
+
+// A new order waiting for payment, with its stock reserved. `items` are
+// { name, price, quantity }; the total is their sum less `discount` plus
+// `shipping`.
+export const pendingOrder = ({ items, discount = 0, shipping = 0, coupon } = {}) => {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const total = subtotal - discount + shipping;
+  orderCount += 1;
+
+  return new Order({
+    user: CUSTOMER_ID,
+    orderNumber: `ORD-TEST-${orderCount}`,
+    items: items.map((item) => ({ productId: new mongoose.Types.ObjectId(), ...item })),
+    totalAmount: total,
+    pricing: { subtotal, discount, shipping, tax: 0, total },
+    coupon,
+    shippingAddress: { fullName: 'Test Customer', address: '1 Test Street', city: 'Pune', zipCode: '411001' },
+    paymentMethod: 'razorpay',
+    paymentProvider: 'fake',
+    reservation: { status: 'reserved', items: [] },
+    ...orderPlaced(SYSTEM_ACTOR),
+  });
+};
+
+// Start the order's payment with the provider and have it go through.
+// Returns the captured payment's id.
+export const capturePayment = async (provider, order) => {
+  const { intentId } = await provider.createIntent({ order, method: 'card' });
+  order.paymentIntentId = intentId;
+  return provider.simulate(intentId, { outcome: 'success' }).confirmation.paymentId;
+};
+
+// An order paid in full and being prepared for dispatch
+export const paidOrder = async (provider, options) => {
+  const order = pendingOrder(options);
+  order.paymentId = await capturePayment(provider, order);
+  order.paymentStatus = 'completed';
+  order.reservation.status = 'committed';
+  transitionOrder(order, 'processing', { actor: SYSTEM_ACTOR, reason: 'Payment received' });
+  return order;
+};
+
+// Ship and deliver a paid order, delivered `daysAgo` days ago
+export const deliver = (order, daysAgo = 0) => {
+  transitionOrder(order, 'shipped', { actor: SYSTEM_ACTOR });
+  transitionOrder(order, 'delivered', { actor: SYSTEM_ACTOR });
+  order.statusHistory[order.statusHistory.length - 1].at = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+};
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { SYSTEM_ACTOR, transitionOrder } from '../services/orderLifecycle.js';
+import { recordFailure, recordPayment } from '../services/orderPayments.js';
+import { capturePayment, pendingOrder, stubDatabase, useFakeProvider } from './helpers.js';
+
+const ORDER = {
+  items: [{ name: 'Smartwatch', price: 250, quantity: 2 }],
+  shipping: 40,
+  coupon: { code: 'WELCOME', type: 'fixed', discount: 0 },
+};
+
+describe('payment outcomes', () => {
+  let db;
+  let provider;
+
+  beforeEach(() => {
+    db = stubDatabase();
+    provider = useFakeProvider();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('move a paid order on to fulfilment and sell its reserved stock', async () => {
+    const order = pendingOrder(ORDER);
+    const paymentId = await capturePayment(provider, order);
+
+    assert.equal(await recordPayment(order, paymentId, 'Payment received'), true);
+
+    assert.equal(order.paymentStatus, 'completed');
+    assert.equal(order.paymentId, paymentId);
+    assert.equal(order.status, 'processing');
+    assert.equal(order.reservation.status, 'committed');
+    // Reported again, e.g. by the webhook after the client confirmation
+    assert.equal(await recordPayment(order, paymentId, 'Payment received'), false);
+  });
+
+  it('give back the stock and coupon use when a payment fails', async () => {
+    const order = pendingOrder(ORDER);
+
+    assert.equal(await recordFailure(order), true);
+
+    assert.equal(order.paymentStatus, 'failed');
+    assert.equal(order.status, 'pending');
+    assert.equal(order.reservation.status, 'released');
+    assert.deepEqual(db.couponUpdates, [-1]);
+  });
+
+  it('take the coupon use back when a failed payment is captured after all', async () => {
+    const order = pendingOrder(ORDER);
+    const paymentId = await capturePayment(provider, order);
+    await recordFailure(order);
+
+    assert.equal(await recordPayment(order, paymentId, 'Payment received'), true);
+
+    assert.equal(order.paymentStatus, 'completed');
+    assert.equal(order.status, 'processing');
+    assert.deepEqual(db.couponUpdates, [-1, 1]);
+  });
+
+  it('ignore a failure reported after the payment went through', async () => {
+    const order = pendingOrder(ORDER);
+    await recordPayment(order, await capturePayment(provider, order), 'Payment received');
+
+    assert.equal(await recordFailure(order), false);
+
+    assert.equal(order.paymentStatus, 'completed');
+    assert.deepEqual(db.couponUpdates, []);
+  });
+
+  it('refund a payment captured after the order was cancelled', async () => {
+    const order = pendingOrder(ORDER);
+    const paymentId = await capturePayment(provider, order);
+    transitionOrder(order, 'cancelled', { actor: SYSTEM_ACTOR, reason: 'Cancelled' });
+
+    assert.equal(await recordPayment(order, paymentId, 'Payment received'), true);
+
+    assert.equal(order.status, 'cancelled');
+    assert.equal(order.paymentStatus, 'refunded');
+    assert.equal(order.refundedAmount, 540);
+    assert.equal((await provider.fetchPayment(paymentId)).status, 'refunded');
+  });
+});
@@ -0,0 +1,218 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import mongoose from 'mongoose';
+import Order from '../models/Order.js';
+import { PaymentProviderError } from '../services/payments/index.js';
+import { SYSTEM_ACTOR } from '../services/orderLifecycle.js';
+import {
+  RETURN_WINDOW_DAYS,
+  RefundError,
+  cancelOrderItems,
+  openQuantity,
+  requestReturn,
+  resolveReturn,
+} from '../services/refunds.js';
+import { deliver, paidOrder, pendingOrder, stubDatabase, useFakeProvider } from './helpers.js';
+
+const ITEMS = [
+  { name: 'Headphones', price: 100, quantity: 2 },
+  { name: 'Keyboard', price: 300, quantity: 1 },
+];
+
+// 500 of items, 50 off with a coupon and 40 shipping: 490 paid, 450 of it
+// for the items
+const ORDER = { items: ITEMS, discount: 50, shipping: 40, coupon: { code: 'SAVE50', type: 'fixed', discount: 50 } };
+
+const cancel = (order, items) =>
+  cancelOrderItems(order, { items, reasonCode: 'changed_mind', actor: SYSTEM_ACTOR });
+
+const requestReturnOf = (order, items) =>
+  requestReturn(order, { items, reasonCode: 'damaged', actor: SYSTEM_ACTOR });
+
+describe('cancellations', () => {
+  let db;
+  let provider;
+
+  beforeEach(() => {
+    db = stubDatabase();
+    provider = useFakeProvider();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("refunds the units' share of what was paid for the items", async () => {
+    const order = await paidOrder(provider, ORDER);
+    const [headphones, keyboard] = order.items;
+
+    const { refund, amount } = await cancel(order, [{ itemId: headphones._id, quantity: 1 }]);
+
+    // 100 of the 500 in items, so a fifth of the 450 paid for them
+    assert.equal(amount, 90);
+    assert.equal(refund.status, 'completed');
+    assert.match(refund.gatewayRefundId, /^rfnd_fake_/);
+    assert.equal(order.refundedAmount, 90);
+    assert.equal(order.paymentStatus, 'partially_refunded');
+    assert.equal(order.status, 'processing');
+    assert.equal(headphones.cancelledQuantity, 1);
+    assert.equal(openQuantity(order, headphones), 1);
+    assert.equal(openQuantity(order, keyboard), 1);
+    assert.deepEqual(db.stockUpdates.map(({ update }) => update), [{ $inc: { stock: 1 } }]);
+    assert.deepEqual(db.couponUpdates, []);
+  });
+
+  it('refunds the rest of the balance, shipping included, when the last units go', async () => {
+    const order = await paidOrder(provider, ORDER);
+    await cancel(order, [{ itemId: order.items[0]._id, quantity: 1 }]);
+
+    const { amount } = await cancel(order);
+
+    assert.equal(amount, 400);
+    assert.equal(order.refundedAmount, 490);
+    assert.equal(order.paymentStatus, 'refunded');
+    assert.equal(order.status, 'cancelled');
+    assert.deepEqual(
+      order.items.map((item) => openQuantity(order, item)),
+      [0, 0]
+    );
+    // The coupon use is given back once the whole order is cancelled
+    assert.deepEqual(db.couponUpdates, [-1]);
+  });
+
+  it('leaves the order as it was when the provider refuses the refund', async () => {
+    const order = await paidOrder(provider, ORDER);
+    order.paymentId = 'pay_unknown';
+
+    await assert.rejects(cancel(order, [{ itemId: order.items[1]._id, quantity: 1 }]), PaymentProviderError);
+
+    assert.equal(order.refunds.length, 0);
+    assert.equal(order.refundedAmount, 0);
+    assert.equal(order.paymentStatus, 'completed');
+    assert.equal(order.items[1].cancelledQuantity, 0);
+    assert.equal(openQuantity(order, order.items[1]), 1);
+    assert.deepEqual(db.stockUpdates, []);
+  });
+
+  it("doesn't refund an order changed since it was loaded", async () => {
+    const order = await paidOrder(provider, ORDER);
+    const refund = mock.method(provider, 'refund');
+    mock.method(Order.prototype, 'save', async function () {
+      throw new mongoose.Error.VersionError(this, this.__v, []);
+    });
+
+    await assert.rejects(cancel(order), RefundError);
+    assert.equal(refund.mock.callCount(), 0);
+  });
+
+  it("won't start a second refund while one is with the provider", async () => {
+    const order = await paidOrder(provider, ORDER);
+    order.refunds.push({
+      kind: 'cancellation',
+      status: 'processing',
+      reasonCode: 'changed_mind',
+      items: [{ itemId: order.items[0]._id, name: 'Headphones', quantity: 1 }],
+    });
+
+    await assert.rejects(cancel(order, [{ itemId: order.items[1]._id, quantity: 1 }]), /in progress/);
+    assert.equal(openQuantity(order, order.items[0]), 1);
+  });
+
+  it('only cancels unpaid orders in full, refunding nothing', async () => {
+    const order = pendingOrder(ORDER);
+
+    await assert.rejects(cancel(order, [{ itemId: order.items[0]._id, quantity: 1 }]), /in full/);
+
+    const { amount } = await cancel(order);
+    assert.equal(amount, 0);
+    assert.equal(order.status, 'cancelled');
+    assert.equal(order.paymentStatus, 'pending');
+    assert.equal(order.reservation.status, 'released');
+  });
+
+  it("can't take back more units than are left", async () => {
+    const order = await paidOrder(provider, ORDER);
+    await cancel(order, [{ itemId: order.items[0]._id, quantity: 1 }]);
+
+    await assert.rejects(cancel(order, [{ itemId: order.items[0]._id, quantity: 2 }]), /Only 1 of Headphones/);
+  });
+});
+
+describe('returns', () => {
+  let provider;
+
+  beforeEach(() => {
+    stubDatabase();
+    provider = useFakeProvider();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it(`can be requested up to ${RETURN_WINDOW_DAYS} days after delivery`, async () => {
+    const recent = await paidOrder(provider, ORDER);
+    deliver(recent, RETURN_WINDOW_DAYS - 1);
+    const late = await paidOrder(provider, ORDER);
+    deliver(late, RETURN_WINDOW_DAYS + 1);
+
+    const refund = await requestReturnOf(recent, [{ itemId: recent.items[0]._id, quantity: 2 }]);
+
+    assert.equal(refund.status, 'requested');
+    // Units waiting on a return can't be selected again
+    assert.equal(openQuantity(recent, recent.items[0]), 0);
+    await assert.rejects(requestReturnOf(late), new RegExp(`${RETURN_WINDOW_DAYS} days after delivery`));
+  });
+
+  it('are only taken for delivered orders', async () => {
+    const order = await paidOrder(provider, ORDER);
+
+    await assert.rejects(requestReturnOf(order), /Only delivered orders/);
+  });
+
+  it('refund and close the order once everything is back', async () => {
+    const order = await paidOrder(provider, ORDER);
+    deliver(order);
+
+    const first = await requestReturnOf(order, [{ itemId: order.items[1]._id, quantity: 1 }]);
+    assert.equal(await resolveReturn(order, first, { approve: true }), 270);
+    assert.equal(order.status, 'delivered');
+    assert.equal(order.paymentStatus, 'partially_refunded');
+
+    const rest = await requestReturnOf(order);
+    assert.equal(await resolveReturn(order, rest, { approve: true }), 220);
+    assert.equal(order.status, 'returned');
+    assert.equal(order.paymentStatus, 'refunded');
+    assert.equal(order.refundedAmount, 490);
+  });
+
+  it('free their units again when rejected', async () => {
+    const order = await paidOrder(provider, ORDER);
+    deliver(order);
+    const refund = await requestReturnOf(order);
+
+    assert.equal(await resolveReturn(order, refund, { approve: false, note: 'Opened and used' }), 0);
+
+    assert.equal(refund.status, 'rejected');
+    assert.equal(order.refundedAmount, 0);
+    assert.deepEqual(
+      order.items.map((item) => openQuantity(order, item)),
+      [2, 1]
+    );
+    await assert.rejects(resolveReturn(order, refund, { approve: true }), /already been resolved/);
+  });
+
+  it('go back to waiting when the provider refuses the refund', async () => {
+    const order = await paidOrder(provider, ORDER);
+    deliver(order);
+    const refund = await requestReturnOf(order);
+    order.paymentId = 'pay_unknown';
+
+    await assert.rejects(resolveReturn(order, refund, { approve: true }), PaymentProviderError);
+
+    assert.equal(refund.status, 'requested');
+    assert.equal(refund.amount, 0);
+    assert.equal(order.status, 'delivered');
+    assert.equal(order.refundedAmount, 0);
+  });
+});
@@ -0,0 +1,29 @@
+import { body } from 'express-validator';
+
+// Indian postal addresses: a 6-digit PIN code that doesn't start with 0, and
+// a 10-digit mobile number for the courier.
+
+export const PIN_CODE_PATTERN = /^[1-9]\d{5}$/;
+
+// Drop spaces, dashes and a +91/0 prefix, leaving the 10-digit number
+export const normalizePhone = (value) =>
+  String(value ?? '')
+    .replace(/[\s-]/g, '')
+    .replace(/^(?:\+?91|0)(?=\d{10}$)/, '');
+
+// Rules for an address in the request body under `prefix` (e.g.
+// 'shippingAddress.'). The phone number is stored normalized.
+export const addressRules = (prefix = '') => [
+  body(`${prefix}fullName`).isString().trim().notEmpty().withMessage('Full name is required')
+    .isLength({ max: 100 }).withMessage('Full name is too long'),
+  body(`${prefix}address`).isString().trim().notEmpty().withMessage('Street address is required')
+    .isLength({ max: 200 }).withMessage('Street address is too long'),
+  body(`${prefix}city`).isString().trim().notEmpty().withMessage('City is required')
+    .isLength({ max: 60 }).withMessage('City is too long'),
+  body(`${prefix}state`).isString().trim().notEmpty().withMessage('State is required')
+    .isLength({ max: 60 }).withMessage('State is too long'),
+  body(`${prefix}zipCode`).isString().trim().matches(PIN_CODE_PATTERN).withMessage('PIN code must be 6 digits'),
+  body(`${prefix}country`).optional().isString().trim().isLength({ max: 60 }).withMessage('Country is too long'),
+  body(`${prefix}phone`).customSanitizer(normalizePhone)
+    .matches(/^[6-9]\d{9}$/).withMessage('Enter a valid 10-digit mobile number'),
+];
@@ -0,0 +1,38 @@
+// Variant selections are stored as { option: value } maps (e.g.
+// { colors: 'neon-blue', sizes: '42mm' }). Two selections are the same line
+// item when their normalized keys match, regardless of key order or blanks.
+
+export const normalizeVariant = (variant) => {
+  if (!variant) return {};
+  const entries = variant instanceof Map ? [...variant.entries()] : Object.entries(variant);
+
+  return Object.fromEntries(
+    entries
+      .filter(([key, value]) => typeof value === 'string' && key.trim() && value.trim())
+      .map(([key, value]) => [key.trim(), value.trim()])
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+};
+
+export const variantKey = (variant) =>
+  Object.entries(normalizeVariant(variant))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('|');
+
+export const isSameLine = (item, { productId, bundleId, variant }) =>
+  ((productId && item.productId?.toString() === productId) ||
+    (bundleId && item.bundleId?.toString() === bundleId)) &&
+  variantKey(item.variant) === variantKey(variant);
+
+// Price and stock for a selection; combinations without an override fall
+// back to the product's base price and stock
+export const resolveVariant = (product, variant) => {
+  const key = variantKey(variant);
+  const match = key ? product.variants?.find((v) => variantKey(v.attributes) === key) : undefined;
+
+  return {
+    sku: match?.sku,
+    price: match?.price ?? product.price,
+    stock: match?.stock ?? product.stock,
+  };
+};
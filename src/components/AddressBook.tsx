@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MapPin, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import { userAPI } from '../services/api';
+import { addressProblem } from '../services/addresses';
+import type { SaveAddressRequest, SavedAddress } from '../services/types';
+import { AddressFields } from './AddressFields';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { toast } from 'sonner@2.0.3';
+
+const EMPTY_ADDRESS: SaveAddressRequest = {
+  label: 'Home',
+  fullName: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'India',
+};
+
+const toRequest = ({ _id, isDefault, ...address }: SavedAddress): SaveAddressRequest => address;
+
+// Saved shipping addresses for the profile settings tab. Checkout offers the
+// same list, starting with the default.
+export const AddressBook: React.FC = () => {
+  const [addresses, setAddresses] = useState<SavedAddress[] | null>(null);
+  // The address being added (no id) or edited
+  const [editing, setEditing] = useState<{ id?: string; draft: SaveAddressRequest } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    userAPI.getAddresses()
+      .then(response => setAddresses(response.addresses))
+      .catch(error => {
+        console.error('Failed to load addresses:', error);
+        setAddresses([]);
+      });
+  }, []);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const problem = addressProblem(editing.draft);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = editing.id
+        ? await userAPI.updateAddress(editing.id, editing.draft)
+        : await userAPI.addAddress(editing.draft);
+      setAddresses(response.addresses);
+      setEditing(null);
+      toast.success(editing.id ? 'Address updated' : 'Address saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save address');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (address: SavedAddress) => {
+    try {
+      const response = await userAPI.updateAddress(address._id, { ...toRequest(address), isDefault: true });
+      setAddresses(response.addresses);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update address');
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!window.confirm(`Delete the "${address.label}" address?`)) return;
+    try {
+      const response = await userAPI.deleteAddress(address._id);
+      setAddresses(response.addresses);
+      toast.success('Address deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete address');
+    }
+  };
+
+  if (!addresses) {
+    return <p className="text-sm text-muted-foreground">Loading addresses...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Addresses</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Saved addresses to pick from at checkout
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setEditing({ draft: { ...EMPTY_ADDRESS, isDefault: addresses.length === 0 } })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {addresses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved addresses yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {addresses.map(address => (
+            <div
+              key={address._id}
+              className="flex items-start justify-between gap-4 p-3 rounded-lg border border-white/10"
+            >
+              <div className="flex gap-3 text-sm">
+                <MapPin className="w-4 h-4 mt-0.5 text-cyan-400 shrink-0" />
+                <div>
+                  <p className="flex items-center gap-2">
+                    {address.label}
+                    {address.isDefault && (
+                      <Badge variant="outline" className="border-cyan-500/50 text-cyan-400">
+                        Default
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {address.fullName} · {address.phone}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {address.address}, {address.city}, {address.state} {address.zipCode}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                {!address.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Make default"
+                    onClick={() => handleMakeDefault(address)}
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Edit"
+                  onClick={() =>
+                    setEditing({ id: address._id, draft: { ...toRequest(address), isDefault: address.isDefault } })
+                  }
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive"
+                  title="Delete"
+                  onClick={() => handleDelete(address)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={open => !open && !isSaving && setEditing(null)}>
+        <DialogContent className="glass-panel border-white/20 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Edit address' : 'New address'}</DialogTitle>
+            <DialogDescription>
+              Entering a PIN code fills in the city and state where we know them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="address-label">Label</Label>
+                <Input
+                  id="address-label"
+                  placeholder="Home, Work..."
+                  maxLength={30}
+                  value={editing.draft.label}
+                  onChange={e => setEditing({ ...editing, draft: { ...editing.draft, label: e.target.value } })}
+                />
+              </div>
+
+              <AddressFields
+                idPrefix="address-book-"
+                value={editing.draft}
+                onChange={value => setEditing({ ...editing, draft: { ...editing.draft, ...value } })}
+              />
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="address-default"
+                  checked={!!editing.draft.isDefault}
+                  // The default moves by choosing another address, not by unticking this one
+                  disabled={addresses.some(address => address._id === editing.id && address.isDefault)}
+                  onCheckedChange={checked =>
+                    setEditing({ ...editing, draft: { ...editing.draft, isDefault: checked === true } })
+                  }
+                />
+                <Label htmlFor="address-default">Use as my default address</Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
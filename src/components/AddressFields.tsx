@@ -0,0 +1,131 @@
+import React from 'react';
+import { isValidPhone, isValidPinCode, lookupPinCode, normalizePhone } from '../services/addresses';
+import type { ShippingAddress } from '../services/types';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+interface AddressFieldsProps {
+  value: ShippingAddress;
+  onChange: (value: ShippingAddress) => void;
+  // Keeps input ids unique when two address forms are on one page
+  idPrefix?: string;
+}
+
+// Name, phone and postal address inputs. Typing a PIN code the lookup table
+// knows fills in the city and state.
+export const AddressFields: React.FC<AddressFieldsProps> = ({ value, onChange, idPrefix = '' }) => {
+  const id = (field: keyof ShippingAddress) => `${idPrefix}${field}`;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...value, [e.target.name]: e.target.value });
+  };
+
+  const handlePinCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const zipCode = e.target.value.replace(/\D/g, '').slice(0, 6);
+    const place = lookupPinCode(zipCode);
+    onChange({
+      ...value,
+      zipCode,
+      ...(place && { state: place.state }),
+      ...(place?.city && { city: place.city }),
+    });
+  };
+
+  const pinCodeError =
+    value.zipCode.length === 6 && !isValidPinCode(value.zipCode) ? 'PIN codes never start with 0' : null;
+  const phoneError =
+    value.phone && normalizePhone(value.phone).length >= 10 && !isValidPhone(value.phone)
+      ? 'Enter a 10-digit mobile number'
+      : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={id('fullName')}>Full Name</Label>
+          <Input
+            id={id('fullName')}
+            name="fullName"
+            value={value.fullName}
+            onChange={handleChange}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor={id('phone')}>Mobile Number</Label>
+          <Input
+            id={id('phone')}
+            name="phone"
+            type="tel"
+            inputMode="tel"
+            placeholder="98765 43210"
+            value={value.phone ?? ''}
+            onChange={handleChange}
+            required
+          />
+          {phoneError && <p className="text-xs text-red-400 mt-1">{phoneError}</p>}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor={id('address')}>Street Address</Label>
+        <Input
+          id={id('address')}
+          name="address"
+          value={value.address}
+          onChange={handleChange}
+          required
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={id('zipCode')}>PIN Code</Label>
+          <Input
+            id={id('zipCode')}
+            name="zipCode"
+            inputMode="numeric"
+            placeholder="6 digits"
+            value={value.zipCode}
+            onChange={handlePinCodeChange}
+            required
+          />
+          {pinCodeError && <p className="text-xs text-red-400 mt-1">{pinCodeError}</p>}
+        </div>
+        <div>
+          <Label htmlFor={id('city')}>City</Label>
+          <Input
+            id={id('city')}
+            name="city"
+            value={value.city}
+            onChange={handleChange}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={id('state')}>State</Label>
+          <Input
+            id={id('state')}
+            name="state"
+            value={value.state}
+            onChange={handleChange}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor={id('country')}>Country</Label>
+          <Input
+            id={id('country')}
+            name="country"
+            value={value.country}
+            onChange={handleChange}
+            required
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
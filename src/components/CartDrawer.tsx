@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { X, Plus, Minus, ShoppingBag, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { X, Plus, Minus, ShoppingBag, Trash2, ChevronDown, Package } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import { paths } from '../routes';
+import { lineKey } from '../services/cart';
+import { formatVariant } from '../services/variants';
+import { fitsStock, stockLabel } from '../services/stock';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
@@ -13,7 +18,9 @@ interface CartDrawerProps {
 }
 
 export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
-  const { cart, cartTotal, cartCount, getProduct, updateCartQuantity, removeFromCart, clearCart } = useApp();
+  const { cart, cartTotal, cartCount, getProduct, getBundle, getCartLinePrice, getCartLineStock, updateCartQuantity, removeFromCart, clearCart } = useApp();
+  const navigate = useNavigate();
+  const [expandedBundle, setExpandedBundle] = useState<string | null>(null);
 
   const formatPrice = (price: number) => `$${price.toLocaleString()}`;
 
@@ -80,12 +87,22 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                   className="space-y-4"
                 >
                   {cart.map((item, index) => {
-                    const product = getProduct(item.productId);
-                    if (!product) return null;
+                    const product = item.productId ? getProduct(item.productId) : undefined;
+                    const bundle = item.bundleId ? getBundle(item.bundleId) : undefined;
+                    if (!product && !bundle) return null;
+                    const key = lineKey(item);
+                    const variantLabel = formatVariant(item.variant);
+                    const bundleProducts = bundle
+                      ? bundle.products
+                          .map(productId => getProduct(productId))
+                          .filter((p): p is NonNullable<typeof p> => Boolean(p))
+                      : [];
+                    const isExpanded = expandedBundle === key;
+                    const stock = getCartLineStock(item);
 
                     return (
                       <motion.div
-                        key={item.productId}
+                        key={key}
                         initial={{ opacity: 0, x: 20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.1 }}
@@ -95,19 +112,69 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                           {/* Product Image */}
                           <div className="relative w-16 h-16 rounded-lg overflow-hidden bg-white/5">
                             <ImageWithFallback
-                              src={product.images[0]}
-                              alt={product.title}
+                              src={bundle ? bundle.image : product!.images[0]}
+                              alt={bundle ? bundle.title : product!.title}
                               className="w-full h-full object-cover"
                             />
                           </div>
 
                           {/* Product Details */}
                           <div className="flex-1">
-                            <h4 className="text-sm">{product.title}</h4>
+                            <h4 className="text-sm">{bundle ? bundle.title : product!.title}</h4>
+                            {variantLabel && (
+                              <p className="text-xs text-cyan-400 capitalize">{variantLabel}</p>
+                            )}
                             <p className="text-xs text-muted-foreground mb-2">
-                              {formatPrice(product.price)}
+                              {formatPrice(getCartLinePrice(item))}
+                              {bundle && bundle.savings > 0 && (
+                                <span className="ml-2 line-through">{formatPrice(bundle.originalPrice)}</span>
+                              )}
                             </p>
 
+                            {stockLabel(stock) && (
+                              <p className="text-xs text-orange-400 mb-2">{stockLabel(stock)}</p>
+                            )}
+
+                            {/* Bundle Contents */}
+                            {bundle && (
+                              <div className="mb-2">
+                                <button
+                                  type="button"
+                                  className="flex items-center text-xs text-purple-400 hover:text-purple-300"
+                                  onClick={() => setExpandedBundle(isExpanded ? null : key)}
+                                >
+                                  <Package className="h-3 w-3 mr-1" />
+                                  {bundleProducts.length} products in bundle
+                                  <ChevronDown
+                                    className={`h-3 w-3 ml-1 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                                  />
+                                </button>
+                                <AnimatePresence initial={false}>
+                                  {isExpanded && (
+                                    <motion.ul
+                                      initial={{ height: 0, opacity: 0 }}
+                                      animate={{ height: 'auto', opacity: 1 }}
+                                      exit={{ height: 0, opacity: 0 }}
+                                      className="overflow-hidden mt-2 space-y-1"
+                                    >
+                                      {bundleProducts.map(bundleProduct => (
+                                        <li key={bundleProduct.id} className="flex items-center space-x-2">
+                                          <div className="w-6 h-6 rounded overflow-hidden bg-white/5">
+                                            <ImageWithFallback
+                                              src={bundleProduct.images[0]}
+                                              alt={bundleProduct.title}
+                                              className="w-full h-full object-cover"
+                                            />
+                                          </div>
+                                          <span className="text-xs text-muted-foreground">{bundleProduct.title}</span>
+                                        </li>
+                                      ))}
+                                    </motion.ul>
+                                  )}
+                                </AnimatePresence>
+                              </div>
+                            )}
+
                             {/* Quantity Controls */}
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-2">
@@ -115,7 +182,7 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                                   variant="ghost"
                                   size="sm"
                                   className="h-8 w-8 p-0 hover:bg-white/10"
-                                  onClick={() => updateCartQuantity(item.productId, item.quantity - 1)}
+                                  onClick={() => updateCartQuantity(key, item.quantity - 1)}
                                 >
                                   <Minus className="h-3 w-3" />
                                 </Button>
@@ -126,7 +193,8 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                                   variant="ghost"
                                   size="sm"
                                   className="h-8 w-8 p-0 hover:bg-white/10"
-                                  onClick={() => updateCartQuantity(item.productId, item.quantity + 1)}
+                                  onClick={() => updateCartQuantity(key, item.quantity + 1)}
+                                  disabled={!fitsStock(item.quantity + 1, stock)}
                                 >
                                   <Plus className="h-3 w-3" />
                                 </Button>
@@ -136,7 +204,7 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                                 variant="ghost"
                                 size="sm"
                                 className="h-8 w-8 p-0 hover:bg-red-500/20 hover:text-red-400"
-                                onClick={() => removeFromCart(item.productId)}
+                                onClick={() => removeFromCart(key)}
                               >
                                 <Trash2 className="h-3 w-3" />
                               </Button>
@@ -191,7 +259,7 @@ export const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
                     className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 neon-glow-cyan"
                     onClick={() => {
                       // Navigate to checkout
-                      window.location.hash = 'checkout';
+                      navigate(paths.checkout());
                       onClose();
                     }}
                   >
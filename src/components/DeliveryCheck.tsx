@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Truck } from 'lucide-react';
+import { shippingAPI } from '../services/api';
+import { isValidPinCode } from '../services/addresses';
+import { formatDeliveryWindow, loadDeliveryPinCode, saveDeliveryPinCode } from '../services/shipping';
+import type { CartLineInput, ShippingEstimateResponse } from '../services/types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+interface DeliveryCheckProps {
+  // The line as it would go in the cart; rates and free shipping depend on it
+  item: CartLineInput;
+}
+
+// "Check delivery to PIN" for the product page: the shipping methods, rates
+// and delivery dates for one unit of the product. Checks again for the last
+// PIN code used whenever the selection changes.
+export const DeliveryCheck: React.FC<DeliveryCheckProps> = ({ item }) => {
+  const [pinCode, setPinCode] = useState(loadDeliveryPinCode);
+  // A new object per check, so checking the same PIN code again re-runs it
+  const [check, setCheck] = useState(() => (isValidPinCode(pinCode) ? { pinCode } : null));
+  const [result, setResult] = useState<ShippingEstimateResponse | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const itemKey = JSON.stringify(item);
+
+  useEffect(() => {
+    if (!check) return;
+
+    let cancelled = false;
+    setResult(null);
+    setCheckError(null);
+    shippingAPI
+      .estimate({ items: [item], pinCode: check.pinCode })
+      .then(response => {
+        if (!cancelled) setResult(response);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Delivery check error:', error);
+        setCheckError(error instanceof Error ? error.message : 'Could not check delivery');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [check, itemKey]);
+
+  const handleCheck = () => {
+    if (!isValidPinCode(pinCode)) {
+      setResult(null);
+      setCheckError('Enter a valid 6-digit PIN code');
+      return;
+    }
+    saveDeliveryPinCode(pinCode);
+    setCheck({ pinCode });
+  };
+
+  const isChecking = !!check && !result && !checkError;
+
+  return (
+    <div className="space-y-3">
+      <label htmlFor="deliveryPinCode" className="flex items-center gap-2 text-sm">
+        <Truck className="h-4 w-4 text-cyan-400" />
+        Check delivery
+      </label>
+      <div className="flex gap-2 max-w-sm">
+        <Input
+          id="deliveryPinCode"
+          inputMode="numeric"
+          placeholder="Enter PIN code"
+          value={pinCode}
+          onChange={e => setPinCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCheck();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="border-white/20 hover:bg-white/10"
+          onClick={handleCheck}
+          disabled={isChecking}
+        >
+          {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check'}
+        </Button>
+      </div>
+
+      {checkError && <p className="text-sm text-red-400">{checkError}</p>}
+      {result && !result.deliverable && <p className="text-sm text-red-400">{result.message}</p>}
+      {result?.deliverable && (
+        <ul className="space-y-1 text-sm">
+          {result.options.map(option => (
+            <li key={option.method} className="flex justify-between gap-4 max-w-sm">
+              <span>
+                {option.label}:{' '}
+                <span className="text-muted-foreground">{formatDeliveryWindow(option.estimate)}</span>
+              </span>
+              <span className={option.rate === 0 ? 'text-green-400' : ''}>
+                {option.rate === 0 ? 'FREE' : `₹${option.rate}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
 import { motion } from 'motion/react';
-import { Search, ShoppingCart, User, Menu, X, Zap, Moon, Sun, LogIn, UserPlus, LogOut } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ShoppingCart, User, Menu, X, Zap, Moon, Sun, LogIn, UserPlus, LogOut } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
 import { authAPI } from '../services/api';
 import { Button } from './ui/button';
-import { Input } from './ui/input';
+import { SearchBox } from './SearchBox';
+import { NotificationBell } from './NotificationBell';
 import { Badge } from './ui/badge';
 import { toast } from 'sonner@2.0.3';
+import { paths } from '../routes';
+
+const MotionLink = motion.create(Link);
 
 interface NavbarProps {
   onCartOpen: () => void;
@@ -14,39 +19,17 @@ interface NavbarProps {
 }
 
 export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
-  const { searchQuery, setSearchQuery, cartCount, toggleDarkMode, isDarkMode, currentUser } = useApp();
+  const { cartCount, toggleDarkMode, isDarkMode, currentUser } = useApp();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
-  const [showSuggestions, setShowSuggestions] = useState(false);
+  const navigate = useNavigate();
 
   const navLinks = [
-    { name: 'Home', href: '#home' },
-    { name: 'Products', href: '#products' },
-    { name: 'Bundles', href: '#bundles' },
-    { name: 'Discover', href: '#discover' },
-  ];
-
-  const mockSuggestions = [
-    'Neural Interface',
-    'Quantum Watch',
-    'Smart Jacket',
-    'Plasma Drone',
-    'Hologram Projector'
+    { name: 'Home', to: paths.home() },
+    { name: 'Products', to: paths.products() },
+    { name: 'Bundles', to: paths.bundles() },
+    { name: 'Discover', to: paths.discover() },
   ];
 
-  const handleSearchChange = (value: string) => {
-    setSearchQuery(value);
-    if (value.length > 0) {
-      const filtered = mockSuggestions.filter(suggestion =>
-        suggestion.toLowerCase().includes(value.toLowerCase())
-      );
-      setSearchSuggestions(filtered);
-      setShowSuggestions(true);
-    } else {
-      setShowSuggestions(false);
-    }
-  };
-
   const toggleMobileMenu = () => {
     const newState = !isMobileMenuOpen;
     setIsMobileMenuOpen(newState);
@@ -57,8 +40,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
     try {
       await authAPI.logout();
       toast.success('Logged out successfully');
-      window.location.hash = 'home';
-      window.location.reload(); // Reload to clear user state
+      window.location.assign(paths.home()); // Reload to clear user state
     } catch (error) {
       toast.error('Failed to logout');
     }
@@ -74,21 +56,21 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             {/* Logo */}
-            <motion.a
-              href="#home"
+            <MotionLink
+              to={paths.home()}
               whileHover={{ scale: 1.05 }}
               className="flex items-center space-x-2"
             >
               <Zap className="h-8 w-8 neon-text-cyan" />
               <span className="text-xl tracking-tight">ProductLab</span>
-            </motion.a>
+            </MotionLink>
 
             {/* Desktop Navigation */}
             <div className="hidden md:flex items-center space-x-8">
               {navLinks.map((link) => (
-                <motion.a
+                <MotionLink
                   key={link.name}
-                  href={link.href}
+                  to={link.to}
                   className="text-foreground/80 hover:text-foreground transition-colors relative group"
                   whileHover={{ y: -2 }}
                 >
@@ -97,49 +79,16 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                     className="absolute -bottom-1 left-0 w-0 h-0.5 bg-gradient-to-r from-cyan-400 to-purple-400 group-hover:w-full"
                     transition={{ duration: 0.3 }}
                   />
-                </motion.a>
+                </MotionLink>
               ))}
             </div>
 
             {/* Search Bar */}
-            <div className="hidden md:block relative">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search the future..."
-                  value={searchQuery}
-                  onChange={(e) => handleSearchChange(e.target.value)}
-                  className="pl-10 w-64 bg-white/5 border-white/20 focus:border-cyan-400 focus:neon-glow-cyan transition-all"
-                  onFocus={() => searchQuery && setShowSuggestions(true)}
-                  onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
-                />
-              </div>
-              
-              {/* Search Suggestions */}
-              {showSuggestions && searchSuggestions.length > 0 && (
-                <motion.div
-                  initial={{ opacity: 0, y: -10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="absolute top-full left-0 right-0 mt-1 glass-panel rounded-lg border border-white/10 overflow-hidden"
-                >
-                  {searchSuggestions.map((suggestion, index) => (
-                    <motion.div
-                      key={suggestion}
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      transition={{ delay: index * 0.05 }}
-                      className="px-4 py-2 hover:bg-white/10 cursor-pointer transition-colors"
-                      onClick={() => {
-                        setSearchQuery(suggestion);
-                        setShowSuggestions(false);
-                      }}
-                    >
-                      {suggestion}
-                    </motion.div>
-                  ))}
-                </motion.div>
-              )}
-            </div>
+            <SearchBox
+              className="hidden md:block"
+              placeholder="Search the future..."
+              inputClassName="w-64 bg-white/5 border-white/20 focus:border-cyan-400 focus:neon-glow-cyan transition-all"
+            />
 
             {/* Right Actions */}
             <div className="flex items-center space-x-4">
@@ -148,14 +97,14 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                 {currentUser ? (
                   // Show user info and logout when logged in
                   <>
-                    <motion.a
-                      href="#profile"
+                    <MotionLink
+                      to={paths.profile()}
                       className="flex items-center space-x-2 text-sm text-foreground/80 hover:text-foreground transition-colors group"
                       whileHover={{ scale: 1.05 }}
                     >
                       <User className="h-4 w-4" />
                       <span>{currentUser.username}</span>
-                    </motion.a>
+                    </MotionLink>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -169,22 +118,22 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                 ) : (
                   // Show login and signup when not logged in
                   <>
-                    <motion.a
-                      href="#login"
+                    <MotionLink
+                      to={paths.login()}
                       className="flex items-center space-x-1 text-sm text-foreground/80 hover:text-foreground transition-colors group"
                       whileHover={{ scale: 1.05 }}
                     >
                       <LogIn className="h-4 w-4" />
                       <span>Login</span>
-                    </motion.a>
-                    <motion.a
-                      href="#signup"
+                    </MotionLink>
+                    <MotionLink
+                      to={paths.signup()}
                       className="flex items-center space-x-1 text-sm text-foreground/80 hover:text-foreground transition-colors group"
                       whileHover={{ scale: 1.05 }}
                     >
                       <UserPlus className="h-4 w-4" />
                       <span>Sign Up</span>
-                    </motion.a>
+                    </MotionLink>
                   </>
                 )}
               </div>
@@ -212,6 +161,9 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                 </motion.div>
               </Button>
 
+              {/* Notifications (only show when logged in) */}
+              {currentUser && <NotificationBell />}
+
               {/* Cart */}
               <Button
                 variant="ghost"
@@ -239,7 +191,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                   variant="ghost" 
                   size="sm" 
                   className="hidden md:flex"
-                  onClick={() => window.location.hash = 'profile'}
+                  onClick={() => navigate(paths.profile())}
                 >
                   <User className="h-5 w-5" />
                 </Button>
@@ -269,28 +221,23 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
         >
           <div className="p-6 space-y-6">
             {/* Mobile Search */}
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 bg-white/5 border-white/20"
-              />
-            </div>
+            <SearchBox
+              inputClassName="bg-white/5 border-white/20"
+              onNavigate={() => setIsMobileMenuOpen(false)}
+            />
 
             {/* Mobile Navigation Links */}
             <div className="space-y-4">
               {navLinks.map((link) => (
-                <motion.a
+                <MotionLink
                   key={link.name}
-                  href={link.href}
+                  to={link.to}
                   className="block text-lg text-foreground/80 hover:text-foreground transition-colors"
                   whileHover={{ x: 10 }}
                   onClick={() => setIsMobileMenuOpen(false)}
                 >
                   {link.name}
-                </motion.a>
+                </MotionLink>
               ))}
             </div>
 
@@ -302,7 +249,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                     variant="ghost" 
                     className="w-full justify-start"
                     onClick={() => {
-                      window.location.hash = 'profile';
+                      navigate(paths.profile());
                       setIsMobileMenuOpen(false);
                     }}
                   >
@@ -327,7 +274,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                     variant="ghost" 
                     className="w-full justify-start"
                     onClick={() => {
-                      window.location.hash = 'login';
+                      navigate(paths.login());
                       setIsMobileMenuOpen(false);
                     }}
                   >
@@ -338,7 +285,7 @@ export const Navbar: React.FC<NavbarProps> = ({ onCartOpen, onMenuToggle }) => {
                     variant="ghost" 
                     className="w-full justify-start"
                     onClick={() => {
-                      window.location.hash = 'signup';
+                      navigate(paths.signup());
                       setIsMobileMenuOpen(false);
                     }}
                   >
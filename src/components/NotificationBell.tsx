@@ -0,0 +1,122 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Bell,
+  CheckCheck,
+  CreditCard,
+  MessageSquare,
+  Package,
+  PackageCheck,
+  PackageX,
+  RotateCcw,
+  TrendingDown,
+} from 'lucide-react';
+import { useNotifications } from '../hooks/useNotifications';
+import type { ApiNotification, NotificationType } from '../services/types';
+import { paths } from '../routes';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+const TYPE_ICONS: Record<NotificationType, React.ElementType> = {
+  order_status: Package,
+  payment_failed: CreditCard,
+  refund_issued: RotateCcw,
+  return_rejected: PackageX,
+  price_drop: TrendingDown,
+  back_in_stock: PackageCheck,
+  review_reply: MessageSquare,
+};
+
+const timeAgo = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days < 7 ? `${days}d ago` : new Date(date).toLocaleDateString();
+};
+
+export const NotificationBell: React.FC<{ className?: string }> = ({ className }) => {
+  const { notifications, unreadCount, isLoading, refresh, markRead, markAllRead } = useNotifications();
+  const navigate = useNavigate();
+
+  const handleSelect = (notification: ApiNotification) => {
+    markRead(notification);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu onOpenChange={open => open && refresh()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`relative ${className ?? ''}`}
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 bg-purple-500 hover:bg-purple-600 px-1.5">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 glass-panel border-white/10">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllRead} className="text-xs">
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : "You're all caught up"}
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = TYPE_ICONS[notification.type] ?? Bell;
+              return (
+                <DropdownMenuItem
+                  key={notification._id}
+                  onSelect={() => handleSelect(notification)}
+                  className={`items-start gap-3 py-2 ${notification.read ? 'opacity-60' : ''}`}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-cyan-400" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm">{notification.title}</div>
+                    {notification.message && (
+                      <div className="text-xs text-muted-foreground line-clamp-2">{notification.message}</div>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-1">{timeAgo(notification.createdAt)}</div>
+                  </div>
+                  {!notification.read && <span className="mt-1.5 h-2 w-2 rounded-full bg-purple-500 shrink-0" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => navigate(paths.profile('settings'))} className="justify-center text-xs">
+          Notification settings
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
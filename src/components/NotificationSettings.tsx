@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { userAPI } from '../services/api';
+import type { NotificationCategory, UpdateProfileRequest, UserPreferences } from '../services/types';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { toast } from 'sonner@2.0.3';
+
+type NotificationPreferences = Pick<UserPreferences, 'notifications' | 'notificationCategories'>;
+
+const CATEGORIES: { id: NotificationCategory; label: string; description: string }[] = [
+  { id: 'orders', label: 'Orders', description: 'Confirmations and shipping updates' },
+  { id: 'payments', label: 'Payments', description: "When a payment doesn't go through" },
+  { id: 'wishlist', label: 'Wishlist', description: 'Price drops and items back in stock' },
+  { id: 'reviews', label: 'Reviews', description: 'Replies to your reviews' },
+];
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  notifications: true,
+  notificationCategories: { orders: true, payments: true, wishlist: true, reviews: true },
+};
+
+// In-app notification switches for the profile settings tab. Each change is
+// saved straight away and undone if the server rejects it.
+export const NotificationSettings: React.FC = () => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    userAPI.getProfile()
+      .then(response => {
+        const saved = response.user.preferences;
+        setPreferences({
+          notifications: saved?.notifications ?? true,
+          notificationCategories: {
+            ...DEFAULT_PREFERENCES.notificationCategories,
+            ...saved?.notificationCategories,
+          },
+        });
+      })
+      .catch(error => {
+        console.error('Failed to load notification settings:', error);
+        setPreferences(DEFAULT_PREFERENCES);
+      });
+  }, []);
+
+  const save = async (next: NotificationPreferences, changes: UpdateProfileRequest['preferences']) => {
+    const previous = preferences;
+    setPreferences(next);
+    try {
+      await userAPI.updateProfile({ preferences: changes });
+    } catch (error) {
+      setPreferences(previous);
+      toast.error(error instanceof Error ? error.message : 'Could not save notification settings');
+    }
+  };
+
+  if (!preferences) {
+    return <p className="text-sm text-muted-foreground">Loading notification settings...</p>;
+  }
+
+  const setEnabled = (notifications: boolean) =>
+    save({ ...preferences, notifications }, { notifications });
+
+  const setCategory = (category: NotificationCategory, enabled: boolean) =>
+    save(
+      {
+        ...preferences,
+        notificationCategories: { ...preferences.notificationCategories, [category]: enabled },
+      },
+      { notificationCategories: { [category]: enabled } }
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="notifications">Notifications</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Show updates in the notification bell
+          </p>
+        </div>
+        <Switch id="notifications" checked={preferences.notifications} onCheckedChange={setEnabled} />
+      </div>
+
+      <div className={`space-y-3 pl-4 border-l border-white/10 ${preferences.notifications ? '' : 'opacity-50'}`}>
+        {CATEGORIES.map(category => (
+          <div key={category.id} className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`notifications-${category.id}`}>{category.label}</Label>
+              <p className="text-xs text-muted-foreground">{category.description}</p>
+            </div>
+            <Switch
+              id={`notifications-${category.id}`}
+              checked={preferences.notificationCategories[category.id]}
+              disabled={!preferences.notifications}
+              onCheckedChange={enabled => setCategory(category.id, enabled)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
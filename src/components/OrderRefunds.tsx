@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { RotateCcw, XCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { userAPI } from '../services/api';
+import type {
+  ApiOrder,
+  ApiOrderItem,
+  CancellationReason,
+  OrderRefund,
+  ReturnReason,
+} from '../services/types';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+type RefundKind = OrderRefund['kind'];
+
+// Same window the server enforces
+const RETURN_WINDOW_DAYS = 30;
+
+const CANCELLATION_REASONS: Record<CancellationReason, string> = {
+  changed_mind: 'Changed my mind',
+  ordered_by_mistake: 'Ordered by mistake',
+  found_better_price: 'Found a better price',
+  delivery_too_slow: 'Delivery is taking too long',
+  other: 'Something else',
+};
+
+const RETURN_REASONS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: "Doesn't work properly",
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Something else',
+};
+
+const REASONS: Record<RefundKind, Record<string, string>> = {
+  cancellation: CANCELLATION_REASONS,
+  return: RETURN_REASONS,
+};
+
+const REFUND_STATUS_LABELS: Record<OrderRefund['status'], string> = {
+  requested: 'Awaiting approval',
+  processing: 'Refund in progress',
+  completed: 'Completed',
+  rejected: 'Not accepted',
+};
+
+const isPaid = (order: ApiOrder) => ['completed', 'partially_refunded'].includes(order.paymentStatus);
+
+// Units of a line that can still be cancelled or returned
+const openQuantity = (order: ApiOrder, item: ApiOrderItem) => {
+  const awaitingReturn = (order.refunds || [])
+    .filter(refund => refund.status === 'requested' || refund.status === 'processing')
+    .flatMap(refund => refund.items)
+    .filter(line => line.itemId === item._id)
+    .reduce((sum, line) => sum + line.quantity, 0);
+  return item.quantity - (item.cancelledQuantity || 0) - (item.returnedQuantity || 0) - awaitingReturn;
+};
+
+const deliveredAt = (order: ApiOrder) =>
+  [...(order.statusHistory || [])].reverse().find(entry => entry.to === 'delivered')?.at ?? order.updatedAt;
+
+const canCancel = (order: ApiOrder) =>
+  (order.status === 'pending' || order.status === 'processing') &&
+  order.items.some(item => openQuantity(order, item) > 0);
+
+const canReturn = (order: ApiOrder) =>
+  order.status === 'delivered' &&
+  Date.now() - new Date(deliveredAt(order)).getTime() < RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000 &&
+  order.items.some(item => openQuantity(order, item) > 0);
+
+// Pick the units, reason and an optional comment for a cancellation or return
+const RefundDialog: React.FC<{
+  order: ApiOrder;
+  kind: RefundKind;
+  onClose: () => void;
+  onOrderChange: (order: ApiOrder) => void;
+}> = ({ order, kind, onClose, onOrderChange }) => {
+  const openItems = order.items.filter(item => item._id && openQuantity(order, item) > 0);
+  // An unpaid order's pending payment is for the full amount, so it can only
+  // be cancelled whole
+  const wholeOrderOnly = kind === 'cancellation' && !isPaid(order);
+  // Units chosen per line; lines that aren't chosen are left out
+  const [selected, setSelected] = useState<Record<string, number>>(() =>
+    Object.fromEntries(openItems.map(item => [item._id!, openQuantity(order, item)]))
+  );
+  const [reasonCode, setReasonCode] = useState('');
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const chosen = Object.entries(selected).filter(([, quantity]) => quantity > 0);
+  const reasons = REASONS[kind];
+
+  const toggleItem = (item: ApiOrderItem, checked: boolean) => {
+    setSelected(prev => ({ ...prev, [item._id!]: checked ? openQuantity(order, item) : 0 }));
+  };
+
+  const setQuantity = (item: ApiOrderItem, value: string) => {
+    const quantity = Math.min(Math.max(Number(value) || 1, 1), openQuantity(order, item));
+    setSelected(prev => ({ ...prev, [item._id!]: quantity }));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = {
+        items: chosen.map(([itemId, quantity]) => ({ itemId, quantity })),
+        comment: comment.trim(),
+      };
+      const response =
+        kind === 'cancellation'
+          ? await userAPI.cancelOrder(order._id, { ...data, reasonCode: reasonCode as CancellationReason })
+          : await userAPI.requestReturn(order._id, { ...data, reasonCode: reasonCode as ReturnReason });
+      onOrderChange(response.order);
+      toast.success(response.message || (kind === 'cancellation' ? 'Order cancelled' : 'Return requested'));
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-panel border-white/20">
+        <DialogHeader>
+          <DialogTitle>{kind === 'cancellation' ? 'Cancel items' : 'Return items'}</DialogTitle>
+          <DialogDescription>
+            {kind === 'cancellation'
+              ? wholeOrderOnly
+                ? "This order hasn't been paid for yet, so it can only be cancelled as a whole."
+                : "Choose what you'd like to cancel. Anything you've paid for is refunded to your original payment method."
+              : `Choose what you'd like to send back. Once the store approves the return, you'll be refunded to your original payment method.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {openItems.map(item => {
+            const quantity = selected[item._id!] || 0;
+            const open = openQuantity(order, item);
+            return (
+              <div key={item._id} className="flex items-center gap-3">
+                <Checkbox
+                  id={`refund-${item._id}`}
+                  checked={quantity > 0}
+                  disabled={wholeOrderOnly}
+                  onCheckedChange={checked => toggleItem(item, checked === true)}
+                  className="border-white/30"
+                />
+                <Label htmlFor={`refund-${item._id}`} className="flex-1 cursor-pointer">
+                  {item.name}
+                </Label>
+                {open > 1 && quantity > 0 && (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={open}
+                    value={quantity}
+                    disabled={wholeOrderOnly}
+                    onChange={e => setQuantity(item, e.target.value)}
+                    className="w-20 bg-white/5 border-white/20"
+                    aria-label={`Quantity of ${item.name}`}
+                  />
+                )}
+                <span className="text-sm text-muted-foreground w-10 text-right">of {open}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Reason</Label>
+          <Select value={reasonCode} onValueChange={setReasonCode}>
+            <SelectTrigger className="bg-white/5 border-white/20">
+              <SelectValue placeholder="Choose a reason..." />
+            </SelectTrigger>
+            <SelectContent className="glass-panel border-white/20">
+              {Object.entries(reasons).map(([code, label]) => (
+                <SelectItem key={code} value={code}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="refund-comment">Anything else? (optional)</Label>
+          <Textarea
+            id="refund-comment"
+            value={comment}
+            maxLength={500}
+            onChange={e => setComment(e.target.value)}
+            className="bg-white/5 border-white/20"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Keep order
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || chosen.length === 0 || !reasonCode}
+            className={kind === 'cancellation' ? 'bg-red-500/80 hover:bg-red-500' : ''}
+          >
+            {isSubmitting
+              ? 'Submitting...'
+              : kind === 'cancellation'
+                ? 'Cancel selected items'
+                : 'Request return'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Cancel and return actions for an order, and the history of both
+export const OrderRefunds: React.FC<{
+  order: ApiOrder;
+  onOrderChange: (order: ApiOrder) => void;
+}> = ({ order, onOrderChange }) => {
+  const [dialog, setDialog] = useState<RefundKind | null>(null);
+  const refunds = order.refunds || [];
+  const itemNames = new Map(order.items.map(item => [item._id, item.name]));
+
+  if (refunds.length === 0 && !canCancel(order) && !canReturn(order)) return null;
+
+  return (
+    <div className="space-y-4">
+      {refunds.length > 0 && (
+        <ul className="space-y-3">
+          {refunds.map(refund => (
+            <li key={refund._id} className="p-4 rounded-lg bg-white/5 border border-white/10">
+              <div className="flex items-center justify-between gap-4">
+                <p className="flex items-center gap-2">
+                  {refund.kind === 'cancellation' ? (
+                    <XCircle className="h-4 w-4 text-red-400" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 text-cyan-400" />
+                  )}
+                  {refund.kind === 'cancellation' ? 'Cancellation' : 'Return'}
+                  <span className="text-sm text-muted-foreground">
+                    · {REASONS[refund.kind][refund.reasonCode] ?? refund.reasonCode}
+                  </span>
+                </p>
+                <Badge
+                  className={`text-xs ${
+                    refund.status === 'rejected'
+                      ? 'bg-red-500/20 text-red-400 border-red-400/30'
+                      : refund.status === 'requested' || refund.status === 'processing'
+                        ? 'bg-yellow-500/20 text-yellow-400 border-yellow-400/30'
+                        : 'bg-green-500/20 text-green-400 border-green-400/30'
+                  }`}
+                >
+                  {REFUND_STATUS_LABELS[refund.status]}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                {refund.items
+                  .map(line => `${line.quantity} × ${line.name ?? itemNames.get(line.itemId) ?? 'Item'}`)
+                  .join(', ')}
+              </p>
+              {refund.amount > 0 && (
+                <p className="text-sm mt-1">Refunded ${refund.amount.toLocaleString()}</p>
+              )}
+              {refund.resolutionNote && (
+                <p className="text-sm text-muted-foreground mt-1">{refund.resolutionNote}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        {canCancel(order) && (
+          <Button variant="outline" size="sm" onClick={() => setDialog('cancellation')}>
+            Cancel Items
+          </Button>
+        )}
+        {canReturn(order) && (
+          <Button variant="outline" size="sm" onClick={() => setDialog('return')}>
+            Return Items
+          </Button>
+        )}
+      </div>
+
+      {dialog && (
+        <RefundDialog
+          order={order}
+          kind={dialog}
+          onClose={() => setDialog(null)}
+          onOrderChange={onOrderChange}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { CheckCircle, Package, Receipt, RotateCcw, Truck, XCircle } from 'lucide-react';
+import type { ApiOrder, OrderStatus, OrderStatusChange } from '../services/types';
+
+const STEPS: { status: OrderStatus; label: string; icon: React.ElementType }[] = [
+  { status: 'pending', label: 'Order placed', icon: Receipt },
+  { status: 'processing', label: 'Processing', icon: Package },
+  { status: 'shipped', label: 'Shipped', icon: Truck },
+  { status: 'delivered', label: 'Delivered', icon: CheckCircle },
+];
+
+const ACTOR_LABELS: Record<OrderStatusChange['actor']['type'], string> = {
+  customer: 'You',
+  admin: 'Store',
+  system: 'Automatic',
+};
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// History recorded for the order, or a best guess from its current status for
+// orders placed before history was kept
+const historyFor = (order: ApiOrder): OrderStatusChange[] => {
+  if (order.statusHistory && order.statusHistory.length > 0) return order.statusHistory;
+  const reached = STEPS.findIndex(step => step.status === order.status);
+  const entries: OrderStatusChange[] = [
+    { to: 'pending', actor: { type: 'customer' }, reason: '', at: order.createdAt },
+  ];
+  if (order.status === 'cancelled') {
+    entries.push({ from: 'pending', to: 'cancelled', actor: { type: 'system' }, reason: '', at: order.updatedAt });
+  } else if (reached > 0) {
+    entries.push({ from: 'pending', to: order.status, actor: { type: 'system' }, reason: '', at: order.updatedAt });
+  }
+  return entries;
+};
+
+// Orders leave the usual steps when they're cancelled or returned
+const OFF_TRACK: Partial<Record<OrderStatus, { label: string; icon: React.ElementType }>> = {
+  cancelled: { label: 'Cancelled', icon: XCircle },
+  returned: { label: 'Returned', icon: RotateCcw },
+};
+
+// Tracking timeline: every recorded status change, then the steps still to
+// come (none once an order is cancelled or returned)
+export const OrderTimeline: React.FC<{ order: ApiOrder }> = ({ order }) => {
+  const history = historyFor(order);
+  const currentStep = STEPS.findIndex(step => step.status === order.status);
+  const upcoming = OFF_TRACK[order.status] ? [] : STEPS.slice(currentStep + 1);
+
+  return (
+    <ol className="relative border-l border-white/10 ml-3 space-y-6">
+      {history.map((entry, index) => {
+        const step = OFF_TRACK[entry.to] ?? STEPS.find(s => s.status === entry.to);
+        const Icon = step?.icon ?? Package;
+        const isCancelled = entry.to === 'cancelled';
+        return (
+          <li key={`${entry.to}-${entry.at}-${index}`} className="ml-6">
+            <span
+              className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${
+                isCancelled ? 'bg-red-500/20 text-red-400' : 'bg-cyan-500/20 text-cyan-400'
+              }`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <p className={isCancelled ? 'text-red-400' : ''}>{step?.label}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatTime(entry.at)} · {ACTOR_LABELS[entry.actor.type]}
+            </p>
+            {entry.reason && <p className="text-sm text-muted-foreground mt-1">{entry.reason}</p>}
+          </li>
+        );
+      })}
+
+      {upcoming.map(step => (
+        <li key={step.status} className="ml-6 opacity-40">
+          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white/10">
+            <step.icon className="h-3.5 w-3.5" />
+          </span>
+          <p>{step.label}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -2,37 +2,30 @@ import React, { useState } from 'react';
 import { motion } from 'motion/react';
 import { Eye, Heart, ShoppingCart, Star } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import type { Product } from '../contexts/AppContext';
+import { stockLabel, stockState } from '../services/stock';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 
-interface Product {
-  id: string;
-  title: string;
-  description: string;
-  price: number;
-  category: string;
-  tags: string[];
-  images: string[];
-  variants: any;
-  story: any;
-  reviews: any[];
-}
-
 interface ProductCardProps {
   product: Product;
-  onViewDetails?: (productId: string) => void;
+  onViewDetails?: (slug: string) => void;
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails }) => {
-  const { addToCart } = useApp();
+  const { addToCart, isInWishlist, toggleWishlist } = useApp();
   const [isHovered, setIsHovered] = useState(false);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
 
   const formatPrice = (price: number) => `$${price.toLocaleString()}`;
+  const isOutOfStock = stockState(product.stock) === 'out';
+  const availability = stockLabel(product.stock);
+  const isSaved = isInWishlist(product.id);
 
   const handleAddToCart = async (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (isOutOfStock) return;
     setIsAddingToCart(true);
     
     // Add to cart with animation delay
@@ -43,7 +36,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails
   };
 
   const handleViewDetails = () => {
-    onViewDetails?.(product.id);
+    onViewDetails?.(product.slug);
   };
 
   const averageRating = product.reviews.length > 0 
@@ -90,6 +83,19 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails
             </Badge>
           </div>
 
+          {/* Stock Badge */}
+          {availability && (
+            <div className="absolute bottom-3 left-3">
+              <Badge
+                className={`backdrop-blur-sm ${
+                  isOutOfStock ? 'bg-red-500/80 text-white' : 'bg-orange-500/80 text-white'
+                }`}
+              >
+                {availability}
+              </Badge>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <motion.div
             className="absolute top-3 right-3 flex flex-col space-y-2"
@@ -102,12 +108,14 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails
                 variant="ghost"
                 size="sm"
                 className="h-8 w-8 p-0 bg-black/50 hover:bg-black/70 border border-white/20 backdrop-blur-sm"
+                aria-label={isSaved ? 'Remove from wishlist' : 'Save to wishlist'}
+                aria-pressed={isSaved}
                 onClick={(e) => {
                   e.stopPropagation();
-                  // Add to wishlist logic
+                  toggleWishlist(product.id);
                 }}
               >
-                <Heart className="h-4 w-4" />
+                <Heart className={`h-4 w-4 ${isSaved ? 'fill-current text-pink-500' : ''}`} />
               </Button>
             </motion.div>
             
@@ -136,7 +144,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails
             <Button
               className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 text-white border-0"
               onClick={handleAddToCart}
-              disabled={isAddingToCart}
+              disabled={isAddingToCart || isOutOfStock}
             >
               <motion.div
                 className="flex items-center justify-center space-x-2"
@@ -144,7 +152,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({ product, onViewDetails
                 transition={{ duration: 0.3 }}
               >
                 <ShoppingCart className="h-4 w-4" />
-                <span>{isAddingToCart ? 'Adding...' : 'Quick Add'}</span>
+                <span>{isOutOfStock ? 'Out of Stock' : isAddingToCart ? 'Adding...' : 'Quick Add'}</span>
               </motion.div>
             </Button>
           </motion.div>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useApp } from '../contexts/AppContext';
+import { paths } from '../routes';
+
+// Layout route for pages that need a session. Anonymous visitors are sent to
+// the login page with a `returnTo` so they land back here afterwards.
+export const RequireAuth: React.FC = () => {
+  const { currentUser, isAuthChecked } = useApp();
+  const location = useLocation();
+
+  // Wait for the initial session check so a refresh doesn't bounce to login
+  if (!isAuthChecked) {
+    return (
+      <div className="min-h-screen pt-16 flex items-center justify-center">
+        <motion.div
+          className="w-16 h-16 border-4 border-cyan-400 border-t-transparent rounded-full"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    const returnTo = `${location.pathname}${location.search}`;
+    return <Navigate to={paths.login({ returnTo })} replace />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Star, X, ImagePlus } from 'lucide-react';
+import type { ProductReview } from '../contexts/AppContext';
+import type { SaveReviewRequest } from '../services/types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { toast } from 'sonner@2.0.3';
+
+const MAX_PHOTOS = 5;
+
+interface ReviewFormProps {
+  // The review being edited; omit to write a new one
+  initial?: ProductReview;
+  onSubmit: (data: SaveReviewRequest) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const ReviewForm: React.FC<ReviewFormProps> = ({ initial, onSubmit, onCancel }) => {
+  const [rating, setRating] = useState(initial?.rating ?? 0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [title, setTitle] = useState(initial?.title ?? '');
+  const [comment, setComment] = useState(initial?.comment ?? '');
+  const [photos, setPhotos] = useState<string[]>(initial?.photos ?? []);
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const addPhoto = () => {
+    const url = photoUrl.trim();
+    if (!/^https?:\/\/\S+$/.test(url)) {
+      toast.error('Enter an image URL starting with http:// or https://');
+      return;
+    }
+    setPhotos(prev => (prev.includes(url) ? prev : [...prev, url]));
+    setPhotoUrl('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) {
+      toast.error('Please choose a star rating');
+      return;
+    }
+    if (!comment.trim()) {
+      toast.error('Please write a few words about the product');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ rating, title: title.trim(), comment: comment.trim(), photos });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const shownRating = hoverRating || rating;
+
+  return (
+    <form onSubmit={handleSubmit} className="glass-panel rounded-xl p-6 space-y-4">
+      <h3 className="text-xl">{initial ? 'Edit your review' : 'Write a review'}</h3>
+
+      {/* Star Rating */}
+      <div className="flex items-center space-x-1" onMouseLeave={() => setHoverRating(0)}>
+        {[1, 2, 3, 4, 5].map(stars => (
+          <button
+            key={stars}
+            type="button"
+            aria-label={`${stars} star${stars > 1 ? 's' : ''}`}
+            onClick={() => setRating(stars)}
+            onMouseEnter={() => setHoverRating(stars)}
+          >
+            <Star
+              className={`h-7 w-7 transition-colors ${
+                stars <= shownRating ? 'text-yellow-400 fill-current' : 'text-gray-600'
+              }`}
+            />
+          </button>
+        ))}
+      </div>
+
+      <Input
+        placeholder="Title (optional)"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={120}
+        className="bg-white/5 border-white/20"
+      />
+
+      <Textarea
+        placeholder="What did you like or dislike?"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        maxLength={2000}
+        rows={4}
+        className="bg-white/5 border-white/20"
+      />
+
+      {/* Photos */}
+      <div className="space-y-3">
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map(photo => (
+              <div key={photo} className="relative h-16 w-16 rounded-lg overflow-hidden">
+                <img src={photo} alt="" className="h-full w-full object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setPhotos(prev => prev.filter(p => p !== photo))}
+                  className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5"
+                  aria-label="Remove photo"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {photos.length < MAX_PHOTOS && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Photo URL"
+              value={photoUrl}
+              onChange={(e) => setPhotoUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addPhoto();
+                }
+              }}
+              className="bg-white/5 border-white/20"
+            />
+            <Button type="button" variant="outline" onClick={addPhoto} className="border-white/20">
+              <ImagePlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={isSubmitting}
+          className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
+        >
+          {isSubmitting ? 'Saving...' : initial ? 'Save changes' : 'Post review'}
+        </Button>
+      </div>
+    </form>
+  );
+};
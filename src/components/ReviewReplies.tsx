@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import type { ProductReview, ReviewReply } from '../contexts/AppContext';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { toast } from 'sonner@2.0.3';
+
+interface ReviewRepliesProps {
+  review: ProductReview;
+  // Logged-in user's id; replying asks guests to log in first
+  currentUserId?: string;
+  onLoginRequired: () => void;
+  onReply: (comment: string) => Promise<void>;
+  onDeleteReply: (reply: ReviewReply) => Promise<void>;
+}
+
+export const ReviewReplies: React.FC<ReviewRepliesProps> = ({
+  review,
+  currentUserId,
+  onLoginRequired,
+  onReply,
+  onDeleteReply,
+}) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const replies = review.replies ?? [];
+
+  const openReply = () => {
+    if (!currentUserId) {
+      onLoginRequired();
+      return;
+    }
+    setIsReplying(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onReply(comment.trim());
+      setComment('');
+      setIsReplying(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to post reply');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (reply: ReviewReply) => {
+    if (!window.confirm('Delete your reply?')) return;
+    try {
+      await onDeleteReply(reply);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete reply');
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {replies.map(reply => (
+        <div key={reply.id} className="flex items-start space-x-3 pl-4 border-l border-white/10">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={reply.avatar} alt={reply.user} />
+            <AvatarFallback>{reply.user.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 text-sm">
+            <div className="flex items-center gap-2">
+              <span>{reply.user}</span>
+              <span className="text-muted-foreground">
+                {new Date(reply.createdAt).toLocaleDateString()}
+              </span>
+              {reply.userId === currentUserId && (
+                <button
+                  onClick={() => handleDelete(reply)}
+                  className="text-muted-foreground hover:text-red-400"
+                  aria-label="Delete reply"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+            <p className="text-muted-foreground">{reply.comment}</p>
+          </div>
+        </div>
+      ))}
+
+      {isReplying ? (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Textarea
+            placeholder="Write a reply"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={1000}
+            rows={2}
+            autoFocus
+            className="bg-white/5 border-white/20"
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsReplying(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={isSubmitting || !comment.trim()}>
+              {isSubmitting ? 'Posting...' : 'Reply'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={openReply}
+          className="flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Reply
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Tag, LayoutGrid } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { productsAPI } from '../services/api';
+import { suggestFromProducts, toSuggestionOptions } from '../services/search';
+import type { SuggestionOption } from '../services/search';
+import type { SearchSuggestions } from '../services/types';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { Input } from './ui/input';
+import { paths } from '../routes';
+
+const EMPTY_SUGGESTIONS: SearchSuggestions = { products: [], categories: [], tags: [] };
+
+const GROUP_LABELS: Record<SuggestionOption['kind'], string> = {
+  product: 'Products',
+  category: 'Categories',
+  tag: 'Tags',
+};
+
+interface SearchBoxProps {
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+  // Called after the box navigates somewhere, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+// Search input bound to the shared search query, with keyboard-navigable
+// suggestions for products, categories and tags
+export const SearchBox: React.FC<SearchBoxProps> = ({
+  placeholder = 'Search...',
+  className = '',
+  inputClassName = '',
+  onNavigate,
+}) => {
+  const { searchQuery, setSearchQuery, products, isBackendConnected } = useApp();
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>(EMPTY_SUGGESTIONS);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const debouncedQuery = useDebouncedValue(searchQuery.trim(), 200);
+  const navigate = useNavigate();
+  const listboxId = useId();
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setSuggestions(EMPTY_SUGGESTIONS);
+      return;
+    }
+
+    if (!isBackendConnected) {
+      setSuggestions(suggestFromProducts(products, debouncedQuery));
+      return;
+    }
+
+    const controller = new AbortController();
+    productsAPI
+      .suggest(debouncedQuery, controller.signal)
+      .then(response => setSuggestions(response.suggestions))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load search suggestions:', error);
+        setSuggestions(suggestFromProducts(products, debouncedQuery));
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery, isBackendConnected, products]);
+
+  const options = useMemo(() => toSuggestionOptions(suggestions), [suggestions]);
+
+  // A new set of suggestions starts with nothing highlighted
+  useEffect(() => setActiveIndex(-1), [options]);
+
+  const showList = isOpen && searchQuery.trim().length > 0 && options.length > 0;
+
+  const go = (to: string) => {
+    setIsOpen(false);
+    navigate(to);
+    onNavigate?.();
+  };
+
+  const selectOption = (option: SuggestionOption) => {
+    if (option.kind === 'product') {
+      go(paths.product(option.slug));
+    } else {
+      // Browsing a category or tag replaces the text query
+      setSearchQuery('');
+      go(option.kind === 'category' ? paths.products({ category: option.label }) : paths.products({ tag: option.label }));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (options.length ? (index + 1) % options.length : -1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (options.length ? (index <= 0 ? options.length - 1 : index - 1) : -1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (showList && activeIndex >= 0) {
+          selectOption(options[activeIndex]);
+        } else if (searchQuery.trim()) {
+          go(paths.products({ q: searchQuery.trim() }));
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          role="combobox"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          placeholder={placeholder}
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          className={`pl-10 ${inputClassName}`}
+        />
+      </div>
+
+      {showList && (
+        <motion.ul
+          id={listboxId}
+          role="listbox"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute top-full left-0 right-0 mt-1 z-50 glass-panel rounded-lg border border-white/10 overflow-hidden max-h-96 overflow-y-auto"
+        >
+          {options.map((option, index) => (
+            <React.Fragment key={option.key}>
+              {(index === 0 || options[index - 1].kind !== option.kind) && (
+                <li role="presentation" className="px-4 pt-2 pb-1 text-xs uppercase tracking-wide text-muted-foreground">
+                  {GROUP_LABELS[option.kind]}
+                </li>
+              )}
+              <li
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`flex items-center gap-3 px-4 py-2 cursor-pointer transition-colors ${
+                  index === activeIndex ? 'bg-white/10' : 'hover:bg-white/10'
+                }`}
+                // Keep focus in the input so the blur handler doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => selectOption(option)}
+              >
+                {option.kind === 'product' ? (
+                  <>
+                    {option.image ? (
+                      <img src={option.image} alt="" className="h-8 w-8 rounded object-cover" />
+                    ) : (
+                      <Search className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="flex-1 truncate">{option.label}</span>
+                    <span className="text-sm text-muted-foreground">${option.price.toLocaleString()}</span>
+                  </>
+                ) : (
+                  <>
+                    {option.kind === 'category' ? (
+                      <LayoutGrid className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <Tag className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="flex-1 truncate capitalize">{option.label}</span>
+                    <span className="text-xs text-muted-foreground">{option.count}</span>
+                  </>
+                )}
+              </li>
+            </React.Fragment>
+          ))}
+        </motion.ul>
+      )}
+    </div>
+  );
+};
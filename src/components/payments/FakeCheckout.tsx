@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { paymentAPI } from '../../services/api';
+import type { FakePaymentIntent, SimulatePaymentRequest } from '../../services/types';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import type { PaymentAdapterProps } from './types';
+
+const DELAYS = [
+  { value: '0', label: 'Instant' },
+  { value: '3000', label: '3 seconds' },
+  { value: '10000', label: '10 seconds' },
+];
+
+// Stand-in payment UI for the server's fake provider. The tester picks how
+// the payment turns out; a delayed payment is only confirmed by webhook, the
+// way slow UPI approvals are.
+export const FakeCheckout: React.FC<PaymentAdapterProps<FakePaymentIntent>> = ({
+  intent,
+  orderId,
+  onAuthorized,
+  onPending,
+  onFailed,
+  onDismiss,
+}) => {
+  const [outcome, setOutcome] = useState<SimulatePaymentRequest['outcome']>('success');
+  const [delay, setDelay] = useState('0');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handlePay = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await paymentAPI.simulateFakePayment({ orderId, outcome, delayMs: Number(delay) });
+      if (response.status === 'processing') {
+        onPending();
+      } else if (response.confirmation) {
+        onAuthorized(response.confirmation);
+      } else {
+        onFailed('Payment declined');
+      }
+    } catch (error) {
+      onFailed(error instanceof Error ? error.message : 'Payment failed');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && !isSubmitting && onDismiss()}>
+      <DialogContent className="glass-panel border-white/20">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-cyan-400" />
+            Test payment
+          </DialogTitle>
+          <DialogDescription>
+            The store is using a simulated payment provider. No money will be charged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="text-2xl neon-text-cyan">
+          {intent.currency === 'INR' ? '₹' : `${intent.currency} `}
+          {intent.amount.toFixed(2)}
+        </p>
+
+        <div className="space-y-2">
+          <Label>Outcome</Label>
+          <RadioGroup
+            value={outcome}
+            onValueChange={value => setOutcome(value as SimulatePaymentRequest['outcome'])}
+            className="flex gap-6"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="success" id="fake-success" />
+              <Label htmlFor="fake-success">Succeeds</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="failure" id="fake-failure" />
+              <Label htmlFor="fake-failure">Fails</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Takes</Label>
+          <RadioGroup value={delay} onValueChange={setDelay} className="flex gap-6">
+            {DELAYS.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`fake-delay-${option.value}`} />
+                <Label htmlFor={`fake-delay-${option.value}`}>{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDismiss} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handlePay} disabled={isSubmitting}>
+            {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            Pay
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
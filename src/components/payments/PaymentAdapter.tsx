@@ -0,0 +1,15 @@
+import React from 'react';
+import { RazorpayCheckout } from './RazorpayCheckout';
+import { FakeCheckout } from './FakeCheckout';
+import type { PaymentAdapterProps } from './types';
+
+// Shows the payment UI for whichever provider the server opened the intent
+// with
+export const PaymentAdapter: React.FC<PaymentAdapterProps> = ({ intent, ...props }) => {
+  switch (intent.provider) {
+    case 'razorpay':
+      return <RazorpayCheckout intent={intent} {...props} />;
+    case 'fake':
+      return <FakeCheckout intent={intent} {...props} />;
+  }
+};
@@ -0,0 +1,99 @@
+import React, { useEffect } from 'react';
+import type { RazorpayPaymentIntent } from '../../services/types';
+import type { PaymentAdapterProps } from './types';
+
+// Fields passed to the Razorpay Checkout success handler
+interface RazorpayHandlerResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+declare global {
+  interface Window {
+    Razorpay: new (options: Record<string, unknown>) => { open: () => void };
+  }
+}
+
+let scriptPromise: Promise<boolean> | null = null;
+
+// Load Razorpay's Checkout script once per page load
+const loadRazorpayScript = () => {
+  scriptPromise ??= new Promise<boolean>(resolve => {
+    const script = document.createElement('script');
+    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
+    script.onload = () => resolve(true);
+    script.onerror = () => {
+      scriptPromise = null;
+      resolve(false);
+    };
+    document.body.appendChild(script);
+  });
+  return scriptPromise;
+};
+
+// Opens Razorpay Checkout for the intent. UPI payments are approved in the
+// customer's UPI app instead, so those go straight to waiting for the webhook.
+export const RazorpayCheckout: React.FC<PaymentAdapterProps<RazorpayPaymentIntent>> = ({
+  intent,
+  method,
+  customer,
+  onAuthorized,
+  onPending,
+  onFailed,
+  onDismiss,
+}) => {
+  useEffect(() => {
+    if (method === 'upi') {
+      onPending();
+      return;
+    }
+
+    let cancelled = false;
+    loadRazorpayScript().then(loaded => {
+      if (cancelled) return;
+      if (!loaded) {
+        onFailed('Failed to load payment gateway. Please refresh the page.');
+        return;
+      }
+
+      const razorpay = new window.Razorpay({
+        key: intent.keyId,
+        amount: intent.amount,
+        currency: intent.currency,
+        name: 'Product Lab',
+        description: 'Order Payment',
+        order_id: intent.razorpayOrderId,
+        handler: (response: RazorpayHandlerResponse) => {
+          onAuthorized({
+            razorpay_order_id: response.razorpay_order_id,
+            razorpay_payment_id: response.razorpay_payment_id,
+            razorpay_signature: response.razorpay_signature,
+          });
+        },
+        prefill: {
+          name: customer.name,
+          email: customer.email,
+          contact: customer.contact,
+        },
+        notes: {
+          address: customer.address,
+        },
+        theme: {
+          color: '#06b6d4', // Cyan-500
+        },
+        modal: {
+          ondismiss: onDismiss,
+        },
+      });
+      razorpay.open();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent]);
+
+  // Checkout draws its own modal
+  return null;
+};
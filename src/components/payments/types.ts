@@ -0,0 +1,25 @@
+import type { PaymentIntent } from '../../services/types';
+
+export type CheckoutMethod = 'card' | 'upi';
+
+// Props every payment adapter takes. An adapter shows its provider's payment
+// UI for `intent` and reports back through exactly one of the callbacks.
+export interface PaymentAdapterProps<I extends PaymentIntent = PaymentIntent> {
+  intent: I;
+  orderId: string;
+  method: CheckoutMethod;
+  customer: {
+    name: string;
+    email: string;
+    contact: string;
+    address: string;
+  };
+  // The provider confirmed the payment in the browser; the page verifies
+  // `payload` with the server
+  onAuthorized: (payload: Record<string, string>) => void;
+  // The payment is underway elsewhere; its outcome arrives by webhook
+  onPending: () => void;
+  onFailed: (message: string) => void;
+  // The customer closed the payment UI without paying
+  onDismiss: () => void;
+}
@@ -1,21 +1,86 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { toast } from 'sonner@2.0.3';
 import { productsAPI, bundlesAPI, userAPI, authAPI } from '../services/api';
+import {
+  addBundleLine,
+  addLine,
+  bundleLineKey,
+  clearGuestCart,
+  findLine,
+  loadGuestCart,
+  removeLine,
+  saveGuestCart,
+  setLineQuantity,
+  toCartLineInputs,
+} from '../services/cart';
+import { normalizeBundles, normalizeProducts, populatedRefs, toCartItems, toUser } from '../services/normalize';
+import type { RecordKind, RejectedRecord } from '../services/normalize';
+import { cartLineKey, resolveVariant } from '../services/variants';
+import { fitsStock } from '../services/stock';
+import type { ApiCartItem, CartResponse, ProductQuery, VariantSelection } from '../services/types';
 
-interface Product {
+export type ProductVariants = Record<string, string[]>;
+
+export interface StorySection {
+  title: string;
+  content: string;
+  image: string;
+}
+
+export interface ProductReview {
+  id: string;
+  user: string;
+  avatar: string;
+  rating: number;
+  comment: string;
+  // Set for reviews loaded from the backend
+  userId?: string;
+  title?: string;
+  photos?: string[];
+  verifiedPurchase?: boolean;
+  helpfulCount?: number;
+  votedHelpful?: boolean;
+  createdAt?: string;
+  replies?: ReviewReply[];
+}
+
+export interface ReviewReply {
   id: string;
+  userId?: string;
+  user: string;
+  avatar: string;
+  comment: string;
+  createdAt: string;
+}
+
+// Price/stock override for one combination of variant options
+export interface ProductSku {
+  sku?: string;
+  attributes: VariantSelection;
+  price?: number;
+  stock: number;
+}
+
+export interface Product {
+  id: string;
+  slug: string;
   title: string;
   description: string;
   price: number;
+  stock?: number;
   category: string;
   tags: string[];
   images: string[];
-  variants: any;
-  story: any;
-  reviews: any[];
+  variants: ProductVariants;
+  skus?: ProductSku[];
+  story: { sections: StorySection[] };
+  reviews: ProductReview[];
 }
 
-interface Bundle {
+export interface Bundle {
   id: string;
+  slug: string;
   title: string;
   description: string;
   price: number;
@@ -24,24 +89,30 @@ interface Bundle {
   image: string;
   products: string[];
   tags: string[];
+  category?: string;
+  badge?: string;
 }
 
-interface User {
+export interface User {
   id: string;
   username: string;
   email: string;
   avatar: string;
   wishlist: string[];
-  orderHistory: any[];
 }
 
-interface CartItem {
-  productId: string;
+export interface CartItem {
+  itemId?: string; // server cart line id, absent for guest lines
+  // Exactly one of productId / bundleId is set
+  productId?: string;
+  bundleId?: string;
   quantity: number;
-  variant?: any;
+  variant?: VariantSelection;
 }
 
 interface AppContextType {
+  // The products loaded so far: those on pages visited, in bundles, in the
+  // cart or wishlist. Offline this is the whole mock catalog.
   products: Product[];
   bundles: Bundle[];
   currentUser: User | null;
@@ -49,15 +120,32 @@ interface AppContextType {
   isDarkMode: boolean;
   searchQuery: string;
   isLoading: boolean;
+  isAuthChecked: boolean;
   isBackendConnected: boolean;
+  rejectedRecords: RejectedRecord[];
+  reportRejectedRecords: (kinds: RecordKind[], records: RejectedRecord[]) => void;
   setSearchQuery: (query: string) => void;
-  addToCart: (productId: string, quantity?: number, variant?: any) => void;
-  removeFromCart: (productId: string) => void;
-  updateCartQuantity: (productId: string, quantity: number) => void;
+  addToCart: (productId: string, quantity?: number, variant?: VariantSelection) => void;
+  addBundleToCart: (bundleId: string, quantity?: number) => void;
+  // Lines are addressed by lineKey(item): the product and variant, or the bundle
+  removeFromCart: (lineKey: string) => void;
+  updateCartQuantity: (lineKey: string, quantity: number) => void;
+  getCartLinePrice: (item: CartItem) => number;
+  // Units still available for a line, undefined when stock isn't tracked
+  getCartLineStock: (item: CartItem) => number | undefined;
   clearCart: () => void;
+  isInWishlist: (productId: string) => boolean;
+  // Saves or removes a product for the logged-in user, updating right away
+  toggleWishlist: (productId: string) => Promise<void>;
   toggleDarkMode: () => void;
   getProduct: (id: string) => Product | undefined;
   getBundle: (id: string) => Bundle | undefined;
+  getProductBySlug: (slug: string) => Product | undefined;
+  getBundleBySlug: (slug: string) => Bundle | undefined;
+  // Fetch products from the backend into `products`; offline, loadProduct
+  // only looks among the products already there
+  loadProducts: (query?: ProductQuery) => Promise<Product[]>;
+  loadProduct: (slug: string) => Promise<Product | undefined>;
   cartTotal: number;
   cartCount: number;
   refreshAuth: () => Promise<void>;
@@ -82,11 +170,95 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const [products, setProducts] = useState<Product[]>([]);
   const [bundles, setBundles] = useState<Bundle[]>([]);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const [cart, setCart] = useState<CartItem[]>(loadGuestCart);
   const [isDarkMode, setIsDarkMode] = useState(true); // Default to dark mode
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  // Guards must not decide until the initial session check has resolved
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
   const [useBackend, setUseBackend] = useState(true); // Try backend first
+  const [rejectedRecords, setRejectedRecords] = useState<RejectedRecord[]>([]);
+
+  // Cart sync state. cartRef is the latest optimistic cart, serverCartRef the
+  // last cart the server confirmed; requests run one at a time in order.
+  const cartRef = useRef(cart);
+  const serverCartRef = useRef<CartItem[]>([]);
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingSyncsRef = useRef(0);
+
+  const commitCart = (items: CartItem[]) => {
+    cartRef.current = items;
+    setCart(items);
+  };
+
+  const applyServerCart = (items: ApiCartItem[]) => {
+    serverCartRef.current = toCartItems(items);
+    commitCart(serverCartRef.current);
+  };
+
+  // Pull the server cart, folding in anything added while logged out
+  const loadServerCart = async () => {
+    const guestItems = loadGuestCart();
+    const cartData = guestItems.length > 0
+      ? await userAPI.mergeCart(toCartLineInputs(guestItems))
+      : await userAPI.getCart();
+    if (cartData.success && cartData.cart) {
+      clearGuestCart();
+      applyServerCart(cartData.cart);
+    }
+  };
+
+  // Apply a cart change locally right away; for logged-in users replay it on
+  // the server and, if the request fails, go back to what the server has
+  const mutateCart = (
+    next: CartItem[],
+    request: (serverCart: CartItem[]) => Promise<CartResponse | void>
+  ) => {
+    commitCart(next);
+    if (!currentUser) return;
+
+    pendingSyncsRef.current += 1;
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => request(serverCartRef.current))
+      .then(response => {
+        if (!response) return;
+        serverCartRef.current = toCartItems(response.cart);
+        // Later queued changes are still optimistic; let the last one settle
+        if (pendingSyncsRef.current === 1) {
+          commitCart(serverCartRef.current);
+        }
+      })
+      .catch(async error => {
+        console.error('Cart sync error:', error);
+        toast.error('Could not update your cart', {
+          description: error instanceof Error ? error.message : 'Your last change was undone',
+        });
+        // Reload rather than restore the cart from before this change, which
+        // would also drop changes queued earlier that went through
+        try {
+          const response = await userAPI.getCart();
+          if (response.success && response.cart) {
+            serverCartRef.current = toCartItems(response.cart);
+          }
+        } catch (reloadError) {
+          console.error('Cart reload error:', reloadError);
+        }
+        // Changes queued after this one replay on the reloaded cart
+        if (pendingSyncsRef.current === 1) {
+          commitCart(serverCartRef.current);
+        }
+      })
+      .finally(() => {
+        pendingSyncsRef.current -= 1;
+      });
+  };
+
+  // Guests keep their cart across reloads
+  useEffect(() => {
+    if (!currentUser) {
+      saveGuestCart(cart);
+    }
+  }, [cart, currentUser]);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -94,23 +266,15 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       try {
         const response = await authAPI.checkAuthStatus();
         if (response.success && response.user) {
-          setCurrentUser({
-            id: response.user._id || response.user.id,
-            username: response.user.name || response.user.username || 'User',
-            email: response.user.email,
-            avatar: response.user.avatar || 'https://unsplash.com/photos/a-phone-with-a-happy-face-on-it-hszJpiM6cr0',
-            wishlist: response.user.wishlist || [],
-            orderHistory: []
-          });
+          setCurrentUser(toUser(response.user));
           
           // Load user's cart if authenticated
-          const cartData = await userAPI.getCart();
-          if (cartData.success && cartData.cart) {
-            setCart(cartData.cart.items || []);
-          }
+          await loadServerCart();
         }
-      } catch (error) {
+      } catch {
         console.log('Not authenticated or backend unavailable');
+      } finally {
+        setIsAuthChecked(true);
       }
     };
 
@@ -126,58 +290,30 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         if (useBackend) {
           // Try to fetch from backend
           try {
-            const [productsResponse, bundlesResponse] = await Promise.all([
-              productsAPI.getProducts(),
-              bundlesAPI.getBundles()
-            ]);
-
-            if (productsResponse.success && bundlesResponse.success) {
-              // Normalize backend data - MongoDB uses _id, frontend expects id
-              const backendProducts = (productsResponse.products || []).map((p: any) => ({
-                ...p,
-                id: p._id || p.id, // Ensure 'id' field exists
-                images: p.images || [],
-                variants: p.variants || {},
-                story: p.story || { sections: [] },
-                reviews: p.reviews || []
-              }));
-              
-              const backendBundles = (bundlesResponse.bundles || []).map((b: any) => {
-                // Transform backend bundle format to frontend format
-                // Backend: {products: [{product: ObjectId, quantity: 1}]}
-                // Frontend: {products: ['productId1', 'productId2']}
-                const productIds = (b.products || []).map((p: any) => {
-                  // Handle both populated and non-populated products
-                  if (typeof p === 'string') return p;
-                  if (p.product) {
-                    return typeof p.product === 'string' ? p.product : (p.product._id || p.product.id);
-                  }
-                  return p._id || p.id;
-                }).filter(Boolean);
-
-                return {
-                  id: b._id || b.id,
-                  title: b.name,
-                  description: b.description,
-                  price: b.price,
-                  originalPrice: b.originalPrice,
-                  savings: b.originalPrice - b.price,
-                  image: b.image,
-                  products: productIds,
-                  tags: b.tags || [],
-                  category: b.category,
-                  badge: b.badge
-                };
-              });
+            // Products are loaded by the pages that show them; the ones in
+            // bundles come populated with the bundles
+            const bundlesResponse = await bundlesAPI.getBundles();
+
+            if (bundlesResponse.success) {
+              // Validate backend data - malformed records are dropped and
+              // surfaced on the debug page instead of breaking the UI
+              const normalizedProducts = normalizeProducts(
+                populatedRefs(bundlesResponse.bundles.flatMap(bundle => bundle.products.map(p => p.product)))
+              );
+              const normalizedBundles = normalizeBundles(bundlesResponse.bundles);
+              const backendProducts = normalizedProducts.records;
+              const backendBundles = normalizedBundles.records;
+              const rejected = [...normalizedProducts.rejected, ...normalizedBundles.rejected];
               
               console.log('Loaded from backend:', {
                 productsCount: backendProducts.length,
                 bundlesCount: backendBundles.length,
-                productIds: backendProducts.map((p: any) => p.id)
+                productIds: backendProducts.map(p => p.id)
               });
               
-              setProducts(backendProducts);
+              addProducts(backendProducts);
               setBundles(backendBundles);
+              reportRejectedRecords(['product', 'bundle'], rejected);
               setIsLoading(false);
               return; // Successfully loaded from backend
             }
@@ -192,6 +328,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p1",
             title: "Neural Interface Headset",
+            slug: "neural-interface-headset",
             description: "Next-gen brain-computer interface for seamless digital integration",
             price: 2499,
             category: "tech",
@@ -238,6 +375,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p2",
             title: "Quantum Smartwatch",
+            slug: "quantum-smartwatch",
             description: "Time-bending wearable with holographic display",
             price: 899,
             category: "wearables",
@@ -272,6 +410,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p3",
             title: "Nano-Fabric Jacket",
+            slug: "nano-fabric-jacket",
             description: "Self-regulating smart jacket with adaptive temperature control",
             price: 1299,
             category: "fashion",
@@ -298,6 +437,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p4",
             title: "Plasma Drone",
+            slug: "plasma-drone",
             description: "AI-powered companion drone with plasma propulsion",
             price: 3599,
             category: "drones",
@@ -324,6 +464,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p5",
             title: "Biometric Pod Chair",
+            slug: "biometric-pod-chair",
             description: "Wellness pod that monitors and enhances your mental state",
             price: 4999,
             category: "wellness",
@@ -350,6 +491,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p6",
             title: "Hologram Projector",
+            slug: "hologram-projector",
             description: "Portable device for stunning 3D holographic displays",
             price: 1899,
             category: "tech",
@@ -376,6 +518,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p7",
             title: "Neural Keyboard",
+            slug: "neural-keyboard",
             description: "Type with your thoughts using advanced neural detection",
             price: 799,
             category: "peripherals",
@@ -402,6 +545,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p8",
             title: "Energy Crystals",
+            slug: "energy-crystals",
             description: "Quantum energy storage in beautiful crystal form",
             price: 299,
             category: "energy",
@@ -428,6 +572,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p9",
             title: "Smart Mirror Display",
+            slug: "smart-mirror-display",
             description: "Interactive mirror with AR overlay and health monitoring",
             price: 1299,
             category: "home",
@@ -454,6 +599,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p10",
             title: "Levitating Speaker",
+            slug: "levitating-speaker",
             description: "Magnetically suspended audio with 360° sound projection",
             price: 599,
             category: "audio",
@@ -480,6 +626,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p11",
             title: "Biometric Wallet",
+            slug: "biometric-wallet",
             description: "Fingerprint-secured smart wallet with solar charging",
             price: 249,
             category: "accessories",
@@ -506,6 +653,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p12",
             title: "Air Purifier Lamp",
+            slug: "air-purifier-lamp",
             description: "HEPA filtration system disguised as elegant mood lighting",
             price: 399,
             category: "home",
@@ -532,6 +680,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p13",
             title: "Modular Backpack System",
+            slug: "modular-backpack-system",
             description: "Customizable smart backpack with wireless charging ports",
             price: 349,
             category: "accessories",
@@ -558,6 +707,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p14",
             title: "Smart Plant Pod",
+            slug: "smart-plant-pod",
             description: "AI-powered indoor garden with automated care system",
             price: 449,
             category: "home",
@@ -584,6 +734,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "p15",
             title: "Thermal Vision Glasses",
+            slug: "thermal-vision-glasses",
             description: "Augmented reality glasses with thermal imaging capability",
             price: 1899,
             category: "wearables",
@@ -614,6 +765,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "b1",
             title: "Nomad Pack",
+            slug: "nomad-pack",
             description: "Everything you need for the future of remote work",
             price: 4199,
             originalPrice: 4897,
@@ -625,6 +777,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "b2",
             title: "Wellness Sanctuary",
+            slug: "wellness-sanctuary",
             description: "Transform your space into a healing environment",
             price: 6899,
             originalPrice: 7997,
@@ -636,6 +789,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           {
             id: "b3",
             title: "Urban Explorer",
+            slug: "urban-explorer",
             description: "Gear up for adventures in the digital city",
             price: 5697,
             originalPrice: 6597,
@@ -646,34 +800,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           }
         ];
 
-        // Mock user data
-        const mockUser: User = {
-          id: "u1",
-          username: "cybernaut_alex",
-          email: "alex@future.com",
-          avatar: "https://unsplash.com/photos/a-phone-with-a-happy-face-on-it-hszJpiM6cr0",
-          wishlist: ["p1", "p4", "p6"],
-          orderHistory: [
-            {
-              id: "o1",
-              date: "2024-03-15",
-              total: 3599,
-              status: "delivered",
-              items: ["p4"]
-            },
-            {
-              id: "o2",
-              date: "2024-02-28",
-              total: 899,
-              status: "delivered", 
-              items: ["p2"]
-            }
-          ]
-        };
-
         setProducts(mockProducts);
         setBundles(mockBundles);
-        // Don't set mock user - let auth check handle it
         setIsLoading(false);
         
         console.log('Loaded mock data:', {
@@ -690,6 +818,77 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     loadData();
   }, [useBackend]);
 
+  // Keep products the pages loaded, replacing older copies of the same ones
+  const addProducts = (loaded: Product[]) => {
+    if (loaded.length === 0) return;
+    setProducts(prev => [...new Map([...prev, ...loaded].map(p => [p.id, p])).values()]);
+  };
+
+  // One page of the catalog, e.g. for the home page showcase
+  const loadProducts = async (query: ProductQuery = {}) => {
+    const response = await productsAPI.getProducts(query);
+    const { records, rejected } = normalizeProducts(response.products);
+    if (rejected.length > 0) {
+      console.warn('Dropped malformed products:', rejected);
+    }
+    addProducts(records);
+    return records;
+  };
+
+  // A single product for its story page, loaded unless it already is
+  const loadProduct = async (slug: string) => {
+    const loaded = getProductBySlug(slug);
+    if (loaded || !useBackend) return loaded;
+    // Older links carry the product id instead of the slug
+    const found = await productsAPI
+      .getProduct(slug)
+      .then(response => [response.product])
+      .catch(() => productsAPI.getProductsByIds([slug]).then(response => response.products));
+    const [product] = normalizeProducts(found).records;
+    if (product) addProducts([product]);
+    return product;
+  };
+
+  // Cart lines and wishlist entries only carry product ids; fetch the
+  // products behind them that no page has loaded yet. Ids asked for once
+  // aren't asked for again, so a removed product doesn't refetch forever.
+  const requestedProductIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!useBackend || isLoading) return;
+    const loadedIds = new Set(products.map(p => p.id));
+    const missing = [
+      ...new Set([
+        ...cart.map(item => item.productId).filter((id): id is string => Boolean(id)),
+        ...(currentUser?.wishlist || []),
+      ]),
+    ].filter(id => !loadedIds.has(id) && !requestedProductIdsRef.current.has(id));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requestedProductIdsRef.current.add(id));
+    productsAPI
+      .getProductsByIds(missing)
+      .then(response => {
+        const { records, rejected } = normalizeProducts(response.products);
+        if (rejected.length > 0) {
+          console.warn('Dropped malformed products:', rejected);
+        }
+        addProducts(records);
+      })
+      .catch(error => {
+        console.error('Failed to load cart and wishlist products:', error);
+        missing.forEach(id => requestedProductIdsRef.current.delete(id));
+      });
+  }, [cart, currentUser, products, useBackend, isLoading]);
+
+  // Replace the diagnostics for the given record kinds with a fresh batch
+  const reportRejectedRecords = (kinds: RecordKind[], records: RejectedRecord[]) => {
+    if (records.length > 0) {
+      console.warn(`Rejected ${records.length} malformed record(s) from backend:`, records);
+    }
+    setRejectedRecords(prev => [...prev.filter(r => !kinds.includes(r.kind)), ...records]);
+  };
+
   // Apply dark mode class to document
   useEffect(() => {
     if (isDarkMode) {
@@ -699,38 +898,94 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, [isDarkMode]);
 
-  const addToCart = (productId: string, quantity = 1, variant?: any) => {
-    setCart(prev => {
-      const existingItem = prev.find(item => item.productId === productId);
-      if (existingItem) {
-        return prev.map(item =>
-          item.productId === productId
-            ? { ...item, quantity: item.quantity + quantity, variant }
-            : item
-        );
-      }
-      return [...prev, { productId, quantity, variant }];
-    });
+  // Refuse changes that would put a line past the stock left to sell
+  const hasStockFor = (item: CartItem) => {
+    const stock = getCartLineStock(item);
+    if (fitsStock(item.quantity, stock)) return true;
+    toast.error(stock ? `Only ${stock} left in stock` : 'This item is out of stock');
+    return false;
+  };
+
+  const addToCart = (productId: string, quantity = 1, variant?: VariantSelection) => {
+    const next = addLine(cartRef.current, productId, quantity, variant);
+    const line = findLine(next, cartLineKey(productId, variant));
+    if (line && !hasStockFor(line)) return;
+    mutateCart(next, () => userAPI.addToCart(productId, undefined, quantity, variant));
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(prev => prev.filter(item => item.productId !== productId));
+  const addBundleToCart = (bundleId: string, quantity = 1) => {
+    const next = addBundleLine(cartRef.current, bundleId, quantity);
+    const line = findLine(next, bundleLineKey(bundleId));
+    if (line && !hasStockFor(line)) return;
+    mutateCart(next, () => userAPI.addToCart(undefined, bundleId, quantity));
   };
 
-  const updateCartQuantity = (productId: string, quantity: number) => {
+  const removeFromCart = (lineKey: string) => {
+    mutateCart(removeLine(cartRef.current, lineKey), serverCart => {
+      const line = findLine(serverCart, lineKey);
+      return line?.itemId ? userAPI.removeFromCart(line.itemId) : Promise.resolve();
+    });
+  };
+
+  const updateCartQuantity = (lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineKey);
       return;
     }
-    setCart(prev =>
-      prev.map(item =>
-        item.productId === productId ? { ...item, quantity } : item
-      )
-    );
+    const current = findLine(cartRef.current, lineKey);
+    if (current && quantity > current.quantity && !hasStockFor({ ...current, quantity })) return;
+    mutateCart(setLineQuantity(cartRef.current, lineKey, quantity), serverCart => {
+      const line = findLine(serverCart, lineKey);
+      if (line?.itemId) {
+        return userAPI.updateCartItem(line.itemId, quantity);
+      }
+      // The line never reached the server; adding it sets the quantity
+      const pending = findLine(cartRef.current, lineKey);
+      return pending
+        ? userAPI.addToCart(pending.productId, pending.bundleId, quantity, pending.variant)
+        : Promise.resolve();
+    });
   };
 
   const clearCart = () => {
-    setCart([]);
+    mutateCart([], () => userAPI.clearCart());
+  };
+
+  // Products with a wishlist request in flight; another click on the same
+  // product is ignored until it lands so the two toggles can't cross
+  const wishlistPendingRef = useRef(new Set<string>());
+
+  const isInWishlist = (productId: string) => Boolean(currentUser?.wishlist.includes(productId));
+
+  const toggleWishlist = async (productId: string) => {
+    if (!currentUser) {
+      toast.error('Log in to save items to your wishlist');
+      return;
+    }
+    if (wishlistPendingRef.current.has(productId)) return;
+
+    const wasSaved = currentUser.wishlist.includes(productId);
+    const setSaved = (saved: boolean) =>
+      setCurrentUser(user => {
+        if (!user) return user;
+        const wishlist = user.wishlist.filter(id => id !== productId);
+        return { ...user, wishlist: saved ? [...wishlist, productId] : wishlist };
+      });
+
+    setSaved(!wasSaved);
+    wishlistPendingRef.current.add(productId);
+    try {
+      await userAPI.toggleWishlist(productId);
+      toast.success(wasSaved ? 'Removed from wishlist' : 'Saved to wishlist', {
+        description: wasSaved ? undefined : "We'll let you know if the price drops or it's back in stock",
+      });
+    } catch (error) {
+      console.error('Wishlist sync error:', error);
+      setSaved(wasSaved);
+      toast.error(error instanceof Error ? error.message : 'Could not update your wishlist');
+    } finally {
+      wishlistPendingRef.current.delete(productId);
+    }
   };
 
   const toggleDarkMode = () => {
@@ -755,38 +1010,54 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     return bundle;
   };
 
+  // Route params carry slugs; ids are still accepted so older links resolve
+  const getProductBySlug = (slug: string) =>
+    products.find(p => p.slug === slug) || products.find(p => p.id === slug);
+
+  const getBundleBySlug = (slug: string) =>
+    bundles.find(b => b.slug === slug) || bundles.find(b => b.id === slug);
+
   // Function to refresh authentication state
   const refreshAuth = async () => {
     try {
       const response = await authAPI.checkAuthStatus();
       if (response.success && response.user) {
-        setCurrentUser({
-          id: response.user._id || response.user.id,
-          username: response.user.name || response.user.username || 'User',
-          email: response.user.email,
-          avatar: response.user.avatar || 'https://unsplash.com/photos/a-phone-with-a-happy-face-on-it-hszJpiM6cr0',
-          wishlist: response.user.wishlist || [],
-          orderHistory: []
-        });
+        setCurrentUser(toUser(response.user));
         
-        // Load user's cart if authenticated
-        const cartData = await userAPI.getCart();
-        if (cartData.success && cartData.cart) {
-          setCart(cartData.cart.items || []);
-        }
+        // Merge the guest cart into the user's cart
+        await loadServerCart();
       } else {
         setCurrentUser(null);
       }
-    } catch (error) {
+    } catch {
       console.log('Failed to refresh auth');
       setCurrentUser(null);
     }
   };
 
-  const cartTotal = cart.reduce((total, item) => {
-    const product = getProduct(item.productId);
-    return total + (product ? product.price * item.quantity : 0);
-  }, 0);
+  // Unit price for a cart line: the bundle price for bundles, otherwise the
+  // product price honouring per-variant overrides
+  const getCartLinePrice = (item: CartItem) => {
+    if (item.bundleId) {
+      return getBundle(item.bundleId)?.price ?? 0;
+    }
+    const product = item.productId ? getProduct(item.productId) : undefined;
+    return product ? resolveVariant(product, item.variant).price : 0;
+  };
+
+  // A bundle is limited by whichever of its products runs out first
+  const getCartLineStock = (item: CartItem): number | undefined => {
+    if (item.bundleId) {
+      const stocks = (getBundle(item.bundleId)?.products || [])
+        .map(productId => products.find(p => p.id === productId)?.stock)
+        .filter((stock): stock is number => stock !== undefined);
+      return stocks.length > 0 ? Math.min(...stocks) : undefined;
+    }
+    const product = item.productId ? getProduct(item.productId) : undefined;
+    return product ? resolveVariant(product, item.variant).stock : undefined;
+  };
+
+  const cartTotal = cart.reduce((total, item) => total + getCartLinePrice(item) * item.quantity, 0);
 
   const cartCount = cart.reduce((count, item) => count + item.quantity, 0);
 
@@ -798,15 +1069,27 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     isDarkMode,
     searchQuery,
     isLoading,
+    isAuthChecked,
     isBackendConnected: useBackend,
+    rejectedRecords,
+    reportRejectedRecords,
     setSearchQuery,
     addToCart,
+    addBundleToCart,
     removeFromCart,
     updateCartQuantity,
+    getCartLinePrice,
+    getCartLineStock,
     clearCart,
+    isInWishlist,
+    toggleWishlist,
     toggleDarkMode,
     getProduct,
     getBundle,
+    getProductBySlug,
+    getBundleBySlug,
+    loadProducts,
+    loadProduct,
     cartTotal,
     cartCount,
     refreshAuth,
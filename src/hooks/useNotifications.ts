@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { notificationsAPI } from '../services/api';
+import type { ApiNotification } from '../services/types';
+
+const NOTIFICATIONS_LIMIT = 20;
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// The logged-in user's latest notifications and unread count. Polled while
+// the tab is visible, and refreshed on demand (e.g. when the bell is opened).
+export function useNotifications() {
+  const { currentUser } = useApp();
+  const userId = currentUser?.id;
+  const [notifications, setNotifications] = useState<ApiNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      const response = await notificationsAPI.getNotifications({ limit: NOTIFICATIONS_LIMIT });
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    refresh();
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') refresh();
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [userId, refresh]);
+
+  const markRead = async (notification: ApiNotification) => {
+    if (notification.read) return;
+    setNotifications(prev => prev.map(n => (n._id === notification._id ? { ...n, read: true } : n)));
+    setUnreadCount(count => Math.max(count - 1, 0));
+    try {
+      const response = await notificationsAPI.markRead(notification._id);
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+      refresh();
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await notificationsAPI.markAllRead();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      refresh();
+    }
+  };
+
+  return { notifications, unreadCount, isLoading, refresh, markRead, markAllRead };
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { ApiError, paymentAPI } from '../services/api';
+import type { OrderStatusUpdate } from '../services/types';
+
+const POLL_INITIAL_MS = 2000;
+const POLL_MAX_MS = 30000;
+
+export type StatusConnection = 'connecting' | 'live' | 'polling' | 'closed';
+
+// Payment has settled one way or the other, or (cash on delivery) won't be
+// until the parcel arrives; no further updates will come meanwhile
+export const isPaymentSettled = (status: OrderStatusUpdate | null) =>
+  Boolean(status && (status.paymentStatus !== 'pending' || status.paymentMethod === 'cash_on_delivery'));
+
+// Follows an order's payment status as it changes. Updates are pushed over
+// the server's event stream; if that drops (or EventSource isn't available)
+// the status endpoint is polled instead, backing off while nothing changes.
+export function useOrderStatus(orderId: string | null) {
+  const [status, setStatus] = useState<OrderStatusUpdate | null>(null);
+  const [connection, setConnection] = useState<StatusConnection>('connecting');
+  // Set when the order can't be followed at all (not found, not yours)
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    let stopped = false;
+    let source: EventSource | null = null;
+    let pollTimer: number | undefined;
+    let latest: OrderStatusUpdate | null = null;
+
+    const finish = () => {
+      stopped = true;
+      source?.close();
+      window.clearTimeout(pollTimer);
+      setConnection('closed');
+    };
+
+    // A settled payment never goes back to pending, so a late or replayed
+    // update can't undo it
+    const apply = (update: OrderStatusUpdate) => {
+      if (isPaymentSettled(latest) && !isPaymentSettled(update)) return false;
+      const changed = latest?.paymentStatus !== update.paymentStatus || latest?.orderStatus !== update.orderStatus;
+      latest = update;
+      setStatus(update);
+      if (isPaymentSettled(update)) finish();
+      return changed;
+    };
+
+    const poll = (delay: number) => {
+      pollTimer = window.setTimeout(async () => {
+        let next = Math.min(delay * 2, POLL_MAX_MS);
+        try {
+          const response = await paymentAPI.getPaymentStatus(orderId);
+          if (stopped) return;
+          if (apply(response)) next = POLL_INITIAL_MS;
+        } catch (error) {
+          if (error instanceof ApiError && error.status < 500) {
+            setError(error.message);
+            finish();
+            return;
+          }
+          console.error('Order status poll failed:', error);
+        }
+        if (!stopped) poll(next);
+      }, delay);
+    };
+
+    const startPolling = () => {
+      if (stopped) return;
+      setConnection('polling');
+      poll(POLL_INITIAL_MS);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      source = paymentAPI.openStatusStream(orderId);
+      source.onopen = () => {
+        if (!stopped) setConnection('live');
+      };
+      source.addEventListener('status', event => {
+        try {
+          apply(JSON.parse((event as MessageEvent<string>).data));
+        } catch (error) {
+          console.error('Bad order status event:', error);
+        }
+      });
+      // EventSource would keep retrying on its own; poll instead so a
+      // broken stream (proxy, server restart) can't leave the page stuck
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        startPolling();
+      };
+    }
+
+    return () => {
+      stopped = true;
+      source?.close();
+      window.clearTimeout(pollTimer);
+    };
+  }, [orderId]);
+
+  return { status, connection, error, isSettled: isPaymentSettled(status) };
+}
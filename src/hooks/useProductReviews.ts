@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useApp } from '../contexts/AppContext';
+import type { Product, ProductReview, ReviewReply } from '../contexts/AppContext';
+import { reviewsAPI } from '../services/api';
+import { toProductReview } from '../services/normalize';
+import type { ReviewResponse, ReviewSort, ReviewSummary, SaveReviewRequest } from '../services/types';
+
+const REVIEWS_PAGE_SIZE = 10;
+
+interface ReviewFilters {
+  // Only reviews with this many stars
+  rating?: number;
+  sort: ReviewSort;
+}
+
+const summarize = (reviews: ProductReview[]): ReviewSummary => {
+  const distribution: Record<string, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach(review => {
+    distribution[review.rating] = (distribution[review.rating] || 0) + 1;
+  });
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+  return {
+    average: reviews.length ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    count: reviews.length,
+    distribution,
+  };
+};
+
+const compareReviews: Record<ReviewSort, ((a: ProductReview, b: ProductReview) => number) | null> = {
+  newest: null,
+  oldest: null,
+  highest: (a, b) => b.rating - a.rating,
+  lowest: (a, b) => a.rating - b.rating,
+  helpful: (a, b) => (b.helpfulCount ?? 0) - (a.helpfulCount ?? 0),
+};
+
+// A product's reviews with a rating summary. With a backend they are loaded
+// a page at a time and can be written, edited, deleted and voted on; the mock
+// catalog's embedded reviews are filtered and sorted locally instead.
+export function useProductReviews(product: Product | undefined, { rating, sort }: ReviewFilters) {
+  const { isBackendConnected } = useApp();
+  const productId = product?.id;
+  const isRemote = isBackendConnected && Boolean(productId);
+
+  const [remoteReviews, setRemoteReviews] = useState<ProductReview[]>([]);
+  const [remoteSummary, setRemoteSummary] = useState<ReviewSummary | null>(null);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // A new product, filter or sort (or a reload after an edit) starts again
+  // from the first page
+  const key = `${productId}|${rating ?? ''}|${sort}|${reloadCount}`;
+  const [requested, setRequested] = useState({ key, page: 1 });
+  const page = requested.key === key ? requested.page : 1;
+
+  useEffect(() => {
+    if (!isRemote || !productId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    reviewsAPI
+      .getReviews(productId, { page, limit: REVIEWS_PAGE_SIZE, rating, sort })
+      .then(response => {
+        if (cancelled) return;
+        const loaded = response.reviews.map(toProductReview);
+        setRemoteReviews(prev => (page === 1 ? loaded : [...prev, ...loaded]));
+        setRemoteSummary(response.summary);
+        setTotalPages(response.totalPages);
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Failed to load reviews:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isRemote, productId, page, rating, sort, reloadCount]);
+
+  const localReviews = useMemo(() => {
+    if (isRemote || !product) return [];
+    const filtered = product.reviews.filter(review => !rating || review.rating === rating);
+    const compare = compareReviews[sort];
+    if (compare) return [...filtered].sort(compare);
+    return sort === 'oldest' ? [...filtered].reverse() : filtered;
+  }, [isRemote, product, rating, sort]);
+
+  const reload = () => setReloadCount(count => count + 1);
+
+  const saveReview = async (data: SaveReviewRequest, existing?: ProductReview) => {
+    if (!productId) return;
+    if (existing) {
+      await reviewsAPI.updateReview(existing.id, data);
+    } else {
+      await reviewsAPI.createReview(productId, data);
+    }
+    reload();
+  };
+
+  const deleteReview = async (review: ProductReview) => {
+    await reviewsAPI.deleteReview(review.id);
+    reload();
+  };
+
+  // Votes and replies only change the one review, so it's swapped in place
+  const replaceReview = (response: ReviewResponse) => {
+    const updated = toProductReview(response.review);
+    setRemoteReviews(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  const toggleHelpful = async (review: ProductReview) => {
+    replaceReview(await reviewsAPI.toggleHelpful(review.id));
+  };
+
+  const addReply = async (review: ProductReview, comment: string) => {
+    replaceReview(await reviewsAPI.addReply(review.id, comment));
+  };
+
+  const deleteReply = async (review: ProductReview, reply: ReviewReply) => {
+    replaceReview(await reviewsAPI.deleteReply(review.id, reply.id));
+  };
+
+  const loadMore = useCallback(() => {
+    if (!isLoading && page < totalPages) setRequested({ key, page: page + 1 });
+  }, [isLoading, page, totalPages, key]);
+
+  return {
+    reviews: isRemote ? remoteReviews : localReviews,
+    summary: isRemote ? remoteSummary ?? summarize([]) : summarize(product?.reviews ?? []),
+    isRemote,
+    isLoading,
+    hasMore: isRemote && page < totalPages,
+    loadMore,
+    saveReview,
+    deleteReview,
+    toggleHelpful,
+    addReply,
+    deleteReply,
+  };
+}
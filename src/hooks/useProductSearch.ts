@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Product } from '../contexts/AppContext';
+import { normalizeProducts } from '../services/normalize';
+import { fetchSearchPage, prefetchSearchPage } from '../services/search';
+import type { SearchFacets, SearchQuery } from '../services/types';
+
+export const SEARCH_PAGE_SIZE = 12;
+
+export type SearchFilters = Omit<SearchQuery, 'page' | 'limit'>;
+
+interface SearchResults {
+  key: string;
+  products: Product[];
+  facets: SearchFacets;
+  total: number;
+  totalPages: number;
+}
+
+// Server-side search results, loaded a page at a time. Call `loadMore` (e.g.
+// from an infinite-scroll sentinel) to append the next page; the page after
+// the last one shown is prefetched. Pass `null` to skip searching, e.g. when
+// there is no backend to ask.
+export function useProductSearch(filters: SearchFilters | null) {
+  const key = filters ? JSON.stringify(filters) : null;
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [requested, setRequested] = useState({ key, pages: 1 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  // A new query starts again from the first page
+  const pageCount = requested.key === key ? requested.pages : 1;
+
+  useEffect(() => {
+    if (!key) {
+      setResults(null);
+      setFailed(false);
+      return;
+    }
+
+    const query: SearchFilters = JSON.parse(key);
+    const pageQuery = (page: number): SearchQuery => ({ ...query, page, limit: SEARCH_PAGE_SIZE });
+    let cancelled = false;
+    setIsLoading(true);
+
+    // Earlier pages come from the cache, so only the newest one is fetched
+    Promise.all(Array.from({ length: pageCount }, (_, i) => fetchSearchPage(pageQuery(i + 1))))
+      .then(responses => {
+        if (cancelled) return;
+        const last = responses[responses.length - 1];
+        const { records, rejected } = normalizeProducts(responses.flatMap(response => response.products));
+        if (rejected.length > 0) {
+          console.warn('Dropped malformed search results:', rejected);
+        }
+
+        setResults({
+          key,
+          products: records,
+          facets: last.facets,
+          total: last.total,
+          totalPages: last.totalPages,
+        });
+        setFailed(false);
+
+        if (pageCount < last.totalPages) {
+          prefetchSearchPage(pageQuery(pageCount + 1));
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Product search failed:', error);
+        setFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, pageCount]);
+
+  const hasMore = !!results && results.key === key && pageCount < results.totalPages;
+
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return;
+    setRequested({ key, pages: pageCount + 1 });
+  }, [isLoading, hasMore, key, pageCount]);
+
+  return { results, isLoading, failed, hasMore, loadMore };
+}
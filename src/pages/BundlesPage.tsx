@@ -1,17 +1,22 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { Package, ArrowRight, ShoppingCart, Info, X } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import { paths } from '../routes';
+import type { RouteParams } from '../routes';
+import type { Bundle, Product } from '../contexts/AppContext';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../components/ui/dialog';
 import { ImageWithFallback } from '../components/figma/ImageWithFallback';
 
 export const BundlesPage: React.FC = () => {
-  const { bundles, products, getProduct, addToCart, isLoading } = useApp();
-  const [selectedBundle, setSelectedBundle] = useState<string | null>(null);
+  const { bundles, products, getProduct, getBundleBySlug, addBundleToCart, isLoading } = useApp();
+  const navigate = useNavigate();
+  // The open details dialog lives in the URL (/bundles/:slug) so it can be shared
+  const { slug } = useParams<RouteParams<'bundle'>>();
   const [expandedBundle, setExpandedBundle] = useState<string | null>(null);
-  const [showDetails, setShowDetails] = useState(false);
   
   // Debug: Log bundles when they load
   React.useEffect(() => {
@@ -24,7 +29,7 @@ export const BundlesPage: React.FC = () => {
 
   const formatPrice = (price: number) => `$${price.toLocaleString()}`;
 
-  const getBundleProducts = (bundle: any) => {
+  const getBundleProducts = (bundle: Bundle): Product[] => {
     if (!bundle || !bundle.products) {
       console.log('Invalid bundle:', bundle);
       return [];
@@ -36,7 +41,7 @@ export const BundlesPage: React.FC = () => {
         console.log(`Bundle ${bundle.id} (${bundle.title}) references missing product: ${productId}`);
       }
       return product;
-    }).filter(Boolean);
+    }).filter((product): product is Product => Boolean(product));
     
     console.log(`Bundle ${bundle.id} (${bundle.title}): ${products.length}/${bundle.products.length} products found`);
     
@@ -46,10 +51,8 @@ export const BundlesPage: React.FC = () => {
   const handleBuyBundle = (bundleId: string) => {
     const bundle = bundles.find(b => b.id === bundleId);
     if (bundle) {
-      // Add all products in the bundle to cart
-      bundle.products.forEach(productId => {
-        addToCart(productId, 1);
-      });
+      // The bundle is one cart line so the bundle price carries to checkout
+      addBundleToCart(bundle.id, 1);
     }
   };
 
@@ -57,12 +60,16 @@ export const BundlesPage: React.FC = () => {
     setExpandedBundle(bundleId);
   };
 
-  const handleShowDetails = (bundleId: string) => {
-    setSelectedBundle(bundleId);
-    setShowDetails(true);
+  const handleShowDetails = (bundleSlug: string) => {
+    navigate(paths.bundle(bundleSlug));
   };
 
-  const selectedBundleData = selectedBundle ? bundles.find(b => b.id === selectedBundle) : null;
+  const handleCloseDetails = () => {
+    navigate(paths.bundles());
+  };
+
+  const selectedBundleData = slug ? getBundleBySlug(slug) : undefined;
+  const showDetails = Boolean(selectedBundleData);
   const selectedBundleProducts = selectedBundleData ? getBundleProducts(selectedBundleData) : [];
 
   // Show loading state
@@ -96,7 +103,7 @@ export const BundlesPage: React.FC = () => {
           <p className="text-muted-foreground mb-6">
             We're currently preparing amazing bundle deals for you. Check back soon!
           </p>
-          <Button onClick={() => window.location.hash = 'products'}>
+          <Button onClick={() => navigate(paths.products())}>
             Browse Products
           </Button>
         </div>
@@ -153,7 +160,7 @@ export const BundlesPage: React.FC = () => {
                 whileHover={{ y: -10 }}
                 onHoverStart={() => handleBundleHover(bundle.id)}
                 onHoverEnd={() => handleBundleHover(null)}
-                onClick={() => handleShowDetails(bundle.id)}
+                onClick={() => handleShowDetails(bundle.slug)}
               >
                 {/* Bundle Image */}
                 <div className="relative aspect-video overflow-hidden">
@@ -281,7 +288,7 @@ export const BundlesPage: React.FC = () => {
                     className="w-full border-white/20 hover:bg-white/10"
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleShowDetails(bundle.id);
+                      handleShowDetails(bundle.slug);
                     }}
                   >
                     <Info className="h-4 w-4 mr-2" />
@@ -295,7 +302,7 @@ export const BundlesPage: React.FC = () => {
         </div>
 
         {/* Bundle Details Modal */}
-        <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <Dialog open={showDetails} onOpenChange={(open) => !open && handleCloseDetails()}>
           <DialogContent className="glass-panel border-white/20 max-w-4xl max-h-[80vh] overflow-y-auto">
             <DialogHeader className="relative">
               <DialogTitle className="text-2xl pr-8">
@@ -305,7 +312,7 @@ export const BundlesPage: React.FC = () => {
                 variant="ghost"
                 size="sm"
                 className="absolute top-0 right-0 hover:bg-white/10"
-                onClick={() => setShowDetails(false)}
+                onClick={handleCloseDetails}
               >
                 <X className="h-4 w-4" />
               </Button>
@@ -351,7 +358,7 @@ export const BundlesPage: React.FC = () => {
                       size="lg"
                       onClick={() => {
                         handleBuyBundle(selectedBundleData.id);
-                        setShowDetails(false);
+                        handleCloseDetails();
                       }}
                       className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-400 hover:to-pink-400"
                     >
@@ -373,8 +380,7 @@ export const BundlesPage: React.FC = () => {
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.1 }}
                         onClick={() => {
-                          window.location.hash = `product/${product.id}`;
-                          setShowDetails(false);
+                          navigate(paths.product(product.slug));
                         }}
                       >
                         <div className="w-16 h-16 rounded-lg overflow-hidden bg-white/10">
@@ -1,48 +1,81 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '../contexts/AppContext';
-import { paymentAPI } from '../services/api';
+import { paths } from '../routes';
+import { paymentAPI, userAPI } from '../services/api';
+import { addressProblem, isValidPinCode, normalizePhone } from '../services/addresses';
+import { formatDeliveryWindow } from '../services/shipping';
+import { bundleLineKey, toCartLineInputs } from '../services/cart';
+import { cartLineKey, formatVariant } from '../services/variants';
+import type {
+  CodEligibilityResponse,
+  OrderQuote,
+  PaymentIntent,
+  PaymentMethod,
+  SavedAddress,
+  ShippingAddress,
+  ShippingMethod,
+} from '../services/types';
+import { AddressFields } from '../components/AddressFields';
+import { PaymentAdapter } from '../components/payments/PaymentAdapter';
+import type { CheckoutMethod } from '../components/payments/types';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Card } from '../components/ui/card';
+import { Checkbox } from '../components/ui/checkbox';
+import { Badge } from '../components/ui/badge';
 import { Separator } from '../components/ui/separator';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../components/ui/dialog';
 import { toast } from 'sonner@2.0.3';
 import { 
   CreditCard, 
   Smartphone, 
+  Banknote,
   ShoppingBag, 
   MapPin, 
   Loader2,
   ChevronRight,
   Lock,
-  LogIn,
-  UserPlus
+  Tag,
+  Plus,
+  Truck,
+  X
 } from 'lucide-react';
 
-// Load Razorpay script
-const loadRazorpayScript = () => {
-  return new Promise((resolve) => {
-    const script = document.createElement('script');
-    script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-    script.onload = () => resolve(true);
-    script.onerror = () => resolve(false);
-    document.body.appendChild(script);
-  });
-};
+// A payment opened with the server, while its provider's UI is showing
+interface ActivePayment {
+  orderId: string;
+  intent: PaymentIntent;
+  method: CheckoutMethod;
+  upiLink?: string;
+}
 
 export default function CheckoutPage() {
-  const { cart, currentUser, clearCart, getProduct } = useApp();
+  const { cart, currentUser } = useApp();
+  const navigate = useNavigate();
   
-  const [paymentMethod, setPaymentMethod] = useState<'razorpay' | 'upi'>('razorpay');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('razorpay');
   const [loading, setLoading] = useState(false);
   const [upiId, setUpiId] = useState('');
-  const [razorpayLoaded, setRazorpayLoaded] = useState(false);
-  const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const [activePayment, setActivePayment] = useState<ActivePayment | null>(null);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>('standard');
+  const [shippingError, setShippingError] = useState<string | null>(null);
+  const [codEligibility, setCodEligibility] = useState<CodEligibilityResponse | null>(null);
+  // Idempotency key for the order being placed. Placing the same order again
+  // (after a network error or a dismissed payment) reuses it, so the server
+  // hands back the order it already created instead of making another.
+  const orderAttempt = useRef<{ request: string; key: string } | null>(null);
+  const submitting = useRef(false);
   
-  const [shippingAddress, setShippingAddress] = useState({
+  const newAddress = (): ShippingAddress => ({
     fullName: currentUser?.username || '',
+    phone: '',
     address: '',
     city: '',
     state: '',
@@ -50,54 +83,127 @@ export default function CheckoutPage() {
     country: 'India',
   });
 
-  // Load Razorpay script on component mount
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(newAddress);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  // The saved address being shipped to, or null while typing a new one
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [saveAddress, setSaveAddress] = useState(true);
+
+  const chooseAddress = (address: SavedAddress | null) => {
+    setSelectedAddressId(address?._id ?? null);
+    if (address) {
+      const { fullName, phone, address: street, city, state, zipCode, country } = address;
+      setShippingAddress({ fullName, phone, address: street, city, state, zipCode, country });
+    } else {
+      setShippingAddress(newAddress());
+    }
+  };
+
+  // Start from the default saved address
   useEffect(() => {
-    loadRazorpayScript().then((loaded) => {
-      setRazorpayLoaded(loaded);
-      if (!loaded) {
-        toast.error('Failed to load payment gateway');
-      }
-    });
+    userAPI.getAddresses()
+      .then(response => {
+        setSavedAddresses(response.addresses);
+        const preferred = response.addresses.find(address => address.isDefault) ?? response.addresses[0];
+        if (preferred) chooseAddress(preferred);
+      })
+      .catch(error => console.error('Failed to load addresses:', error));
   }, []);
 
   // Redirect if cart is empty
   useEffect(() => {
     if (cart.length === 0) {
       toast.error('Your cart is empty');
-      window.location.hash = 'home';
+      navigate(paths.home());
     }
   }, [cart]);
 
-  // Show login dialog if not logged in
+  // The server prices the cart; the summary shows exactly what it will charge
+  const orderLines = toCartLineInputs(cart);
+  const orderLinesKey = JSON.stringify(orderLines);
+
+  // Shipping is priced for the PIN code once it's complete
+  const pinCode = isValidPinCode(shippingAddress.zipCode) ? shippingAddress.zipCode : '';
+
   useEffect(() => {
-    if (!currentUser) {
-      setShowLoginDialog(true);
-    }
-  }, [currentUser]);
-
-  // Calculate cart totals
-  const subtotal = cart.reduce((sum, item) => {
-    const product = getProduct(item.productId);
-    return sum + (product ? product.price * item.quantity : 0);
-  }, 0);
-  const shipping = subtotal > 50 ? 0 : 10;
-  const tax = subtotal * 0.1;
-  const total = subtotal + shipping + tax;
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setShippingAddress({
-      ...shippingAddress,
-      [e.target.name]: e.target.value,
-    });
+    if (orderLines.length === 0) return;
+
+    let cancelled = false;
+    setQuoteError(null);
+    paymentAPI
+      .getQuote(orderLines, couponCode || undefined, pinCode ? { pinCode, shippingMethod } : {})
+      .then(response => {
+        if (cancelled) return;
+        setQuote(response.quote);
+        setCouponError(response.couponError ?? null);
+        setShippingError(response.shippingError ?? null);
+        // Falls back to standard where the chosen method isn't offered
+        if (response.quote.delivery) setShippingMethod(response.quote.delivery.method);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Quote error:', error);
+        setQuote(null);
+        setQuoteError(error instanceof Error ? error.message : 'Failed to calculate total');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderLinesKey, couponCode, pinCode, shippingMethod]);
+
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+    setCouponError(null);
+    setCouponCode(code);
   };
 
+  const handleRemoveCoupon = () => {
+    setCouponInput('');
+    setCouponCode('');
+    setCouponError(null);
+  };
+
+  // Only a code the quote actually applied is sent with the order
+  const appliedCouponCode = quote?.coupon?.code;
+
+  // Cash on delivery depends on the total and where it's going, so check
+  // again whenever either changes
+  useEffect(() => {
+    setCodEligibility(null);
+    if (!quote?.delivery) return;
+
+    let cancelled = false;
+    paymentAPI
+      .checkCodEligibility({
+        items: orderLines,
+        couponCode: appliedCouponCode,
+        shippingAddress,
+        shippingMethod,
+      })
+      .then(response => {
+        if (!cancelled) setCodEligibility(response);
+      })
+      .catch(error => console.error('COD eligibility error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quote?.total, appliedCouponCode, quote?.delivery?.pinCode]);
+
+  const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
   const validateForm = () => {
-    const required = ['fullName', 'address', 'city', 'state', 'zipCode', 'country'];
-    for (const field of required) {
-      if (!shippingAddress[field as keyof typeof shippingAddress]) {
-        toast.error(`Please fill in ${field.replace(/([A-Z])/g, ' $1').toLowerCase()}`);
-        return false;
-      }
+    const problem = addressProblem(shippingAddress);
+    if (problem) {
+      toast.error(problem);
+      return false;
+    }
+
+    if (!quote?.delivery) {
+      toast.error(shippingError ?? 'Delivery options are still loading');
+      return false;
     }
 
     if (paymentMethod === 'upi' && !upiId) {
@@ -108,185 +214,180 @@ export default function CheckoutPage() {
     return true;
   };
 
-  const handleRazorpayCheckout = async () => {
-    if (!validateForm()) return;
-    if (!razorpayLoaded) {
-      toast.error('Payment gateway not loaded. Please refresh the page.');
-      return;
+  // Add a newly typed address to the address book once, before the first
+  // attempt at placing the order. Failing to save doesn't stop the order.
+  const rememberAddress = async () => {
+    if (selectedAddressId || !saveAddress) return;
+    try {
+      const response = await userAPI.addAddress({
+        label: savedAddresses.length === 0 ? 'Home' : `Address ${savedAddresses.length + 1}`,
+        ...shippingAddress,
+        phone: shippingAddress.phone ?? '',
+      });
+      setSavedAddresses(response.addresses);
+      setSelectedAddressId(response.address._id);
+    } catch (error) {
+      console.error('Failed to save address:', error);
     }
+  };
+
+  const idempotencyKeyFor = (request: object) => {
+    const fingerprint = JSON.stringify(request);
+    if (orderAttempt.current?.request !== fingerprint) {
+      orderAttempt.current = { request: fingerprint, key: crypto.randomUUID() };
+    }
+    return orderAttempt.current.key;
+  };
+
+  const handleCardPayment = async () => {
 
     setLoading(true);
     try {
-      const items = cart.map(item => ({
-        productId: item.productId,
-        name: item.title,
-        quantity: item.quantity,
-        price: item.price,
-        image: item.image,
-      }));
-
-      const response = await paymentAPI.createRazorpayOrder({
-        items,
+      const request = {
+        items: orderLines,
         shippingAddress,
-      });
-
-      if (response.success && response.razorpayOrderId) {
-        // Initialize Razorpay checkout
-        const options = {
-          key: response.keyId,
-          amount: response.amount,
-          currency: response.currency,
-          name: 'Product Lab',
-          description: 'Order Payment',
-          order_id: response.razorpayOrderId,
-          handler: async function (razorpayResponse: any) {
-            try {
-              // Verify payment on backend
-              const verifyResponse = await paymentAPI.verifyRazorpayPayment({
-                razorpay_order_id: razorpayResponse.razorpay_order_id,
-                razorpay_payment_id: razorpayResponse.razorpay_payment_id,
-                razorpay_signature: razorpayResponse.razorpay_signature,
-                orderId: response.orderId,
-              });
-
-              if (verifyResponse.success) {
-                toast.success('Payment successful!');
-                clearCart();
-                navigate(`/checkout/success?order_id=${response.orderId}`);
-              } else {
-                toast.error('Payment verification failed');
-                setLoading(false);
-              }
-            } catch (error: any) {
-              console.error('Payment verification error:', error);
-              toast.error(error.message || 'Payment verification failed');
-              setLoading(false);
-            }
-          },
-          prefill: {
-            name: shippingAddress.fullName,
-            email: currentUser?.email || '',
-            contact: '',
-          },
-          notes: {
-            address: `${shippingAddress.address}, ${shippingAddress.city}`,
-          },
-          theme: {
-            color: '#06b6d4', // Cyan-500
-          },
-          modal: {
-            ondismiss: function () {
-              setLoading(false);
-              toast.error('Payment cancelled');
-            },
-          },
-        };
-
-        const razorpay = new (window as any).Razorpay(options);
-        razorpay.open();
-      }
-    } catch (error: any) {
-      console.error('Razorpay checkout error:', error);
-      toast.error(error.message || 'Failed to create order');
+        shippingMethod,
+        couponCode: appliedCouponCode,
+      };
+      const idempotencyKey = idempotencyKeyFor({ method: 'card', ...request });
+      const response = await paymentAPI.createPayment(request, idempotencyKey);
+
+      setActivePayment({ orderId: response.orderId, intent: response.intent, method: 'card' });
+    } catch (error) {
+      console.error('Payment error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create order');
       setLoading(false);
     }
   };
 
   const handleUpiPayment = async () => {
-    if (!validateForm()) return;
 
     setLoading(true);
     try {
-      const items = cart.map(item => ({
-        productId: item.productId,
-        name: item.title,
-        quantity: item.quantity,
-        price: item.price,
-        image: item.image,
-      }));
-
-      const response = await paymentAPI.createUpiPayment({
-        items,
+      const request = {
+        items: orderLines,
         shippingAddress,
+        shippingMethod,
+        couponCode: appliedCouponCode,
         upiVPA: upiId,
+      };
+      const idempotencyKey = idempotencyKeyFor({ method: 'upi', ...request });
+      const response = await paymentAPI.createUpiPayment(request, idempotencyKey);
+
+      setActivePayment({
+        orderId: response.orderId,
+        intent: response.intent,
+        method: 'upi',
+        upiLink: response.upiLink,
       });
-
-      if (response.success) {
-        toast.success('UPI payment initiated!');
-        // Navigate to UPI verification page
-        navigate(`/checkout/upi-verify?orderId=${response.orderId}&razorpayOrderId=${response.razorpayOrderId}&upiLink=${encodeURIComponent(response.upiLink)}`);
-      }
-    } catch (error: any) {
+    } catch (error) {
       console.error('UPI payment error:', error);
-      toast.error(error.message || 'Failed to create UPI payment');
+      toast.error(error instanceof Error ? error.message : 'Failed to create UPI payment');
       setLoading(false);
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleCodOrder = async () => {
+    if (!codEligibility?.eligible) {
+      toast.error(codEligibility?.reasons[0] ?? 'Enter your PIN code to check cash on delivery');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const request = {
+        items: orderLines,
+        shippingAddress,
+        shippingMethod,
+        couponCode: appliedCouponCode,
+      };
+      const idempotencyKey = idempotencyKeyFor({ method: 'cash_on_delivery', ...request });
+      const response = await paymentAPI.createCodOrder(request, idempotencyKey);
+
+      toast.success('Order placed!');
+      navigate(paths.checkoutSuccess({ order_id: response.orderId }));
+    } catch (error) {
+      console.error('COD order error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to place order');
+      setLoading(false);
+    }
+  };
+
+  // Outcomes reported by the provider's payment UI
+
+  const handlePaymentAuthorized = async (payload: Record<string, string>) => {
+    if (!activePayment) return;
+    const { orderId } = activePayment;
+    try {
+      await paymentAPI.verifyPayment({ orderId, payload });
+      toast.success('Payment successful!');
+      // The success page clears the cart once it has loaded the order
+      navigate(paths.checkoutSuccess({ order_id: orderId }));
+    } catch (error) {
+      console.error('Payment verification error:', error);
+      toast.error(error instanceof Error ? error.message : 'Payment verification failed');
+      orderAttempt.current = null;
+      setActivePayment(null);
+      setLoading(false);
+    }
+  };
+
+  // Confirmation will come by webhook; follow the order from its own page
+  const handlePaymentPending = () => {
+    if (!activePayment) return;
+    const { orderId, upiLink } = activePayment;
+    if (upiLink) {
+      toast.success('UPI payment initiated!');
+      navigate(paths.upiVerify({ orderId, upiLink }));
+    } else {
+      navigate(paths.checkoutSuccess({ order_id: orderId }));
+    }
+  };
+
+  // The failed order gave back its stock and coupon, so trying again places
+  // a new one
+  const handlePaymentFailed = (message: string) => {
+    orderAttempt.current = null;
+    toast.error(message);
+    setActivePayment(null);
+    setLoading(false);
+  };
+
+  const handlePaymentDismissed = () => {
+    toast.error('Payment cancelled');
+    setActivePayment(null);
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    if (loading || submitting.current || !validateForm()) return;
+    // `loading` is only set once the payment starts, so a second click
+    // while the address is saving would save it again
+    submitting.current = true;
+    try {
+      await rememberAddress();
+    } finally {
+      submitting.current = false;
+    }
+
     if (paymentMethod === 'razorpay') {
-      handleRazorpayCheckout();
-    } else {
+      handleCardPayment();
+    } else if (paymentMethod === 'upi') {
       handleUpiPayment();
+    } else {
+      handleCodOrder();
     }
   };
 
+  const codUnavailable = paymentMethod === 'cash_on_delivery' && !codEligibility?.eligible;
+
   if (cart.length === 0) {
     return null;
   }
 
   return (
     <div className="min-h-screen bg-background py-20">
-      {/* Login Required Dialog */}
-      <Dialog open={showLoginDialog && !currentUser} onOpenChange={setShowLoginDialog}>
-        <DialogContent className="glass-panel max-w-md">
-          <DialogHeader>
-            <DialogTitle className="text-2xl">Login Required</DialogTitle>
-            <DialogDescription className="text-muted-foreground">
-              You need to be logged in to proceed with checkout. Please login or create a new account to continue.
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4 mt-6">
-            <Button
-              className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 neon-glow-cyan"
-              onClick={() => {
-                setShowLoginDialog(false);
-                window.location.hash = 'login';
-              }}
-            >
-              <LogIn className="h-4 w-4 mr-2" />
-              Login to Continue
-            </Button>
-            
-            <Button
-              variant="outline"
-              className="w-full"
-              onClick={() => {
-                setShowLoginDialog(false);
-                window.location.hash = 'signup';
-              }}
-            >
-              <UserPlus className="h-4 w-4 mr-2" />
-              Create New Account
-            </Button>
-            
-            <Button
-              variant="ghost"
-              className="w-full"
-              onClick={() => {
-                setShowLoginDialog(false);
-                window.location.hash = 'home';
-              }}
-            >
-              Go Back to Home
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
-
       <div className="container max-w-7xl mx-auto px-4">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -317,74 +418,125 @@ export default function CheckoutPage() {
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
-                  <div>
-                    <Label htmlFor="fullName">Full Name</Label>
-                    <Input
-                      id="fullName"
-                      name="fullName"
-                      value={shippingAddress.fullName}
-                      onChange={handleInputChange}
-                      required
-                    />
-                  </div>
+                  {savedAddresses.length > 0 && (
+                    <div className="grid md:grid-cols-2 gap-3">
+                      {savedAddresses.map(address => (
+                        <div
+                          key={address._id}
+                          onClick={() => chooseAddress(address)}
+                          className={`p-4 rounded-xl border-2 cursor-pointer transition-all text-sm ${
+                            selectedAddressId === address._id
+                              ? 'border-cyan-500 bg-cyan-500/10 dark:bg-cyan-500/20'
+                              : 'border-border hover:border-cyan-500/50'
+                          }`}
+                        >
+                          <p className="flex items-center gap-2 font-medium">
+                            {address.label}
+                            {address.isDefault && (
+                              <Badge variant="outline" className="border-cyan-500/50 text-cyan-400">
+                                Default
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-muted-foreground">{address.fullName} · {address.phone}</p>
+                          <p className="text-muted-foreground line-clamp-2">
+                            {address.address}, {address.city}, {address.state} {address.zipCode}
+                          </p>
+                        </div>
+                      ))}
+                      <div
+                        onClick={() => chooseAddress(null)}
+                        className={`flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed cursor-pointer transition-all text-sm ${
+                          selectedAddressId === null
+                            ? 'border-cyan-500 bg-cyan-500/10 dark:bg-cyan-500/20'
+                            : 'border-border hover:border-cyan-500/50'
+                        }`}
+                      >
+                        <Plus className="w-4 h-4" />
+                        Use a new address
+                      </div>
+                    </div>
+                  )}
 
-                  <div>
-                    <Label htmlFor="address">Street Address</Label>
-                    <Input
-                      id="address"
-                      name="address"
-                      value={shippingAddress.address}
-                      onChange={handleInputChange}
-                      required
-                    />
-                  </div>
+                  {selectedAddressId === null && (
+                    <>
+                      <AddressFields value={shippingAddress} onChange={setShippingAddress} />
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="saveAddress"
+                          checked={saveAddress}
+                          onCheckedChange={checked => setSaveAddress(checked === true)}
+                        />
+                        <Label htmlFor="saveAddress">Save to my address book</Label>
+                      </div>
+                    </>
+                  )}
+                </form>
+              </Card>
+            </motion.div>
 
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="city">City</Label>
-                      <Input
-                        id="city"
-                        name="city"
-                        value={shippingAddress.city}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="state">State</Label>
-                      <Input
-                        id="state"
-                        name="state"
-                        value={shippingAddress.state}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
+            {/* Delivery */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.15 }}
+            >
+              <Card className="glass-panel p-6">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="p-2 rounded-lg bg-pink-500/10 dark:bg-pink-500/20">
+                    <Truck className="w-5 h-5 text-pink-600 dark:text-pink-400" />
                   </div>
+                  <h2 className="text-xl">Delivery</h2>
+                </div>
 
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="zipCode">ZIP Code</Label>
-                      <Input
-                        id="zipCode"
-                        name="zipCode"
-                        value={shippingAddress.zipCode}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="country">Country</Label>
-                      <Input
-                        id="country"
-                        name="country"
-                        value={shippingAddress.country}
-                        onChange={handleInputChange}
-                        required
-                      />
-                    </div>
+                {!pinCode ? (
+                  <p className="text-sm text-muted-foreground">
+                    Enter your 6-digit PIN code to see delivery options.
+                  </p>
+                ) : !quote?.delivery ? (
+                  shippingError ? (
+                    <p className="text-sm text-red-400">{shippingError}</p>
+                  ) : (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Checking delivery...
+                    </p>
+                  )
+                ) : (
+                  <div className="space-y-4">
+                    {quote.shippingOptions.map(option => (
+                      <div
+                        key={option.method}
+                        onClick={() => setShippingMethod(option.method)}
+                        className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                          quote.delivery?.method === option.method
+                            ? 'border-pink-500 bg-pink-500/10 dark:bg-pink-500/20'
+                            : 'border-border hover:border-pink-500/50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{option.label} Delivery</p>
+                            <p className="text-sm text-muted-foreground">
+                              Arrives {formatDeliveryWindow(option.estimate)}
+                            </p>
+                          </div>
+                          <span className={option.rate === 0 ? 'text-green-400' : ''}>
+                            {option.rate === 0 ? 'FREE' : formatAmount(option.rate)}
+                          </span>
+                        </div>
+                        {option.rate > 0 && option.freeShippingThreshold !== null && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Free on orders of {formatAmount(option.freeShippingThreshold)} or more
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">
+                      Shipping to {quote.delivery.zone} ({quote.delivery.pinCode})
+                    </p>
                   </div>
-                </form>
+                )}
               </Card>
             </motion.div>
 
@@ -461,6 +613,60 @@ export default function CheckoutPage() {
                       />
                     </motion.div>
                   )}
+
+                  {/* Cash on Delivery Option */}
+                  <div
+                    onClick={() => setPaymentMethod('cash_on_delivery')}
+                    className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                      paymentMethod === 'cash_on_delivery'
+                        ? 'border-amber-500 bg-amber-500/10 dark:bg-amber-500/20'
+                        : 'border-border hover:border-amber-500/50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 rounded-lg bg-amber-500/20">
+                        <Banknote className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+                      </div>
+                      <div>
+                        <p className="font-medium">Cash on Delivery</p>
+                        <p className="text-sm text-muted-foreground">
+                          {codEligibility?.eligible === false
+                            ? 'Not available for this order'
+                            : 'Pay the courier when your order arrives'}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {paymentMethod === 'cash_on_delivery' && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="pt-2 text-sm"
+                    >
+                      {!pinCode ? (
+                        <p className="text-muted-foreground">
+                          Enter your 6-digit PIN code to check cash on delivery.
+                        </p>
+                      ) : !quote?.delivery ? (
+                        <p className="text-red-400">{shippingError ?? 'Checking delivery...'}</p>
+                      ) : !codEligibility ? (
+                        <p className="flex items-center gap-2 text-muted-foreground">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Checking availability...
+                        </p>
+                      ) : codEligibility.eligible ? (
+                        <p className="text-green-400">Cash on delivery is available for this order.</p>
+                      ) : (
+                        <ul className="space-y-1 text-red-400">
+                          {codEligibility.reasons.map(reason => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </motion.div>
+                  )}
                 </div>
               </Card>
             </motion.div>
@@ -482,58 +688,159 @@ export default function CheckoutPage() {
                   <h2 className="text-xl">Order Summary</h2>
                 </div>
 
-                {/* Cart Items */}
-                <div className="space-y-3 mb-6">
-                  {cart.slice(0, 3).map((item) => (
-                    <div key={item.productId} className="flex gap-3">
-                      <img
-                        src={item.image}
-                        alt={item.title}
-                        className="w-16 h-16 rounded-lg object-cover"
-                      />
-                      <div className="flex-1">
-                        <p className="text-sm line-clamp-1">{item.title}</p>
-                        <p className="text-xs text-muted-foreground">Qty: {item.quantity}</p>
-                      </div>
-                      <p className="text-sm">₹{(item.price * item.quantity * 80).toFixed(2)}</p>
+                {!quote ? (
+                  <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                    {quoteError ? (
+                      <span className="text-red-400">{quoteError}</span>
+                    ) : (
+                      <>
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Calculating total...
+                      </>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    {/* Cart Items */}
+                    <div className="space-y-3 mb-6">
+                      {quote.items.slice(0, 3).map((item) => (
+                        <div
+                          key={item.bundleId ? bundleLineKey(item.bundleId) : cartLineKey(item.productId!, item.variant)}
+                          className="flex gap-3"
+                        >
+                          <img
+                            src={item.image}
+                            alt={item.name}
+                            className="w-16 h-16 rounded-lg object-cover"
+                          />
+                          <div className="flex-1">
+                            <p className="text-sm line-clamp-1">{item.name}</p>
+                            {item.bundleId && (
+                              <p className="text-xs text-purple-400">Bundle</p>
+                            )}
+                            {formatVariant(item.variant) && (
+                              <p className="text-xs text-cyan-400 capitalize">{formatVariant(item.variant)}</p>
+                            )}
+                            <p className="text-xs text-muted-foreground">Qty: {item.quantity}</p>
+                          </div>
+                          <p className="text-sm">{formatAmount(item.lineTotal)}</p>
+                        </div>
+                      ))}
+                      {quote.items.length > 3 && (
+                        <p className="text-sm text-muted-foreground text-center">
+                          +{quote.items.length - 3} more items
+                        </p>
+                      )}
                     </div>
-                  ))}
-                  {cart.length > 3 && (
-                    <p className="text-sm text-muted-foreground text-center">
-                      +{cart.length - 3} more items
-                    </p>
-                  )}
-                </div>
 
-                <Separator className="mb-6" />
+                    <Separator className="mb-6" />
+
+                    {/* Coupon */}
+                    <div className="mb-6">
+                      {quote.coupon ? (
+                        <div className="flex items-center justify-between p-3 rounded-lg border border-green-500/30 bg-green-500/10">
+                          <div className="flex items-center gap-2">
+                            <Tag className="w-4 h-4 text-green-400" />
+                            <div>
+                              <p className="text-sm">{quote.coupon.code}</p>
+                              {quote.coupon.description && (
+                                <p className="text-xs text-muted-foreground">{quote.coupon.description}</p>
+                              )}
+                            </div>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={handleRemoveCoupon}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <>
+                          <Label htmlFor="couponCode">Promo Code</Label>
+                          <div className="flex gap-2 mt-1">
+                            <Input
+                              id="couponCode"
+                              placeholder="Enter code"
+                              value={couponInput}
+                              onChange={(e) => setCouponInput(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  handleApplyCoupon();
+                                }
+                              }}
+                              className="uppercase"
+                            />
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={handleApplyCoupon}
+                              disabled={!couponInput.trim()}
+                            >
+                              Apply
+                            </Button>
+                          </div>
+                          {couponError && (
+                            <p className="text-xs text-red-400 mt-2">{couponError}</p>
+                          )}
+                        </>
+                      )}
+                    </div>
 
-                {/* Price Breakdown */}
-                <div className="space-y-3 mb-6">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Subtotal</span>
-                    <span>₹{(subtotal * 80).toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Shipping</span>
-                    <span>{shipping === 0 ? 'FREE' : `₹${(shipping * 80).toFixed(2)}`}</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Tax (10%)</span>
-                    <span>₹{(tax * 80).toFixed(2)}</span>
-                  </div>
-                  <Separator />
-                  <div className="flex justify-between">
-                    <span>Total</span>
-                    <span className="text-2xl bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
-                      ₹{(total * 80).toFixed(2)}
-                    </span>
-                  </div>
-                </div>
+                    {/* Price Breakdown */}
+                    <div className="space-y-3 mb-6">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Subtotal</span>
+                        <span>{formatAmount(quote.subtotal)}</span>
+                      </div>
+                      {quote.discount > 0 && (
+                        <div className="flex justify-between text-sm text-green-400">
+                          <span>Discount{quote.coupon && ` (${quote.coupon.code})`}</span>
+                          <span>-{formatAmount(quote.discount)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Shipping</span>
+                        <span>
+                          {!quote.delivery
+                            ? 'Enter PIN code'
+                            : quote.shipping === 0
+                              ? 'FREE'
+                              : formatAmount(quote.shipping)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Tax (10%)</span>
+                        <span>{formatAmount(quote.tax)}</span>
+                      </div>
+                      <Separator />
+                      <div className="flex justify-between">
+                        <span>Total</span>
+                        <span className="text-2xl bg-gradient-to-r from-cyan-400 via-purple-400 to-pink-400 bg-clip-text text-transparent">
+                          {formatAmount(quote.total)}
+                        </span>
+                      </div>
+                      {quote.savings > 0 && (
+                        <p className="text-xs text-green-400 text-right">
+                          You save {formatAmount(quote.savings)} on this order
+                        </p>
+                      )}
+                      {quote.delivery && (
+                        <p className="text-xs text-muted-foreground text-right">
+                          Arrives {formatDeliveryWindow(quote.delivery.estimate)}
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
 
                 {/* Submit Button */}
                 <Button
                   onClick={handleSubmit}
-                  disabled={loading || !razorpayLoaded}
+                  disabled={loading || !quote || codUnavailable}
                   className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white"
                   size="lg"
                 >
@@ -544,7 +851,7 @@ export default function CheckoutPage() {
                     </>
                   ) : (
                     <>
-                      Complete Payment
+                      {paymentMethod === 'cash_on_delivery' ? 'Place Order' : 'Complete Payment'}
                       <ChevronRight className="w-4 h-4 ml-2" />
                     </>
                   )}
@@ -559,6 +866,24 @@ export default function CheckoutPage() {
           </div>
         </div>
       </div>
+
+      {activePayment && (
+        <PaymentAdapter
+          intent={activePayment.intent}
+          orderId={activePayment.orderId}
+          method={activePayment.method}
+          customer={{
+            name: shippingAddress.fullName,
+            email: currentUser?.email || '',
+            contact: normalizePhone(shippingAddress.phone ?? ''),
+            address: `${shippingAddress.address}, ${shippingAddress.city}`,
+          }}
+          onAuthorized={handlePaymentAuthorized}
+          onPending={handlePaymentPending}
+          onFailed={handlePaymentFailed}
+          onDismiss={handlePaymentDismissed}
+        />
+      )}
     </div>
   );
 }
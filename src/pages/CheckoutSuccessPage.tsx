@@ -1,7 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'motion/react';
-import { paymentAPI, userAPI } from '../services/api';
+import { userAPI } from '../services/api';
+import { useApp } from '../contexts/AppContext';
+import { useOrderStatus } from '../hooks/useOrderStatus';
+import { paths } from '../routes';
+import { formatDeliveryWindow } from '../services/shipping';
+import type { ApiOrder } from '../services/types';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { toast } from 'sonner@2.0.3';
@@ -10,55 +15,61 @@ import { CheckCircle, Package, Loader2, Home, Receipt } from 'lucide-react';
 export default function CheckoutSuccessPage() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const [verifying, setVerifying] = useState(true);
-  const [order, setOrder] = useState<any>(null);
+  const { clearCart } = useApp();
+  const [order, setOrder] = useState<ApiOrder | null>(null);
 
-  const sessionId = searchParams.get('session_id');
   const orderId = searchParams.get('order_id');
 
+  // Razorpay's handler usually confirms the payment before we get here, but
+  // the webhook can be the one to settle it, so keep listening until it does
+  const { status, connection, error } = useOrderStatus(orderId);
+  const paymentStatus = status?.paymentStatus;
+  // Cash on delivery orders are confirmed unpaid
+  const isCod = status?.paymentMethod === 'cash_on_delivery';
+  const confirmed = paymentStatus === 'completed' || (isCod && paymentStatus === 'pending');
+
+  useEffect(() => {
+    if (!error) return;
+    toast.error(error);
+    navigate(paths.checkout());
+  }, [error, navigate]);
+
   useEffect(() => {
-    const verifyPayment = async () => {
-      if (!sessionId) {
-        toast.error('Invalid payment session');
-        navigate('/');
-        return;
-      }
-
-      try {
-        const response = await paymentAPI.verifyStripePayment(sessionId);
-        
-        if (response.success) {
-          setOrder(response.order);
-          toast.success('Payment successful!');
-          
-          // Clear the cart after successful payment
-          try {
-            await userAPI.clearCart();
-          } catch (error) {
-            console.error('Failed to clear cart:', error);
-          }
-        } else {
-          toast.error('Payment verification failed');
-          navigate('/checkout');
-        }
-      } catch (error: any) {
-        console.error('Payment verification error:', error);
-        toast.error(error.message || 'Failed to verify payment');
-        navigate('/checkout');
-      } finally {
-        setVerifying(false);
-      }
-    };
-
-    verifyPayment();
-  }, [sessionId, navigate]);
-
-  if (verifying) {
+    if (!orderId) {
+      toast.error('Invalid payment session');
+      navigate(paths.home());
+    }
+  }, [orderId, navigate]);
+
+  useEffect(() => {
+    if (!orderId || !paymentStatus || (paymentStatus === 'pending' && !isCod)) return;
+
+    if (!confirmed) {
+      toast.error('Payment verification failed');
+      navigate(paths.checkout());
+      return;
+    }
+
+    userAPI.getOrder(orderId)
+      .then(response => setOrder(response.order))
+      .catch(error => console.error('Failed to load order:', error));
+    if (!isCod) toast.success('Payment successful!');
+
+    // Clear the cart after successful payment
+    clearCart();
+  }, [orderId, paymentStatus]);
+
+  if (!confirmed) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950/20 to-slate-950 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="w-16 h-16 animate-spin text-cyan-400 mx-auto mb-4" />
-          <p className="text-xl text-slate-300">Verifying your payment...</p>
+          <p className="text-xl text-slate-300">
+            {paymentStatus === 'pending' ? 'Waiting for payment confirmation...' : 'Verifying your payment...'}
+          </p>
+          {connection === 'polling' && (
+            <p className="text-sm text-slate-500 mt-2">Connection interrupted, checking periodically</p>
+          )}
         </div>
       </div>
     );
@@ -91,7 +102,7 @@ export default function CheckoutSuccessPage() {
               transition={{ delay: 0.3 }}
               className="text-3xl mb-3 bg-gradient-to-r from-green-400 to-cyan-400 bg-clip-text text-transparent"
             >
-              Payment Successful!
+              {isCod ? 'Order Placed!' : 'Payment Successful!'}
             </motion.h1>
 
             <motion.p
@@ -100,7 +111,9 @@ export default function CheckoutSuccessPage() {
               transition={{ delay: 0.4 }}
               className="text-slate-400 mb-8"
             >
-              Thank you for your purchase. Your order has been confirmed.
+              {isCod
+                ? 'Thank you for your order. Please keep the amount ready for the courier.'
+                : 'Thank you for your purchase. Your order has been confirmed.'}
             </motion.p>
 
             {/* Order Details */}
@@ -129,13 +142,29 @@ export default function CheckoutSuccessPage() {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-slate-400">Payment Method</span>
-                    <span className="capitalize">{order.paymentMethod}</span>
+                    <span className="capitalize">
+                      {order.paymentMethod === 'cash_on_delivery' ? 'Cash on delivery' : order.paymentMethod}
+                    </span>
                   </div>
+                  {order.deliveryEstimate && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">
+                        <span className="capitalize">{order.shippingMethod}</span> delivery
+                      </span>
+                      <span>{formatDeliveryWindow(order.deliveryEstimate)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-slate-400">Payment Status</span>
-                    <span className="px-3 py-1 rounded-full bg-green-500/20 text-green-400 text-sm">
-                      {order.paymentStatus}
-                    </span>
+                    {order.paymentMethod === 'cash_on_delivery' && order.paymentStatus === 'pending' ? (
+                      <span className="px-3 py-1 rounded-full bg-amber-500/20 text-amber-400 text-sm">
+                        Due on delivery
+                      </span>
+                    ) : (
+                      <span className="px-3 py-1 rounded-full bg-green-500/20 text-green-400 text-sm">
+                        {order.paymentStatus}
+                      </span>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -149,14 +178,14 @@ export default function CheckoutSuccessPage() {
               className="flex flex-col sm:flex-row gap-4"
             >
               <Button
-                onClick={() => navigate('/profile/orders')}
+                onClick={() => navigate(paths.profile('orders'))}
                 className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
               >
                 <Receipt className="w-4 h-4 mr-2" />
                 View Order Details
               </Button>
               <Button
-                onClick={() => navigate('/')}
+                onClick={() => navigate(paths.home())}
                 variant="outline"
                 className="flex-1 border-slate-700 hover:bg-slate-800"
               >
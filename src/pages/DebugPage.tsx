@@ -1,13 +1,16 @@
 import React from 'react';
 import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '../contexts/AppContext';
+import { paths } from '../routes';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import { CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 
 export const DebugPage: React.FC = () => {
-  const { products, bundles, currentUser, cart, isLoading, isBackendConnected } = useApp();
+  const { products, bundles, currentUser, cart, isLoading, isBackendConnected, rejectedRecords } = useApp();
+  const navigate = useNavigate();
 
   return (
     <div className="min-h-screen pt-16 bg-background">
@@ -178,7 +181,7 @@ export const DebugPage: React.FC = () => {
                     <div className="space-y-1">
                       {cart.map((item, index) => (
                         <div key={index} className="flex justify-between text-sm">
-                          <span>Product ID: {item.productId}</span>
+                          <span>{item.bundleId ? `Bundle ID: ${item.bundleId}` : `Product ID: ${item.productId}`}</span>
                           <span>Qty: {item.quantity}</span>
                         </div>
                       ))}
@@ -188,6 +191,46 @@ export const DebugPage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Rejected Records */}
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {rejectedRecords.length === 0 ? (
+                  <CheckCircle className="h-5 w-5 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-5 w-5 text-yellow-500" />
+                )}
+                Rejected Records
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span>Count:</span>
+                  <Badge variant={rejectedRecords.length > 0 ? "destructive" : "outline"}>
+                    {rejectedRecords.length}
+                  </Badge>
+                </div>
+                {rejectedRecords.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    {rejectedRecords.map((record, index) => (
+                      <div key={index} className="text-sm border border-border rounded p-2">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant="outline" className="text-xs">{record.kind}</Badge>
+                          <span>{record.label || 'Unnamed'}</span>
+                          {record.id && (
+                            <span className="text-xs text-muted-foreground">{record.id}</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-red-500">{record.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Product Details */}
@@ -209,10 +252,10 @@ export const DebugPage: React.FC = () => {
           <Button onClick={() => window.location.reload()}>
             Reload Page
           </Button>
-          <Button variant="outline" onClick={() => window.location.hash = 'home'}>
+          <Button variant="outline" onClick={() => navigate(paths.home())}>
             Go to Home
           </Button>
-          <Button variant="outline" onClick={() => console.log({ products, bundles, currentUser, cart })}>
+          <Button variant="outline" onClick={() => console.log({ products, bundles, currentUser, cart, rejectedRecords })}>
             Log to Console
           </Button>
         </div>
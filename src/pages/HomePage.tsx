@@ -1,16 +1,32 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'motion/react';
+import { useNavigate } from 'react-router-dom';
 import { ArrowRight, Sparkles, Zap, Star, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import type { Product } from '../contexts/AppContext';
+import { paths } from '../routes';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { ProductCard } from '../components/ProductCard';
 import { ImageWithFallback } from '../components/figma/ImageWithFallback';
 
 export const HomePage: React.FC = () => {
-  const { products, bundles, isLoading } = useApp();
+  const { products: loadedProducts, bundles, isLoading, isBackendConnected, loadProducts } = useApp();
+  const navigate = useNavigate();
   const [currentWizardStep, setCurrentWizardStep] = useState(0);
   const [selectedVibe, setSelectedVibe] = useState<string | null>(null);
+  const [showcase, setShowcase] = useState<Product[]>([]);
+
+  // The featured products and recommendations come from the newest page of
+  // the catalog; offline they come from the mock products
+  useEffect(() => {
+    if (isLoading || !isBackendConnected) return;
+    loadProducts({ limit: 12 })
+      .then(setShowcase)
+      .catch(error => console.error('Failed to load featured products:', error));
+  }, [isLoading, isBackendConnected]);
+
+  const products = isBackendConnected ? showcase : loadedProducts;
 
   // Add defensive checks for data loading
   const featuredProducts = Array.isArray(products) ? products.slice(0, 6) : [];
@@ -208,7 +224,7 @@ export const HomePage: React.FC = () => {
               <Button
                 size="lg"
                 className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 neon-glow-cyan"
-                onClick={() => window.location.hash = 'products'}
+                onClick={() => navigate(paths.products())}
               >
                 <Zap className="h-5 w-5 mr-2" />
                 Shop Now
@@ -218,7 +234,7 @@ export const HomePage: React.FC = () => {
                 size="lg"
                 variant="outline"
                 className="border-cyan-400 text-cyan-400 hover:bg-cyan-400/10"
-                onClick={() => window.location.hash = 'products'}
+                onClick={() => navigate(paths.products())}
               >
                 Explore Collections
               </Button>
@@ -264,7 +280,7 @@ export const HomePage: React.FC = () => {
                 viewport={{ once: true }}
                 transition={{ delay: index * 0.1 }}
                 whileHover={{ y: -10 }}
-                onClick={() => window.location.hash = 'products'}
+                onClick={() => navigate(paths.products())}
               >
                 <div className="relative aspect-square overflow-hidden">
                   <ImageWithFallback
@@ -385,7 +401,7 @@ export const HomePage: React.FC = () => {
                         <div key={product.id} className="scale-90">
                           <ProductCard 
                             product={product}
-                            onViewDetails={(productId) => window.location.hash = `product/${productId}`}
+                            onViewDetails={(slug) => navigate(paths.product(slug))}
                           />
                         </div>
                       ))}
@@ -396,7 +412,7 @@ export const HomePage: React.FC = () => {
                         We're loading your personalized recommendations...
                       </p>
                       <Button
-                        onClick={() => window.location.hash = 'products'}
+                        onClick={() => navigate(paths.products())}
                         variant="outline"
                         className="border-cyan-400 text-cyan-400 hover:bg-cyan-400/10"
                       >
@@ -454,7 +470,7 @@ export const HomePage: React.FC = () => {
             <Button 
               variant="outline" 
               className="border-cyan-400 text-cyan-400 hover:bg-cyan-400/10"
-              onClick={() => window.location.hash = 'products'}
+              onClick={() => navigate(paths.products())}
             >
               View All
               <ArrowRight className="h-4 w-4 ml-2" />
@@ -472,7 +488,7 @@ export const HomePage: React.FC = () => {
               >
                 <ProductCard 
                   product={product}
-                  onViewDetails={(productId) => window.location.hash = `product/${productId}`}
+                  onViewDetails={(slug) => navigate(paths.product(slug))}
                 />
               </motion.div>
             ))}
@@ -505,7 +521,7 @@ export const HomePage: React.FC = () => {
                 viewport={{ once: true }}
                 transition={{ delay: index * 0.1 }}
                 whileHover={{ y: -10 }}
-                onClick={() => window.location.hash = 'bundles'}
+                onClick={() => navigate(paths.bundles())}
               >
                 <div className="relative aspect-video overflow-hidden">
                   <ImageWithFallback
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { motion } from 'motion/react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { LogIn, Eye, EyeOff, Zap, ArrowLeft } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -9,10 +10,15 @@ import { Checkbox } from '../components/ui/checkbox';
 import { Separator } from '../components/ui/separator';
 import { authAPI } from '../services/api';
 import { useApp } from '../contexts/AppContext';
+import { paths, safeReturnTo } from '../routes';
 import { toast } from 'sonner@2.0.3';
 
 export const LoginPage: React.FC = () => {
   const { refreshAuth } = useApp();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set by the route guard when an anonymous visitor hits a protected page
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -20,7 +26,9 @@ export const LoginPage: React.FC = () => {
   });
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState(
+    searchParams.get('error') === 'auth_failed' ? 'Google sign-in failed. Please try again.' : ''
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,16 +46,16 @@ export const LoginPage: React.FC = () => {
         // Refresh auth state without reload
         await refreshAuth();
         
-        // Redirect to home
-        window.location.hash = 'home';
+        // Send the user back to where they were headed
+        navigate(returnTo, { replace: true });
       } else {
         setError(response.message || 'Login failed');
         toast.error('Login failed', {
           description: response.message || 'Please check your credentials'
         });
       }
-    } catch (err: any) {
-      const errorMessage = err.message || 'Unable to connect to server';
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unable to connect to server';
       setError(errorMessage);
       toast.error('Login failed', {
         description: errorMessage
@@ -59,7 +67,7 @@ export const LoginPage: React.FC = () => {
 
   const handleGoogleLogin = () => {
     // Redirect to Google OAuth
-    window.location.href = authAPI.getGoogleLoginUrl();
+    window.location.href = authAPI.getGoogleLoginUrl(returnTo);
   };
 
   const handleInputChange = (field: string, value: string | boolean) => {
@@ -279,7 +287,7 @@ export const LoginPage: React.FC = () => {
                   <Button
                     variant="link"
                     className="p-0 h-auto text-cyan-400 hover:text-cyan-300"
-                    onClick={() => window.location.hash = 'signup'}
+                    onClick={() => navigate(paths.signup({ returnTo }))}
                   >
                     Sign up here
                   </Button>
@@ -1,23 +1,64 @@
 import React, { useState, useEffect } from 'react';
 import { motion, useScroll, useTransform } from 'motion/react';
-import { ArrowLeft, ShoppingCart, Heart, Share2, Star, ChevronDown } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Heart, Share2, Star, ChevronDown, BadgeCheck, ThumbsUp, Pencil, Trash2 } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useApp } from '../contexts/AppContext';
+import type { ProductReview } from '../contexts/AppContext';
+import { paths } from '../routes';
+import { resolveVariant } from '../services/variants';
+import { stockLabel, stockState } from '../services/stock';
+import type { ReviewSort, SaveReviewRequest } from '../services/types';
+import { useProductReviews } from '../hooks/useProductReviews';
+import { ReviewForm } from '../components/ReviewForm';
+import { ReviewReplies } from '../components/ReviewReplies';
+import { DeliveryCheck } from '../components/DeliveryCheck';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Separator } from '../components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '../components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { ImageWithFallback } from '../components/figma/ImageWithFallback';
+import { toast } from 'sonner@2.0.3';
 
 interface ProductStoryPageProps {
-  productId: string;
+  slug: string;
   onBack: () => void;
 }
 
-export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, onBack }) => {
-  const { getProduct, addToCart, products, isLoading } = useApp();
-  const [selectedVariant, setSelectedVariant] = useState<any>({});
+export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ slug, onBack }) => {
+  const { getProductBySlug, loadProduct, addToCart, isLoading, currentUser, isInWishlist, toggleWishlist } = useApp();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [selectedVariant, setSelectedVariant] = useState<Record<string, string>>({});
   const [currentSection, setCurrentSection] = useState(0);
-  const product = getProduct(productId);
+  const [reviewRating, setReviewRating] = useState<number | undefined>();
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [reviewFormOpen, setReviewFormOpen] = useState(false);
+  const [editingReview, setEditingReview] = useState<ProductReview | undefined>();
+  const product = getProductBySlug(slug);
+  const reviews = useProductReviews(product, { rating: reviewRating, sort: reviewSort });
+  const [isProductLoading, setIsProductLoading] = useState(!product);
+
+  // Fetch the product unless another page already loaded it
+  useEffect(() => {
+    if (isLoading) return;
+    if (getProductBySlug(slug)) {
+      setIsProductLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsProductLoading(true);
+    loadProduct(slug)
+      .catch(error => console.error('Failed to load product:', error))
+      .finally(() => {
+        if (!cancelled) setIsProductLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, isLoading]);
 
   const { scrollYProgress } = useScroll();
   const headerOpacity = useTransform(scrollYProgress, [0, 0.2], [1, 0.8]);
@@ -43,8 +84,8 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  // Show loading state while products are being fetched
-  if (isLoading) {
+  // Show loading state while the product is being fetched
+  if (isLoading || (isProductLoading && !product)) {
     return (
       <div className="min-h-screen pt-16 flex items-center justify-center">
         <motion.div
@@ -64,19 +105,18 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
   }
 
   if (!product) {
-    console.log('Product not found. ID:', productId);
-    console.log('Available products:', products.map(p => p.id));
+    console.log('Product not found. Slug:', slug);
     return (
       <div className="min-h-screen pt-16 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto px-4">
           <h2 className="text-2xl mb-4">Product not found</h2>
           <p className="text-muted-foreground mb-6">
             The product you're looking for doesn't exist or has been removed.
-            {productId && <span className="block mt-2 text-sm">Product ID: {productId}</span>}
+            {slug && <span className="block mt-2 text-sm">Product: {slug}</span>}
           </p>
           <div className="flex gap-4 justify-center">
             <Button onClick={onBack}>Go Back</Button>
-            <Button variant="outline" onClick={() => window.location.hash = 'products'}>
+            <Button variant="outline" onClick={() => navigate(paths.products())}>
               Browse Products
             </Button>
           </div>
@@ -87,7 +127,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
 
   const sections = [
     { id: 'hero', title: 'Overview' },
-    ...(product.story?.sections || []).map((section: any, index: number) => ({
+    ...(product.story?.sections || []).map((section, index) => ({
       id: `section-${index}`,
       title: section.title
     })),
@@ -96,13 +136,77 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
 
   const formatPrice = (price: number) => `$${price.toLocaleString()}`;
 
+  // Price and stock follow the selected combination of options
+  const selection = resolveVariant(product, selectedVariant);
+  const isSelectionSoldOut = stockState(selection.stock) === 'out';
+  const availability = stockLabel(selection.stock);
+  const isSaved = isInWishlist(product.id);
+
   const handleAddToCart = () => {
+    const missingOption = Object.keys(product.variants).find(key => !selectedVariant[key]);
+    if (missingOption) {
+      toast.error(`Please choose ${missingOption.replace('-', ' ')}`);
+      return;
+    }
+    if (isSelectionSoldOut) {
+      toast.error('This option is sold out');
+      return;
+    }
     addToCart(product.id, 1, selectedVariant);
   };
 
-  const averageRating = product.reviews.length > 0 
-    ? product.reviews.reduce((sum, review) => sum + review.rating, 0) / product.reviews.length
-    : 0;
+  const goToLogin = () => {
+    navigate(paths.login({ returnTo: `${location.pathname}${location.search}` }));
+  };
+
+  const handleToggleWishlist = () => {
+    if (!currentUser) {
+      goToLogin();
+      return;
+    }
+    toggleWishlist(product.id);
+  };
+
+  const averageRating = reviews.summary.average;
+  const reviewCount = reviews.summary.count;
+
+  const openReviewForm = (review?: ProductReview) => {
+    if (!currentUser) {
+      goToLogin();
+      return;
+    }
+    setEditingReview(review);
+    setReviewFormOpen(true);
+  };
+
+  const handleSaveReview = async (data: SaveReviewRequest) => {
+    await reviews.saveReview(data, editingReview);
+    toast.success(editingReview ? 'Review updated' : 'Thanks for your review!');
+    setReviewFormOpen(false);
+    setEditingReview(undefined);
+  };
+
+  const handleDeleteReview = async (review: ProductReview) => {
+    if (!window.confirm('Delete your review?')) return;
+    try {
+      await reviews.deleteReview(review);
+      toast.success('Review deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete review');
+    }
+  };
+
+  const handleHelpful = async (review: ProductReview) => {
+    if (!currentUser) {
+      toast.error('Log in to vote on reviews');
+      return;
+    }
+    try {
+      await reviews.toggleHelpful(review);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record vote');
+    }
+  };
 
   return (
     <div className="min-h-screen">
@@ -128,6 +232,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
               </span>
               <Button
                 onClick={handleAddToCart}
+                disabled={isSelectionSoldOut}
                 className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
               >
                 <ShoppingCart className="h-4 w-4 mr-2" />
@@ -222,7 +327,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
             </p>
 
             {/* Rating */}
-            {product.reviews.length > 0 && (
+            {reviewCount > 0 && (
               <div className="flex items-center space-x-4">
                 <div className="flex items-center space-x-1">
                   {[...Array(5)].map((_, i) => (
@@ -237,7 +342,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                   ))}
                 </div>
                 <span className="text-muted-foreground">
-                  {averageRating.toFixed(1)} ({product.reviews.length} reviews)
+                  {averageRating.toFixed(1)} ({reviewCount} reviews)
                 </span>
               </div>
             )}
@@ -248,8 +353,16 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
               animate={{ scale: [1, 1.05, 1] }}
               transition={{ duration: 2, repeat: Infinity }}
             >
-              {formatPrice(product.price)}
+              {formatPrice(selection.price)}
             </motion.div>
+            {availability && (
+              <Badge
+                variant={isSelectionSoldOut ? 'destructive' : 'secondary'}
+                className={isSelectionSoldOut ? undefined : 'bg-orange-500/20 text-orange-400 border-orange-400/30'}
+              >
+                {availability}
+              </Badge>
+            )}
 
             {/* Variants */}
             {product.variants && Object.keys(product.variants).length > 0 && (
@@ -260,7 +373,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                       {key.replace('-', ' ')}
                     </label>
                     <div className="flex flex-wrap gap-2">
-                      {(values as string[]).map((value) => (
+                      {values.map((value) => (
                         <motion.button
                           key={value}
                           className={`px-4 py-2 rounded-lg border transition-colors ${
@@ -286,6 +399,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
               <Button
                 size="lg"
                 onClick={handleAddToCart}
+                disabled={isSelectionSoldOut}
                 className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 neon-glow-cyan"
               >
                 <motion.div
@@ -294,17 +408,19 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                   transition={{ duration: 2, repeat: Infinity }}
                 >
                   <ShoppingCart className="h-5 w-5" />
-                  <span>Add to Cart</span>
+                  <span>{isSelectionSoldOut ? 'Out of Stock' : 'Add to Cart'}</span>
                 </motion.div>
               </Button>
               
               <Button
                 variant="outline"
                 size="lg"
+                aria-pressed={isSaved}
+                onClick={handleToggleWishlist}
                 className="border-white/20 hover:bg-white/10"
               >
-                <Heart className="h-5 w-5 mr-2" />
-                Wishlist
+                <Heart className={`h-5 w-5 mr-2 ${isSaved ? 'fill-current text-pink-500' : ''}`} />
+                {isSaved ? 'Saved' : 'Wishlist'}
               </Button>
               
               <Button
@@ -315,6 +431,8 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                 <Share2 className="h-5 w-5" />
               </Button>
             </div>
+
+            <DeliveryCheck item={{ productId: product.id, variant: selectedVariant, quantity: 1 }} />
           </motion.div>
         </div>
 
@@ -329,7 +447,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
       </motion.section>
 
       {/* Story Sections */}
-      {product.story?.sections.map((section: any, index: number) => (
+      {product.story?.sections.map((section, index) => (
         <motion.section
           key={index}
           data-section
@@ -372,22 +490,22 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
       ))}
 
       {/* Reviews Section */}
-      {product.reviews.length > 0 && (
-        <motion.section
-          data-section
-          className="py-24 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-orange-900/10"
-          initial={{ opacity: 0 }}
-          whileInView={{ opacity: 1 }}
-          viewport={{ once: true }}
-        >
-          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-            <motion.div
-              className="text-center mb-16"
-              initial={{ opacity: 0, y: 20 }}
-              whileInView={{ opacity: 1, y: 0 }}
-              viewport={{ once: true }}
-            >
-              <h2 className="text-3xl md:text-4xl mb-4">Customer Reviews</h2>
+      <motion.section
+        data-section
+        className="py-24 bg-gradient-to-br from-purple-900/10 via-pink-900/10 to-orange-900/10"
+        initial={{ opacity: 0 }}
+        whileInView={{ opacity: 1 }}
+        viewport={{ once: true }}
+      >
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <motion.div
+            className="text-center mb-12"
+            initial={{ opacity: 0, y: 20 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true }}
+          >
+            <h2 className="text-3xl md:text-4xl mb-4">Customer Reviews</h2>
+            {reviewCount > 0 ? (
               <div className="flex items-center justify-center space-x-4">
                 <div className="flex items-center space-x-1">
                   {[...Array(5)].map((_, i) => (
@@ -405,20 +523,101 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                   {averageRating.toFixed(1)} out of 5
                 </span>
                 <span className="text-muted-foreground">
-                  ({product.reviews.length} reviews)
+                  ({reviewCount} reviews)
                 </span>
               </div>
-            </motion.div>
+            ) : (
+              <p className="text-muted-foreground">No reviews yet</p>
+            )}
+          </motion.div>
+
+          {/* Rating Breakdown - click a row to show only those reviews */}
+          {reviewCount > 0 && (
+            <div className="glass-panel rounded-xl p-6 mb-8 space-y-2">
+              {[5, 4, 3, 2, 1].map(stars => {
+                const count = reviews.summary.distribution[stars] || 0;
+                const isSelected = reviewRating === stars;
+                return (
+                  <button
+                    key={stars}
+                    onClick={() => setReviewRating(isSelected ? undefined : stars)}
+                    disabled={count === 0 && !isSelected}
+                    className={`w-full flex items-center gap-3 text-sm rounded-lg px-2 py-1 transition-colors disabled:opacity-40 ${
+                      isSelected ? 'bg-white/10' : 'hover:bg-white/5'
+                    }`}
+                  >
+                    <span className="w-12 text-left">{stars} star</span>
+                    <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+                      <div
+                        className="h-full bg-yellow-400"
+                        style={{ width: `${(count / reviewCount) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right text-muted-foreground">{count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
 
-            <div className="space-y-6">
-              {product.reviews.map((review, index) => (
+          {/* Controls */}
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-2">
+              <Select value={reviewSort} onValueChange={(value) => setReviewSort(value as ReviewSort)}>
+                <SelectTrigger className="w-[180px] bg-white/5 border-white/20">
+                  <SelectValue placeholder="Sort reviews..." />
+                </SelectTrigger>
+                <SelectContent className="glass-panel border-white/20">
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="oldest">Oldest</SelectItem>
+                  <SelectItem value="highest">Highest rated</SelectItem>
+                  <SelectItem value="lowest">Lowest rated</SelectItem>
+                  <SelectItem value="helpful">Most helpful</SelectItem>
+                </SelectContent>
+              </Select>
+              {reviewRating && (
+                <Button variant="ghost" size="sm" onClick={() => setReviewRating(undefined)}>
+                  Show all ratings
+                </Button>
+              )}
+            </div>
+            {reviews.isRemote && !reviewFormOpen && (
+              <Button
+                variant="outline"
+                onClick={() => openReviewForm()}
+                className="border-white/20 hover:bg-white/10"
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Write a review
+              </Button>
+            )}
+          </div>
+
+          {reviewFormOpen && (
+            <div className="mb-8">
+              <ReviewForm
+                key={editingReview?.id ?? 'new'}
+                initial={editingReview}
+                onSubmit={handleSaveReview}
+                onCancel={() => {
+                  setReviewFormOpen(false);
+                  setEditingReview(undefined);
+                }}
+              />
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {reviews.reviews.map((review, index) => {
+              const isOwn = Boolean(currentUser && review.userId === currentUser.id);
+              return (
                 <motion.div
                   key={review.id}
                   className="glass-panel rounded-xl p-6"
                   initial={{ opacity: 0, y: 20 }}
                   whileInView={{ opacity: 1, y: 0 }}
                   viewport={{ once: true }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: (index % 10) * 0.1 }}
                 >
                   <div className="flex items-start space-x-4">
                     <Avatar className="h-12 w-12">
@@ -427,7 +626,15 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                     </Avatar>
                     <div className="flex-1">
                       <div className="flex items-center justify-between mb-2">
-                        <h4>{review.user}</h4>
+                        <div className="flex items-center gap-2">
+                          <h4>{review.user}</h4>
+                          {review.verifiedPurchase && (
+                            <Badge variant="secondary" className="bg-green-500/20 text-green-400">
+                              <BadgeCheck className="h-3 w-3 mr-1" />
+                              Verified purchase
+                            </Badge>
+                          )}
+                        </div>
                         <div className="flex items-center space-x-1">
                           {[...Array(5)].map((_, i) => (
                             <Star
@@ -441,15 +648,81 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
                           ))}
                         </div>
                       </div>
+                      {review.title && <h5 className="mb-1">{review.title}</h5>}
                       <p className="text-muted-foreground">{review.comment}</p>
+
+                      {review.photos && review.photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                          {review.photos.map(photo => (
+                            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                              <ImageWithFallback
+                                src={photo}
+                                alt={`Photo from ${review.user}`}
+                                className="h-20 w-20 rounded-lg object-cover"
+                              />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      {reviews.isRemote && (
+                        <div className="flex items-center gap-4 mt-4 text-sm text-muted-foreground">
+                          {review.createdAt && (
+                            <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+                          )}
+                          {isOwn ? (
+                            <>
+                              <button onClick={() => openReviewForm(review)} className="flex items-center hover:text-foreground">
+                                <Pencil className="h-4 w-4 mr-1" />
+                                Edit
+                              </button>
+                              <button onClick={() => handleDeleteReview(review)} className="flex items-center hover:text-red-400">
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => handleHelpful(review)}
+                              className={`flex items-center hover:text-foreground ${review.votedHelpful ? 'text-cyan-400' : ''}`}
+                            >
+                              <ThumbsUp className="h-4 w-4 mr-1" />
+                              Helpful ({review.helpfulCount ?? 0})
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {reviews.isRemote && (
+                        <ReviewReplies
+                          review={review}
+                          currentUserId={currentUser?.id}
+                          onLoginRequired={goToLogin}
+                          onReply={comment => reviews.addReply(review, comment)}
+                          onDeleteReply={reply => reviews.deleteReply(review, reply)}
+                        />
+                      )}
                     </div>
                   </div>
                 </motion.div>
-              ))}
-            </div>
+              );
+            })}
           </div>
-        </motion.section>
-      )}
+
+          {reviews.hasMore && (
+            <div className="flex justify-center mt-8">
+              <Button
+                variant="outline"
+                onClick={reviews.loadMore}
+                disabled={reviews.isLoading}
+                className="border-white/20 hover:bg-white/10"
+              >
+                {reviews.isLoading ? 'Loading...' : 'More reviews'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </motion.section>
 
       {/* Fixed Bottom CTA */}
       <motion.div
@@ -466,6 +739,7 @@ export const ProductStoryPage: React.FC<ProductStoryPageProps> = ({ productId, o
             </div>
             <Button
               onClick={handleAddToCart}
+              disabled={isSelectionSoldOut}
               className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
             >
               <ShoppingCart className="h-4 w-4 mr-2" />
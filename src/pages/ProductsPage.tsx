@@ -1,8 +1,24 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Filter, Grid, List, Search, SlidersHorizontal, X } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Bookmark, Filter, Grid, List, SlidersHorizontal, X } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import { paths } from '../routes';
 import { ProductCard } from '../components/ProductCard';
+import { SearchBox } from '../components/SearchBox';
+import { userAPI } from '../services/api';
+import { stockState } from '../services/stock';
+import {
+  DEFAULT_FILTERS,
+  MAX_PRICE,
+  countActiveFilters,
+  filtersFromParams,
+  filtersToParams,
+} from '../services/productFilters';
+import type { ProductFilters, ProductSort, ViewMode } from '../services/productFilters';
+import type { FilterPreset, SearchSort } from '../services/types';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { SEARCH_PAGE_SIZE, useProductSearch } from '../hooks/useProductSearch';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Badge } from '../components/ui/badge';
@@ -10,43 +26,157 @@ import { Checkbox } from '../components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Slider } from '../components/ui/slider';
 import { Separator } from '../components/ui/separator';
+import { toast } from 'sonner@2.0.3';
+
+// The client-side "trending" sort is by review count; the server ranks by rating
+const SERVER_SORTS: Record<ProductSort, SearchSort> = {
+  relevance: 'relevance',
+  newest: 'newest',
+  trending: 'rating',
+  'price-low': 'price-low',
+  'price-high': 'price-high',
+  title: 'title',
+};
 
 export const ProductsPage: React.FC = () => {
-  const { products, searchQuery, setSearchQuery, isLoading } = useApp();
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 5000]);
-  const [sortBy, setSortBy] = useState<string>('newest');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [showFilters, setShowFilters] = useState(false);
-
-  // Get unique categories and tags
+  const { products, searchQuery, setSearchQuery, isLoading, isBackendConnected, currentUser } = useApp();
+  const navigate = useNavigate();
+
+  // Filters live in the URL, so views can be shared and back/forward steps
+  // through filter changes
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const updateFilters = (changes: Partial<ProductFilters>, options?: { replace?: boolean }) => {
+    setSearchParams(filtersToParams({ ...filters, ...changes }), options);
+  };
+
+  const { categories: selectedCategories, tags: selectedTags, priceRange, inStock: inStockOnly, sort: sortBy, view: viewMode } = filters;
+  const setSortBy = (sort: string) => updateFilters({ sort: sort as ProductSort });
+  const setViewMode = (view: ViewMode) => updateFilters({ view });
+  const setPriceRange = (range: [number, number]) => updateFilters({ priceRange: range });
+  const setInStockOnly = (inStock: boolean) => updateFilters({ inStock });
+
+  // The slider moves freely and only commits to the URL when released
+  const [priceDraft, setPriceDraft] = useState(priceRange);
+  useEffect(() => setPriceDraft(priceRange), [priceRange[0], priceRange[1]]);
+
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filters) > 0);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const debouncedQuery = useDebouncedValue(searchQuery.trim(), 300);
+
+  // The text query is shared with the navbar through AppContext. URL changes
+  // (links, back/forward) are copied into the context; typing is copied into
+  // the URL once it settles.
+  const seenUrlQuery = useRef<string | null>(null);
+  const pendingUrlQuery = useRef<string | null>(null);
+
+  useEffect(() => {
+    const isFirst = seenUrlQuery.current === null;
+    seenUrlQuery.current = filters.q;
+    // Arriving without a query keeps whatever was typed elsewhere
+    if (isFirst && !filters.q) return;
+    if (filters.q !== searchQuery.trim()) {
+      pendingUrlQuery.current = filters.q;
+      setSearchQuery(filters.q);
+    }
+  }, [filters.q]);
+
+  useEffect(() => {
+    // Wait for the debounced value to catch up with a query taken from the URL
+    if (pendingUrlQuery.current !== null) {
+      if (debouncedQuery === pendingUrlQuery.current) pendingUrlQuery.current = null;
+      return;
+    }
+    if (debouncedQuery === filters.q) return;
+    // Refining a search replaces its history entry rather than adding one
+    updateFilters({ q: debouncedQuery }, { replace: Boolean(filters.q) });
+  }, [debouncedQuery]);
+
+  useEffect(() => {
+    if (!currentUser || !isBackendConnected) {
+      setPresets([]);
+      return;
+    }
+
+    userAPI
+      .getFilterPresets()
+      .then(response => setPresets(response.presets))
+      .catch(error => console.error('Failed to load filter presets:', error));
+  }, [currentUser, isBackendConnected]);
+
+  // With a backend, filtering, ranking and facet counts come from the search
+  // endpoint a page at a time; otherwise everything below filters the loaded
+  // products
+  const search = useProductSearch(
+    isBackendConnected
+      ? {
+          q: filters.q,
+          categories: selectedCategories,
+          tags: selectedTags,
+          minPrice: priceRange[0] > 0 ? priceRange[0] : undefined,
+          maxPrice: priceRange[1] < MAX_PRICE ? priceRange[1] : undefined,
+          inStock: inStockOnly || undefined,
+          sort: SERVER_SORTS[sortBy],
+        }
+      : null
+  );
+  const searchResults = search.failed ? null : search.results;
+  const { hasMore, loadMore } = search;
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Infinite scroll: fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  // Without a backend the loaded products are the whole mock catalog and are
+  // filtered here; with one they're only the products other pages needed
+  const localProducts = useMemo(() => (isBackendConnected ? [] : products), [isBackendConnected, products]);
+
+  // Categories and tags with their counts come from the search facets when
+  // available so they reflect the whole catalog, the current query and other
+  // filters. Selected ones stay listed even with no matches, so they can be
+  // cleared.
   const categories = useMemo(() => {
-    if (!Array.isArray(products)) return [];
-    const cats = [...new Set(products.map(p => p.category))];
+    const facetCounts = searchResults && new Map(searchResults.facets.categories.map(f => [f.value, f.count]));
+    const cats = facetCounts
+      ? [...new Set([...facetCounts.keys(), ...selectedCategories])]
+      : [...new Set(localProducts.map(p => p.category))];
     return cats.map(cat => ({
       id: cat,
       name: cat.charAt(0).toUpperCase() + cat.slice(1),
-      count: products.filter(p => p.category === cat).length
+      count: facetCounts ? facetCounts.get(cat) ?? 0 : localProducts.filter(p => p.category === cat).length
     }));
-  }, [products]);
+  }, [localProducts, searchResults, selectedCategories]);
 
   const tags = useMemo(() => {
-    if (!Array.isArray(products)) return [];
-    const allTags = products.flatMap(p => p.tags);
-    const uniqueTags = [...new Set(allTags)];
+    const facetCounts = searchResults && new Map(searchResults.facets.tags.map(f => [f.value, f.count]));
+    const uniqueTags = facetCounts
+      ? [...new Set([...facetCounts.keys(), ...selectedTags])]
+      : [...new Set(localProducts.flatMap(p => p.tags))];
     return uniqueTags.map(tag => ({
       id: tag,
       name: tag.charAt(0).toUpperCase() + tag.slice(1),
-      count: products.filter(p => p.tags.includes(tag)).length
+      count: facetCounts ? facetCounts.get(tag) ?? 0 : localProducts.filter(p => p.tags.includes(tag)).length
     }));
-  }, [products]);
+  }, [localProducts, searchResults, selectedTags]);
 
   // Filter and sort products
   const filteredProducts = useMemo(() => {
-    if (!Array.isArray(products)) return [];
-    
-    let filtered = products.filter(product => {
+    if (searchResults) return searchResults.products;
+
+    let filtered = localProducts.filter(product => {
       // Search filter
       if (searchQuery && !product.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
           !product.description.toLowerCase().includes(searchQuery.toLowerCase())) {
@@ -68,6 +198,11 @@ export const ProductsPage: React.FC = () => {
         return false;
       }
 
+      // Availability filter
+      if (inStockOnly && stockState(product.stock) === 'out') {
+        return false;
+      }
+
       return true;
     });
 
@@ -86,41 +221,71 @@ export const ProductsPage: React.FC = () => {
         // Mock trending sort based on review count
         filtered.sort((a, b) => b.reviews.length - a.reviews.length);
         break;
+      case 'relevance':
+        // Best match without a ranking is catalog order
+        if (!searchQuery) filtered.reverse();
+        break;
       default: // newest
         filtered.reverse();
     }
 
     return filtered;
-  }, [products, searchQuery, selectedCategories, selectedTags, priceRange, sortBy]);
+  }, [searchResults, localProducts, searchQuery, selectedCategories, selectedTags, priceRange, inStockOnly, sortBy]);
 
   const toggleCategory = (category: string) => {
-    setSelectedCategories(prev =>
-      prev.includes(category)
-        ? prev.filter(c => c !== category)
-        : [...prev, category]
-    );
+    updateFilters({
+      categories: selectedCategories.includes(category)
+        ? selectedCategories.filter(c => c !== category)
+        : [...selectedCategories, category]
+    });
   };
 
   const toggleTag = (tag: string) => {
-    setSelectedTags(prev =>
-      prev.includes(tag)
-        ? prev.filter(t => t !== tag)
-        : [...prev, tag]
-    );
+    updateFilters({
+      tags: selectedTags.includes(tag)
+        ? selectedTags.filter(t => t !== tag)
+        : [...selectedTags, tag]
+    });
   };
 
   const clearFilters = () => {
-    setSelectedCategories([]);
-    setSelectedTags([]);
-    setPriceRange([0, 5000]);
     setSearchQuery('');
+    setSearchParams(filtersToParams({ ...DEFAULT_FILTERS, view: viewMode }));
   };
 
-  const activeFiltersCount = selectedCategories.length + selectedTags.length + 
-    (priceRange[0] > 0 || priceRange[1] < 5000 ? 1 : 0);
+  const activeFiltersCount = countActiveFilters(filters);
 
-  // Show loading state
-  if (isLoading) {
+  const savePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    try {
+      const response = await userAPI.saveFilterPreset({ name, query: filtersToParams(filters).toString() });
+      setPresets(response.presets);
+      setPresetName('');
+      toast.success(`Saved "${name}"`);
+    } catch (error) {
+      console.error('Failed to save filter preset:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save preset');
+    }
+  };
+
+  const deletePreset = async (preset: FilterPreset) => {
+    try {
+      const response = await userAPI.deleteFilterPreset(preset._id);
+      setPresets(response.presets);
+    } catch (error) {
+      console.error('Failed to delete filter preset:', error);
+      toast.error('Failed to delete preset');
+    }
+  };
+
+  const applyPreset = (preset: FilterPreset) => {
+    setSearchParams(new URLSearchParams(preset.query));
+  };
+
+  // Show loading state until the first page of results is in
+  if (isLoading || (isBackendConnected && !searchResults && search.isLoading)) {
     return (
       <div className="min-h-screen pt-16 flex items-center justify-center">
         <motion.div
@@ -152,7 +317,7 @@ export const ProductsPage: React.FC = () => {
             Discover Products
           </h1>
           <p className="text-muted-foreground text-lg">
-            {filteredProducts.length} products found
+            {searchResults ? searchResults.total : filteredProducts.length} products found
           </p>
         </motion.div>
 
@@ -164,15 +329,11 @@ export const ProductsPage: React.FC = () => {
           transition={{ delay: 0.1 }}
         >
           {/* Search */}
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search products..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 bg-white/5 border-white/20 focus:border-cyan-400"
-            />
-          </div>
+          <SearchBox
+            className="flex-1"
+            placeholder="Search products..."
+            inputClassName="bg-white/5 border-white/20 focus:border-cyan-400"
+          />
 
           {/* Controls */}
           <div className="flex items-center gap-4">
@@ -197,6 +358,7 @@ export const ProductsPage: React.FC = () => {
                 <SelectValue placeholder="Sort by..." />
               </SelectTrigger>
               <SelectContent className="glass-panel border-white/20">
+                <SelectItem value="relevance">Best match</SelectItem>
                 <SelectItem value="newest">Newest</SelectItem>
                 <SelectItem value="trending">Trending</SelectItem>
                 <SelectItem value="price-low">Price: Low to High</SelectItem>
@@ -261,6 +423,60 @@ export const ProductsPage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Saved Views */}
+                <div className="mb-6">
+                  <h4 className="mb-3">Saved Views</h4>
+                  {currentUser && isBackendConnected ? (
+                    <div className="space-y-3">
+                      {presets.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {presets.map((preset) => (
+                            <span
+                              key={preset._id}
+                              className="inline-flex items-center gap-1 rounded-full bg-white/10 pl-3 pr-1 py-1 text-xs"
+                            >
+                              <button onClick={() => applyPreset(preset)} className="hover:text-cyan-400">
+                                {preset.name}
+                              </button>
+                              <button
+                                onClick={() => deletePreset(preset)}
+                                className="rounded-full p-0.5 hover:bg-white/20"
+                                aria-label={`Delete ${preset.name}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          savePreset();
+                        }}
+                      >
+                        <Input
+                          placeholder="Name this view"
+                          value={presetName}
+                          onChange={(e) => setPresetName(e.target.value)}
+                          maxLength={60}
+                          className="h-8 bg-white/5 border-white/20 text-sm"
+                        />
+                        <Button type="submit" size="sm" variant="outline" disabled={!presetName.trim()} className="border-white/20">
+                          <Bookmark className="h-4 w-4" />
+                        </Button>
+                      </form>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Log in to save filter presets to your profile
+                    </p>
+                  )}
+                </div>
+
+                <Separator className="bg-white/10 mb-6" />
+
                 {/* Categories */}
                 <div className="mb-6">
                   <h4 className="mb-3">Categories</h4>
@@ -320,17 +536,56 @@ export const ProductsPage: React.FC = () => {
                   <h4 className="mb-3">Price Range</h4>
                   <div className="space-y-4">
                     <Slider
-                      value={priceRange}
-                      onValueChange={(value) => setPriceRange(value as [number, number])}
-                      max={5000}
+                      value={priceDraft}
+                      onValueChange={(value) => setPriceDraft(value as [number, number])}
+                      onValueCommit={(value) => setPriceRange(value as [number, number])}
+                      max={MAX_PRICE}
                       min={0}
                       step={100}
                       className="w-full"
                     />
                     <div className="flex justify-between text-sm text-muted-foreground">
-                      <span>${priceRange[0].toLocaleString()}</span>
-                      <span>${priceRange[1].toLocaleString()}</span>
+                      <span>${priceDraft[0].toLocaleString()}</span>
+                      <span>${priceDraft[1].toLocaleString()}</span>
                     </div>
+                    {searchResults && (
+                      <div className="flex flex-wrap gap-2">
+                        {searchResults.facets.prices.map((bucket) => {
+                          const range: [number, number] = [bucket.min, bucket.max ?? MAX_PRICE];
+                          const isSelected = priceRange[0] === range[0] && priceRange[1] === range[1];
+                          return (
+                            <button
+                              key={bucket.label}
+                              disabled={bucket.count === 0 && !isSelected}
+                              className={`px-3 py-1 rounded-full text-xs transition-colors disabled:opacity-40 ${
+                                isSelected ? 'bg-cyan-500 text-white' : 'bg-white/10 hover:bg-white/20'
+                              }`}
+                              onClick={() => setPriceRange(isSelected ? [0, MAX_PRICE] : range)}
+                            >
+                              {bucket.label} ({bucket.count})
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <Separator className="bg-white/10 mb-6" />
+
+                {/* Availability */}
+                <div className="mb-6">
+                  <h4 className="mb-3">Availability</h4>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="in-stock-only"
+                      checked={inStockOnly}
+                      onCheckedChange={(checked) => setInStockOnly(checked === true)}
+                      className="border-white/30"
+                    />
+                    <label htmlFor="in-stock-only" className="text-sm cursor-pointer">
+                      In stock only
+                    </label>
                   </div>
                 </div>
               </motion.div>
@@ -369,18 +624,32 @@ export const ProductsPage: React.FC = () => {
                     key={product.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: (index % SEARCH_PAGE_SIZE) * 0.05 }}
                   >
                     <ProductCard 
                       product={product} 
-                      onViewDetails={(productId) => {
-                        window.location.hash = `product/${productId}`;
+                      onViewDetails={(slug) => {
+                        navigate(paths.product(slug));
                       }}
                     />
                   </motion.div>
                 ))}
               </motion.div>
             )}
+
+            {/* Next page */}
+            {searchResults && hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-8">
+                <Button
+                  variant="outline"
+                  onClick={loadMore}
+                  disabled={search.isLoading}
+                  className="border-white/20 hover:bg-white/10"
+                >
+                  {search.isLoading ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,7 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
-  User, 
   Heart, 
   ShoppingBag, 
   Settings, 
@@ -12,9 +12,16 @@ import {
   Star,
   Calendar,
   Package,
-  CreditCard
+  CreditCard,
+  Banknote,
+  TrendingDown
 } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
+import { isProfileTab, paths } from '../routes';
+import type { RouteParams } from '../routes';
+import { userAPI } from '../services/api';
+import { normalizeOrders } from '../services/normalize';
+import type { ApiOrder, UpdateWishlistAlertRequest, WishlistAlert } from '../services/types';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -22,43 +29,50 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
 import { Badge } from '../components/ui/badge';
 import { Separator } from '../components/ui/separator';
+import { Switch } from '../components/ui/switch';
+import { toast } from 'sonner@2.0.3';
 import { ImageWithFallback } from '../components/figma/ImageWithFallback';
+import { NotificationSettings } from '../components/NotificationSettings';
+import { AddressBook } from '../components/AddressBook';
+import { OrderTimeline } from '../components/OrderTimeline';
+import { OrderRefunds } from '../components/OrderRefunds';
 
 export const ProfilePage: React.FC = () => {
-  const { currentUser, products, getProduct } = useApp();
+  const { currentUser, products, getProduct, reportRejectedRecords, toggleWishlist } = useApp();
+  const navigate = useNavigate();
+  const { tab } = useParams<RouteParams<'profile'>>();
+  const activeTab = isProfileTab(tab) ? tab : 'overview';
   const [isEditing, setIsEditing] = useState(false);
   const [editedUser, setEditedUser] = useState(currentUser);
+  const [orders, setOrders] = useState<ApiOrder[]>([]);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  // Price and stock alerts for wishlisted products, by product id
+  const [wishlistAlerts, setWishlistAlerts] = useState<Record<string, WishlistAlert>>({});
+  const wishlistKey = currentUser?.wishlist.join(',');
 
+  useEffect(() => {
+    if (!currentUser) return;
+    userAPI.getOrders()
+      .then(response => {
+        const { records, rejected } = normalizeOrders(response.orders);
+        setOrders(records);
+        reportRejectedRecords(['order'], rejected);
+      })
+      .catch(error => console.error('Failed to load orders:', error));
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (wishlistKey === undefined) return;
+    userAPI.getWishlist()
+      .then(response => {
+        setWishlistAlerts(Object.fromEntries((response.alerts || []).map(alert => [alert.product, alert])));
+      })
+      .catch(error => console.error('Failed to load wishlist alerts:', error));
+  }, [wishlistKey]);
+
+  // Rendered behind RequireAuth, so this only happens mid-logout
   if (!currentUser) {
-    return (
-      <div className="min-h-screen pt-16 flex items-center justify-center">
-        <motion.div
-          className="text-center"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-        >
-          <User className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-          <h2 className="text-2xl mb-4">Not Logged In</h2>
-          <p className="text-muted-foreground mb-6">
-            Please log in to view your profile
-          </p>
-          <div className="flex gap-4 justify-center">
-            <Button 
-              onClick={() => window.location.hash = 'login'}
-              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
-            >
-              Login
-            </Button>
-            <Button 
-              variant="outline"
-              onClick={() => window.location.hash = 'signup'}
-            >
-              Sign Up
-            </Button>
-          </div>
-        </motion.div>
-      </div>
-    );
+    return null;
   }
 
   const handleSaveProfile = () => {
@@ -66,10 +80,29 @@ export const ProfilePage: React.FC = () => {
     setIsEditing(false);
   };
 
+  const updateWishlistAlert = async (productId: string, changes: UpdateWishlistAlertRequest) => {
+    const previous = wishlistAlerts[productId];
+    if (!previous) return;
+    setWishlistAlerts(prev => ({ ...prev, [productId]: { ...previous, ...changes } }));
+    try {
+      const response = await userAPI.updateWishlistAlerts(productId, changes);
+      setWishlistAlerts(prev => ({ ...prev, [productId]: response.alert }));
+    } catch (error) {
+      setWishlistAlerts(prev => ({ ...prev, [productId]: previous }));
+      toast.error(error instanceof Error ? error.message : 'Could not update alerts');
+    }
+  };
+
+  const replaceOrder = (order: ApiOrder) => {
+    setOrders(prev => prev.map(existing => (existing._id === order._id ? order : existing)));
+  };
+
   const wishlistProducts = currentUser.wishlist
     .map(productId => getProduct(productId))
     .filter(Boolean);
 
+  const formatOrderDate = (order: ApiOrder) => new Date(order.createdAt).toLocaleDateString();
+
   return (
     <div className="min-h-screen pt-16">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -165,7 +198,11 @@ export const ProfilePage: React.FC = () => {
         </motion.div>
 
         {/* Profile Content */}
-        <Tabs defaultValue="overview" className="space-y-6">
+        <Tabs
+          value={activeTab}
+          onValueChange={(value) => isProfileTab(value) && navigate(paths.profile(value), { replace: true })}
+          className="space-y-6"
+        >
           <TabsList className="grid w-full grid-cols-4 bg-white/5 border border-white/10">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="wishlist">Wishlist</TabsTrigger>
@@ -188,7 +225,7 @@ export const ProfilePage: React.FC = () => {
                     <Package className="h-4 w-4 text-muted-foreground" />
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl neon-text-cyan">{currentUser.orderHistory.length}</div>
+                    <div className="text-2xl neon-text-cyan">{orders.length}</div>
                     <p className="text-xs text-muted-foreground">
                       +2 from last month
                     </p>
@@ -227,7 +264,7 @@ export const ProfilePage: React.FC = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl neon-text-pink">
-                      ${currentUser.orderHistory.reduce((sum, order) => sum + order.total, 0).toLocaleString()}
+                      ${orders.reduce((sum, order) => sum + order.totalAmount, 0).toLocaleString()}
                     </div>
                     <p className="text-xs text-muted-foreground">
                       All time
@@ -250,9 +287,9 @@ export const ProfilePage: React.FC = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {currentUser.orderHistory.slice(0, 3).map((order, index) => (
+                    {orders.slice(0, 3).map((order, index) => (
                       <motion.div
-                        key={order.id}
+                        key={order._id}
                         className="flex items-center justify-between p-4 rounded-lg bg-white/5 border border-white/10"
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
@@ -263,15 +300,15 @@ export const ProfilePage: React.FC = () => {
                             <Package className="h-6 w-6" />
                           </div>
                           <div>
-                            <p className="font-medium">Order #{order.id.toUpperCase()}</p>
+                            <p className="font-medium">Order #{order.orderNumber}</p>
                             <p className="text-sm text-muted-foreground flex items-center">
                               <Calendar className="h-3 w-3 mr-1" />
-                              {order.date}
+                              {formatOrderDate(order)}
                             </p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-lg neon-text-cyan">${order.total.toLocaleString()}</p>
+                          <p className="text-lg neon-text-cyan">${order.totalAmount.toLocaleString()}</p>
                           <Badge 
                             className={`text-xs ${
                               order.status === 'delivered' 
@@ -328,14 +365,31 @@ export const ProfilePage: React.FC = () => {
                             <span className="text-lg neon-text-cyan">
                               ${product!.price.toLocaleString()}
                             </span>
-                            <Button
-                              size="sm"
-                              onClick={() => window.location.hash = `product/${product!.id}`}
-                              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
-                            >
-                              View
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                aria-label="Remove from wishlist"
+                                onClick={() => toggleWishlist(product!.id)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => navigate(paths.product(product!.slug))}
+                                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
+                              >
+                                View
+                              </Button>
+                            </div>
                           </div>
+                          {wishlistAlerts[product!.id] && (
+                            <WishlistAlertSettings
+                              alert={wishlistAlerts[product!.id]}
+                              currentPrice={product!.price}
+                              onChange={changes => updateWishlistAlert(product!.id, changes)}
+                            />
+                          )}
                         </motion.div>
                       ))}
                     </div>
@@ -347,7 +401,7 @@ export const ProfilePage: React.FC = () => {
                         Start exploring and add some products to your wishlist
                       </p>
                       <Button
-                        onClick={() => window.location.hash = 'products'}
+                        onClick={() => navigate(paths.products())}
                         className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400"
                       >
                         Browse Products
@@ -372,46 +426,73 @@ export const ProfilePage: React.FC = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {currentUser.orderHistory.map((order, index) => (
+                    {orders.map((order, index) => (
                       <motion.div
-                        key={order.id}
-                        className="flex items-center justify-between p-6 rounded-lg bg-white/5 border border-white/10"
+                        key={order._id}
+                        className="p-6 rounded-lg bg-white/5 border border-white/10"
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.1 }}
                       >
+                        <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-4">
                           <div className="w-16 h-16 rounded-lg bg-gradient-to-r from-cyan-500 to-purple-500 flex items-center justify-center">
                             <Package className="h-8 w-8" />
                           </div>
                           <div>
-                            <p className="text-lg font-medium">Order #{order.id.toUpperCase()}</p>
+                            <p className="text-lg font-medium">Order #{order.orderNumber}</p>
                             <p className="text-muted-foreground flex items-center">
                               <Calendar className="h-4 w-4 mr-2" />
-                              {order.date}
+                              {formatOrderDate(order)}
                             </p>
                             <p className="text-sm text-muted-foreground">
                               {order.items.length} item{order.items.length > 1 ? 's' : ''}
                             </p>
+                            {order.paymentMethod === 'cash_on_delivery' && (
+                              <p className="text-sm text-amber-400 flex items-center">
+                                <Banknote className="h-4 w-4 mr-2" />
+                                {order.codCollectedAt
+                                  ? 'Cash on delivery · paid'
+                                  : order.paymentStatus === 'pending' && order.status !== 'cancelled'
+                                    ? `Cash on delivery · $${order.totalAmount.toLocaleString()} due`
+                                    : 'Cash on delivery'}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-xl neon-text-cyan">${order.total.toLocaleString()}</p>
+                          <p className="text-xl neon-text-cyan">${order.totalAmount.toLocaleString()}</p>
                           <Badge 
                             className={`text-xs mt-2 ${
                               order.status === 'delivered' 
                                 ? 'bg-green-500/20 text-green-400 border-green-400/30' 
-                                : 'bg-yellow-500/20 text-yellow-400 border-yellow-400/30'
+                                : order.status === 'cancelled' || order.status === 'returned'
+                                  ? 'bg-red-500/20 text-red-400 border-red-400/30'
+                                  : 'bg-yellow-500/20 text-yellow-400 border-yellow-400/30'
                             }`}
                           >
                             {order.status}
                           </Badge>
                           <div className="mt-2">
-                            <Button variant="outline" size="sm">
-                              View Details
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              aria-expanded={expandedOrderId === order._id}
+                              onClick={() => setExpandedOrderId(id => (id === order._id ? null : order._id))}
+                            >
+                              {expandedOrderId === order._id ? 'Hide Tracking' : 'Track Order'}
                             </Button>
                           </div>
                         </div>
+                        </div>
+                        {expandedOrderId === order._id && (
+                          <div className="mt-6 pt-6 border-t border-white/10">
+                            <OrderTimeline order={order} />
+                            <div className="mt-6">
+                              <OrderRefunds order={order} onOrderChange={replaceOrder} />
+                            </div>
+                          </div>
+                        )}
                       </motion.div>
                     ))}
                   </div>
@@ -433,18 +514,12 @@ export const ProfilePage: React.FC = () => {
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="space-y-4">
-                    <div>
-                      <Label htmlFor="notifications">Email Notifications</Label>
-                      <div className="flex items-center justify-between mt-2">
-                        <span className="text-sm text-muted-foreground">
-                          Receive updates about your orders and new products
-                        </span>
-                        <Button variant="outline" size="sm">
-                          Configure
-                        </Button>
-                      </div>
-                    </div>
+                    <NotificationSettings />
                     
+                    <Separator className="bg-white/10" />
+
+                    <AddressBook />
+
                     <Separator className="bg-white/10" />
                     
                     <div>
@@ -495,4 +570,42 @@ export const ProfilePage: React.FC = () => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface WishlistAlertSettingsProps {
+  alert: WishlistAlert;
+  currentPrice: number;
+  onChange: (changes: UpdateWishlistAlertRequest) => void;
+}
+
+const WishlistAlertSettings: React.FC<WishlistAlertSettingsProps> = ({ alert, currentPrice, onChange }) => {
+  const saving = alert.savedPrice - currentPrice;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-white/10 space-y-3 text-sm">
+      <div className="flex items-center justify-between text-muted-foreground">
+        <span>Saved at ${alert.savedPrice.toLocaleString()}</span>
+        {saving > 0 && (
+          <span className="flex items-center text-green-400">
+            <TrendingDown className="h-4 w-4 mr-1" />
+            ${saving.toLocaleString()} less
+          </span>
+        )}
+      </div>
+      <label className="flex items-center justify-between">
+        <span>Price drop alerts</span>
+        <Switch
+          checked={alert.priceDrop}
+          onCheckedChange={checked => onChange({ priceDrop: checked })}
+        />
+      </label>
+      <label className="flex items-center justify-between">
+        <span>Back in stock alerts</span>
+        <Switch
+          checked={alert.backInStock}
+          onCheckedChange={checked => onChange({ backInStock: checked })}
+        />
+      </label>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { motion } from 'motion/react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { UserPlus, Eye, EyeOff, Zap, ArrowLeft, Check } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -9,10 +10,15 @@ import { Checkbox } from '../components/ui/checkbox';
 import { Separator } from '../components/ui/separator';
 import { authAPI } from '../services/api';
 import { useApp } from '../contexts/AppContext';
+import { paths, safeReturnTo } from '../routes';
 import { toast } from 'sonner@2.0.3';
 
 export const SignupPage: React.FC = () => {
   const { refreshAuth } = useApp();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set by the route guard when an anonymous visitor hits a protected page
+  const returnTo = safeReturnTo(searchParams.get('returnTo'));
   const [formData, setFormData] = useState({
     username: '',
     email: '',
@@ -74,17 +80,17 @@ export const SignupPage: React.FC = () => {
             // Refresh auth state
             await refreshAuth();
             
-            // Redirect to home
-            window.location.hash = 'home';
+            // Send the user back to where they were headed
+            navigate(returnTo, { replace: true });
           } else {
             // If auto-login fails, redirect to login page
             toast.info('Please login with your credentials');
-            window.location.hash = 'login';
+            navigate(paths.login({ returnTo }));
           }
         } catch (loginErr) {
           // If auto-login fails, redirect to login page
           toast.info('Please login with your credentials');
-          window.location.hash = 'login';
+          navigate(paths.login({ returnTo }));
         }
       } else {
         setError(response.message || 'Signup failed');
@@ -92,8 +98,8 @@ export const SignupPage: React.FC = () => {
           description: response.message || 'Please try again'
         });
       }
-    } catch (err: any) {
-      const errorMessage = err.message || 'Unable to connect to server';
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unable to connect to server';
       setError(errorMessage);
       toast.error('Signup failed', {
         description: errorMessage
@@ -105,7 +111,7 @@ export const SignupPage: React.FC = () => {
 
   const handleGoogleSignup = () => {
     // Redirect to Google OAuth
-    window.location.href = authAPI.getGoogleLoginUrl();
+    window.location.href = authAPI.getGoogleLoginUrl(returnTo);
   };
 
   const handleInputChange = (field: string, value: string | boolean) => {
@@ -455,7 +461,7 @@ export const SignupPage: React.FC = () => {
                   <Button
                     variant="link"
                     className="p-0 h-auto text-cyan-400 hover:text-cyan-300"
-                    onClick={() => window.location.hash = 'login'}
+                    onClick={() => navigate(paths.login({ returnTo }))}
                   >
                     Sign in here
                   </Button>
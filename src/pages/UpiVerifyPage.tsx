@@ -1,10 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'motion/react';
-import { paymentAPI, userAPI } from '../services/api';
+import { useApp } from '../contexts/AppContext';
+import { useOrderStatus } from '../hooks/useOrderStatus';
+import { paths } from '../routes';
 import { Button } from '../components/ui/button';
-import { Input } from '../components/ui/input';
-import { Label } from '../components/ui/label';
 import { Card } from '../components/ui/card';
 import { toast } from 'sonner@2.0.3';
 import { 
@@ -12,82 +12,53 @@ import {
   Loader2, 
   CheckCircle, 
   ExternalLink,
-  AlertCircle 
+  AlertCircle,
+  XCircle
 } from 'lucide-react';
 
 export default function UpiVerifyPage() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { clearCart } = useApp();
   
   const orderId = searchParams.get('orderId');
-  const razorpayOrderId = searchParams.get('razorpayOrderId');
   const upiLink = searchParams.get('upiLink');
-  
-  const [paymentId, setPaymentId] = useState('');
-  const [verifying, setVerifying] = useState(false);
-  const [paymentCompleted, setPaymentCompleted] = useState(false);
+
+  // Confirmation arrives from Razorpay's webhook; the page just listens
+  const { status, connection, error } = useOrderStatus(orderId);
+  const paymentCompleted = status?.paymentStatus === 'completed';
+  const paymentFailed = status?.paymentStatus === 'failed' || status?.paymentStatus === 'expired';
+
+  useEffect(() => {
+    if (!error) return;
+    toast.error(error);
+    navigate(paths.checkout());
+  }, [error, navigate]);
 
   useEffect(() => {
     if (!orderId || !upiLink) {
       toast.error('Invalid payment session');
-      navigate('/checkout');
+      navigate(paths.checkout());
     }
   }, [orderId, upiLink, navigate]);
 
+  useEffect(() => {
+    if (!paymentCompleted) return;
+    toast.success('Payment received!');
+    clearCart();
+
+    // Show the confirmation briefly, then the order
+    const timer = window.setTimeout(() => navigate(paths.profile('orders')), 2000);
+    return () => window.clearTimeout(timer);
+  }, [paymentCompleted]);
+
   const handleOpenUpiApp = () => {
     if (upiLink) {
-      window.location.href = decodeURIComponent(upiLink);
+      window.location.href = upiLink;
       toast.success('Opening UPI app...');
     }
   };
 
-  const handleVerifyPayment = async () => {
-    if (!paymentId.trim()) {
-      toast.error('Please enter your Razorpay payment ID');
-      return;
-    }
-
-    if (!orderId || !razorpayOrderId) {
-      toast.error('Order information not found');
-      return;
-    }
-
-    setVerifying(true);
-    try {
-      // For UPI, signature verification might not be available from user input
-      // In production, use webhooks or server-side polling to verify
-      const response = await paymentAPI.verifyUpiPayment(orderId, {
-        razorpay_payment_id: paymentId,
-        razorpay_order_id: razorpayOrderId,
-        razorpay_signature: 'manual_verification', // Will be validated server-side via Razorpay API
-      });
-      
-      if (response.success) {
-        setPaymentCompleted(true);
-        toast.success('Payment verified successfully!');
-        
-        // Clear the cart
-        try {
-          await userAPI.clearCart();
-        } catch (error) {
-          console.error('Failed to clear cart:', error);
-        }
-
-        // Redirect to success page after 2 seconds
-        setTimeout(() => {
-          navigate(`/profile/orders`);
-        }, 2000);
-      } else {
-        toast.error('Payment verification failed. Please try again.');
-      }
-    } catch (error: any) {
-      console.error('Payment verification error:', error);
-      toast.error(error.message || 'Failed to verify payment');
-    } finally {
-      setVerifying(false);
-    }
-  };
-
   if (paymentCompleted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950/20 to-slate-950 flex items-center justify-center py-20">
@@ -109,7 +80,7 @@ export default function UpiVerifyPage() {
               </motion.div>
 
               <h1 className="text-3xl mb-3 bg-gradient-to-r from-green-400 to-cyan-400 bg-clip-text text-transparent">
-                Payment Verified!
+                Payment Received!
               </h1>
               <p className="text-slate-400 mb-6">
                 Your UPI payment has been confirmed. Redirecting to orders...
@@ -122,6 +93,30 @@ export default function UpiVerifyPage() {
     );
   }
 
+  if (paymentFailed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950/20 to-slate-950 flex items-center justify-center py-20">
+        <div className="container max-w-2xl mx-auto px-4">
+          <Card className="bg-slate-900/50 backdrop-blur-xl border-red-500/20 p-8 text-center">
+            <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-red-500/20 flex items-center justify-center">
+              <XCircle className="w-12 h-12 text-red-400" />
+            </div>
+            <h1 className="text-3xl mb-3 text-red-400">Payment Failed</h1>
+            <p className="text-slate-400 mb-6">
+              The payment didn't go through. Your cart is still here if you'd like to try again.
+            </p>
+            <Button
+              onClick={() => navigate(paths.checkout())}
+              className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+            >
+              Back to checkout
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950/20 to-slate-950 py-20">
       <div className="container max-w-2xl mx-auto px-4">
@@ -152,8 +147,7 @@ export default function UpiVerifyPage() {
                   <ol className="text-sm text-slate-400 space-y-2 list-decimal list-inside">
                     <li>Click the button below to open your UPI app</li>
                     <li>Complete the payment in your UPI app</li>
-                    <li>Note down the transaction ID/UTR number</li>
-                    <li>Enter the transaction ID below to verify payment</li>
+                    <li>Keep this page open; it updates as soon as the payment is confirmed</li>
                   </ol>
                 </div>
               </div>
@@ -176,50 +170,25 @@ export default function UpiVerifyPage() {
               <div className="flex-1 h-px bg-slate-700"></div>
             </div>
 
-            {/* Payment ID Input */}
-            <div className="space-y-4 mb-6">
-              <div>
-                <Label htmlFor="paymentId">Razorpay Payment ID</Label>
-                <Input
-                  id="paymentId"
-                  placeholder="Enter payment ID (starts with pay_)"
-                  value={paymentId}
-                  onChange={(e) => setPaymentId(e.target.value)}
-                  className="bg-slate-800/50 border-slate-700"
-                  disabled={verifying}
-                />
-                <p className="text-xs text-slate-500 mt-2">
-                  You'll receive this in the payment confirmation screen or SMS
+            {/* Live Status */}
+            <div className="flex items-center justify-center gap-3 rounded-xl bg-slate-800/50 p-4">
+              <Loader2 className="w-5 h-5 animate-spin text-cyan-400" />
+              <div className="text-left">
+                <p>Waiting for payment confirmation...</p>
+                <p className="text-xs text-slate-500">
+                  {connection === 'polling'
+                    ? 'Connection interrupted, checking periodically'
+                    : 'This page updates automatically'}
                 </p>
               </div>
             </div>
 
-            {/* Verify Button */}
-            <Button
-              onClick={handleVerifyPayment}
-              disabled={verifying || !paymentId.trim()}
-              className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
-              size="lg"
-            >
-              {verifying ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Verifying Payment...
-                </>
-              ) : (
-                <>
-                  <CheckCircle className="w-4 h-4 mr-2" />
-                  Verify Payment
-                </>
-              )}
-            </Button>
-
             {/* Help Text */}
             <div className="mt-6 text-center">
               <p className="text-sm text-slate-500">
                 Having trouble?{' '}
                 <button
-                  onClick={() => navigate('/checkout')}
+                  onClick={() => navigate(paths.checkout())}
                   className="text-cyan-400 hover:text-cyan-300"
                 >
                   Go back to checkout
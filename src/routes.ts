@@ -0,0 +1,96 @@
+// Route table for the storefront.
+// Every page is addressable by URL; build links with `paths` rather than
+// hand-writing strings so params stay in sync with the table.
+import { generatePath } from 'react-router-dom';
+import type { PathParam } from 'react-router-dom';
+
+export const PROFILE_TABS = ['overview', 'wishlist', 'orders', 'settings'] as const;
+export type ProfileTab = (typeof PROFILE_TABS)[number];
+
+export const ROUTES = {
+  home: '/',
+  products: '/products',
+  product: '/products/:slug',
+  bundles: '/bundles',
+  bundle: '/bundles/:slug',
+  discover: '/discover',
+  profile: '/profile/:tab?',
+  checkout: '/checkout',
+  checkoutSuccess: '/checkout/success',
+  upiVerify: '/upi-verify',
+  login: '/login',
+  signup: '/signup',
+  debug: '/debug',
+} as const;
+
+export type RouteName = keyof typeof ROUTES;
+
+// Path params for a route, e.g. RouteParams<'product'> = { slug: string }
+export type RouteParams<R extends RouteName> = {
+  [K in PathParam<(typeof ROUTES)[R]>]: string;
+};
+
+// Query params carried by the auth pages and the payment flow
+export interface AuthQuery {
+  returnTo?: string;
+}
+
+// Filters a products link can preselect, e.g. from a search suggestion (a
+// subset of the format in services/productFilters)
+export interface ProductsQuery {
+  q?: string;
+  category?: string;
+  tag?: string;
+}
+
+export interface CheckoutSuccessQuery {
+  order_id: string;
+}
+
+export interface UpiVerifyQuery {
+  orderId: string;
+  upiLink?: string;
+}
+
+const withQuery = (path: string, query: object) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+export const paths = {
+  home: () => ROUTES.home,
+  products: (query: ProductsQuery = {}) => withQuery(ROUTES.products, query),
+  product: (slug: string) => generatePath(ROUTES.product, { slug }),
+  bundles: () => ROUTES.bundles,
+  bundle: (slug: string) => generatePath(ROUTES.bundle, { slug }),
+  discover: () => ROUTES.discover,
+  profile: (tab?: ProfileTab) => generatePath(ROUTES.profile, { tab: tab ?? null }),
+  checkout: () => ROUTES.checkout,
+  checkoutSuccess: (query: CheckoutSuccessQuery) => withQuery(ROUTES.checkoutSuccess, query),
+  upiVerify: (query: UpiVerifyQuery) => withQuery(ROUTES.upiVerify, query),
+  login: (query: AuthQuery = {}) => withQuery(ROUTES.login, query),
+  signup: (query: AuthQuery = {}) => withQuery(ROUTES.signup, query),
+  debug: () => ROUTES.debug,
+};
+
+export const isProfileTab = (value: string | undefined): value is ProfileTab =>
+  PROFILE_TABS.includes(value as ProfileTab);
+
+// Only same-origin paths are honoured as a post-login destination
+export const safeReturnTo = (value: string | null | undefined): string =>
+  value && value.startsWith('/') && !value.startsWith('//') ? value : paths.home();
+
+// Links from the old hash router (`#product/p1`, `#/profile`) map onto the
+// same paths, so bookmarks and external redirects keep working
+export const fromLegacyHash = (hash: string): string | null => {
+  const [page, id] = hash.replace(/^#\/?/, '').split('/');
+  if (!page) return null;
+  if (page === 'product') return id ? paths.product(id) : paths.products();
+  if (page === 'checkout-success') return ROUTES.checkoutSuccess;
+  if (page === 'home') return paths.home();
+  return `/${page}`;
+};
@@ -0,0 +1,153 @@
+// Indian address rules shared by checkout and the address book: 6-digit PIN
+// codes (never starting with 0), 10-digit mobile numbers, and a small local
+// PIN lookup that fills in the city and state as the customer types.
+
+import type { ShippingAddress } from './types';
+
+export const isValidPinCode = (pinCode: string) => /^[1-9]\d{5}$/.test(pinCode.trim());
+
+// Drop spaces, dashes and a +91/0 prefix, leaving the 10-digit number
+export const normalizePhone = (phone: string) =>
+  phone.replace(/[\s-]/g, '').replace(/^(?:\+?91|0)(?=\d{10}$)/, '');
+
+export const isValidPhone = (phone: string) => /^[6-9]\d{9}$/.test(normalizePhone(phone));
+
+// Major cities by the first three digits of the PIN code
+const CITY_PREFIXES: Record<string, { city: string; state: string }> = {
+  '110': { city: 'New Delhi', state: 'Delhi' },
+  '121': { city: 'Faridabad', state: 'Haryana' },
+  '122': { city: 'Gurugram', state: 'Haryana' },
+  '141': { city: 'Ludhiana', state: 'Punjab' },
+  '143': { city: 'Amritsar', state: 'Punjab' },
+  '160': { city: 'Chandigarh', state: 'Chandigarh' },
+  '180': { city: 'Jammu', state: 'Jammu and Kashmir' },
+  '190': { city: 'Srinagar', state: 'Jammu and Kashmir' },
+  '208': { city: 'Kanpur', state: 'Uttar Pradesh' },
+  '221': { city: 'Varanasi', state: 'Uttar Pradesh' },
+  '226': { city: 'Lucknow', state: 'Uttar Pradesh' },
+  '248': { city: 'Dehradun', state: 'Uttarakhand' },
+  '282': { city: 'Agra', state: 'Uttar Pradesh' },
+  '302': { city: 'Jaipur', state: 'Rajasthan' },
+  '313': { city: 'Udaipur', state: 'Rajasthan' },
+  '342': { city: 'Jodhpur', state: 'Rajasthan' },
+  '360': { city: 'Rajkot', state: 'Gujarat' },
+  '380': { city: 'Ahmedabad', state: 'Gujarat' },
+  '390': { city: 'Vadodara', state: 'Gujarat' },
+  '395': { city: 'Surat', state: 'Gujarat' },
+  '400': { city: 'Mumbai', state: 'Maharashtra' },
+  '403': { city: 'Panaji', state: 'Goa' },
+  '411': { city: 'Pune', state: 'Maharashtra' },
+  '422': { city: 'Nashik', state: 'Maharashtra' },
+  '440': { city: 'Nagpur', state: 'Maharashtra' },
+  '452': { city: 'Indore', state: 'Madhya Pradesh' },
+  '462': { city: 'Bhopal', state: 'Madhya Pradesh' },
+  '492': { city: 'Raipur', state: 'Chhattisgarh' },
+  '500': { city: 'Hyderabad', state: 'Telangana' },
+  '520': { city: 'Vijayawada', state: 'Andhra Pradesh' },
+  '530': { city: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  '560': { city: 'Bengaluru', state: 'Karnataka' },
+  '570': { city: 'Mysuru', state: 'Karnataka' },
+  '575': { city: 'Mangaluru', state: 'Karnataka' },
+  '600': { city: 'Chennai', state: 'Tamil Nadu' },
+  '625': { city: 'Madurai', state: 'Tamil Nadu' },
+  '641': { city: 'Coimbatore', state: 'Tamil Nadu' },
+  '673': { city: 'Kozhikode', state: 'Kerala' },
+  '682': { city: 'Kochi', state: 'Kerala' },
+  '695': { city: 'Thiruvananthapuram', state: 'Kerala' },
+  '700': { city: 'Kolkata', state: 'West Bengal' },
+  '751': { city: 'Bhubaneswar', state: 'Odisha' },
+  '781': { city: 'Guwahati', state: 'Assam' },
+  '800': { city: 'Patna', state: 'Bihar' },
+  '834': { city: 'Ranchi', state: 'Jharkhand' },
+};
+
+// States by the first two digits, where the postal circle lies within one
+// state. Prefixes shared between states are left out.
+const STATE_PREFIXES: Record<string, string> = {
+  '11': 'Delhi',
+  '12': 'Haryana',
+  '13': 'Haryana',
+  '14': 'Punjab',
+  '15': 'Punjab',
+  '17': 'Himachal Pradesh',
+  '18': 'Jammu and Kashmir',
+  '19': 'Jammu and Kashmir',
+  '20': 'Uttar Pradesh',
+  '21': 'Uttar Pradesh',
+  '22': 'Uttar Pradesh',
+  '23': 'Uttar Pradesh',
+  '27': 'Uttar Pradesh',
+  '28': 'Uttar Pradesh',
+  '30': 'Rajasthan',
+  '31': 'Rajasthan',
+  '32': 'Rajasthan',
+  '33': 'Rajasthan',
+  '34': 'Rajasthan',
+  '36': 'Gujarat',
+  '37': 'Gujarat',
+  '38': 'Gujarat',
+  '39': 'Gujarat',
+  '41': 'Maharashtra',
+  '42': 'Maharashtra',
+  '43': 'Maharashtra',
+  '44': 'Maharashtra',
+  '45': 'Madhya Pradesh',
+  '46': 'Madhya Pradesh',
+  '47': 'Madhya Pradesh',
+  '48': 'Madhya Pradesh',
+  '49': 'Chhattisgarh',
+  '50': 'Telangana',
+  '52': 'Andhra Pradesh',
+  '53': 'Andhra Pradesh',
+  '56': 'Karnataka',
+  '57': 'Karnataka',
+  '58': 'Karnataka',
+  '59': 'Karnataka',
+  '60': 'Tamil Nadu',
+  '61': 'Tamil Nadu',
+  '62': 'Tamil Nadu',
+  '63': 'Tamil Nadu',
+  '64': 'Tamil Nadu',
+  '67': 'Kerala',
+  '68': 'Kerala',
+  '69': 'Kerala',
+  '70': 'West Bengal',
+  '71': 'West Bengal',
+  '72': 'West Bengal',
+  '73': 'West Bengal',
+  '74': 'West Bengal',
+  '75': 'Odisha',
+  '76': 'Odisha',
+  '77': 'Odisha',
+  '78': 'Assam',
+};
+
+// City and state for a PIN code, as far as the local table knows. Returns
+// null for malformed codes and ones it has nothing for.
+export const lookupPinCode = (pinCode: string): { city?: string; state: string } | null => {
+  const pin = pinCode.trim();
+  if (!isValidPinCode(pin)) return null;
+  const city = CITY_PREFIXES[pin.slice(0, 3)];
+  if (city) return city;
+  const state = STATE_PREFIXES[pin.slice(0, 2)];
+  return state ? { state } : null;
+};
+
+// Why an address can't be used yet, or null when it's complete
+export const addressProblem = (address: ShippingAddress) => {
+  const required: [keyof ShippingAddress, string][] = [
+    ['fullName', 'full name'],
+    ['phone', 'mobile number'],
+    ['address', 'street address'],
+    ['city', 'city'],
+    ['state', 'state'],
+    ['zipCode', 'PIN code'],
+    ['country', 'country'],
+  ];
+  for (const [field, name] of required) {
+    if (!address[field]?.trim()) return `Please fill in ${name}`;
+  }
+  if (!isValidPinCode(address.zipCode)) return 'Enter a valid 6-digit PIN code';
+  if (!isValidPhone(address.phone!)) return 'Enter a valid 10-digit mobile number';
+  return null;
+};
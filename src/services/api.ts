@@ -1,35 +1,115 @@
 // API Service for connecting to backend
+import type {
+  AddressListResponse,
+  AddressResponse,
+  ApiResponse,
+  ApiValidationError,
+  AuthResponse,
+  AuthStatusResponse,
+  BundleListResponse,
+  BundleQuery,
+  BundleResponse,
+  CartLineInput,
+  CancelOrderRequest,
+  CartResponse,
+  CodEligibilityResponse,
+  CreateCodOrderResponse,
+  CreateOrderRequest,
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  CreateUpiPaymentRequest,
+  CreateUpiPaymentResponse,
+  FilterPresetsResponse,
+  HealthResponse,
+  OrderListResponse,
+  OrderResponse,
+  PaymentDetailsResponse,
+  PaymentStatusResponse,
+  ProductListResponse,
+  ProductQuery,
+  ProductResponse,
+  ProductSearchResponse,
+  ProductsByCategoryResponse,
+  ProfileResponse,
+  ReturnOrderRequest,
+  SaveAddressRequest,
+  SaveFilterPresetRequest,
+  SearchQuery,
+  ShippingEstimateRequest,
+  ShippingEstimateResponse,
+  SuggestResponse,
+  QuoteResponse,
+  QuoteShippingRequest,
+  ReviewListResponse,
+  ReviewQuery,
+  ReviewResponse,
+  SaveReviewRequest,
+  UpdateProfileRequest,
+  SimulatePaymentRequest,
+  SimulatePaymentResponse,
+  VariantSelection,
+  VerifyPaymentRequest,
+  WishlistResponse,
+  NotificationListResponse,
+  NotificationQuery,
+  NotificationResponse,
+  UnreadCountResponse,
+  WishlistAlertResponse,
+  UpdateWishlistAlertRequest,
+} from './types';
+
 const API_URL = (typeof import.meta !== 'undefined' && import.meta.env?.VITE_API_URL) 
   ? import.meta.env.VITE_API_URL 
   : 'http://localhost:5001/api';
 
+// Error thrown for any non-2xx response, carrying the HTTP status and the
+// server's `message` (or the first express-validator error)
+export class ApiError extends Error {
+  status: number;
+  errors: ApiValidationError[];
+
+  constructor(status: number, message: string, errors: ApiValidationError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
 // Helper function to handle API responses
-async function handleResponse(response: Response) {
-  const data = await response.json();
-  
+async function handleResponse<T>(response: Response): Promise<T> {
+  let data: (ApiResponse & { errors?: ApiValidationError[] }) | null = null;
+
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON body (proxy error page, empty 204, etc.)
+  }
+
   if (!response.ok) {
-    throw new Error(data.message || 'Something went wrong');
+    const errors = data?.errors || [];
+    throw new ApiError(
+      response.status,
+      data?.message || errors[0]?.msg || response.statusText || 'Something went wrong',
+      errors
+    );
   }
-  
-  return data;
+
+  return data as T;
 }
 
 // Helper function to make authenticated requests
-async function fetchWithAuth(url: string, options: RequestInit = {}) {
-  const defaultOptions: RequestInit = {
+async function fetchWithAuth<T = ApiResponse>(url: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_URL}${url}`, {
     credentials: 'include', // Include cookies
+    ...options,
     headers: {
       'Content-Type': 'application/json',
       ...options.headers,
     },
-  };
-
-  const response = await fetch(`${API_URL}${url}`, {
-    ...defaultOptions,
-    ...options,
   });
 
-  return handleResponse(response);
+  return handleResponse<T>(response);
 }
 
 // ============================================================================
@@ -39,7 +119,7 @@ async function fetchWithAuth(url: string, options: RequestInit = {}) {
 export const authAPI = {
   // Sign up with email/password
   signup: async (email: string, password: string, name: string) => {
-    return fetchWithAuth('/auth/signup', {
+    return fetchWithAuth<AuthResponse>('/auth/signup', {
       method: 'POST',
       body: JSON.stringify({ email, password, name }),
     });
@@ -47,7 +127,7 @@ export const authAPI = {
 
   // Login with email/password
   login: async (email: string, password: string) => {
-    return fetchWithAuth('/auth/login', {
+    return fetchWithAuth<AuthResponse>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     });
@@ -62,17 +142,18 @@ export const authAPI = {
 
   // Get current user
   getCurrentUser: async () => {
-    return fetchWithAuth('/auth/me');
+    return fetchWithAuth<AuthResponse>('/auth/me');
   },
 
   // Check auth status
   checkAuthStatus: async () => {
-    return fetchWithAuth('/auth/status');
+    return fetchWithAuth<AuthStatusResponse>('/auth/status');
   },
 
-  // Google OAuth login URL
-  getGoogleLoginUrl: () => {
-    return `${API_URL}/auth/google`;
+  // Google OAuth login URL; returnTo is carried through the OAuth state
+  getGoogleLoginUrl: (returnTo?: string) => {
+    const query = returnTo ? `?returnTo=${encodeURIComponent(returnTo)}` : '';
+    return `${API_URL}/auth/google${query}`;
   },
 };
 
@@ -82,16 +163,7 @@ export const authAPI = {
 
 export const productsAPI = {
   // Get all products with filters
-  getProducts: async (params?: {
-    category?: string;
-    search?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    inStock?: boolean;
-    sort?: string;
-    page?: number;
-    limit?: number;
-  }) => {
+  getProducts: async (params?: ProductQuery) => {
     const queryParams = new URLSearchParams();
     
     if (params) {
@@ -103,17 +175,43 @@ export const productsAPI = {
     }
 
     const url = `/products${queryParams.toString() ? `?${queryParams}` : ''}`;
-    return fetchWithAuth(url);
+    return fetchWithAuth<ProductListResponse>(url);
+  },
+
+  // Specific products by id, e.g. the ones in a cart or wishlist
+  getProductsByIds: async (ids: string[]) => {
+    const limit = 100;
+    const responses = await Promise.all(
+      Array.from({ length: Math.ceil(ids.length / limit) }, (_, i) =>
+        productsAPI.getProducts({ ids: ids.slice(i * limit, (i + 1) * limit).join(','), limit })
+      )
+    );
+    return { success: true, products: responses.flatMap(response => response.products) };
+  },
+
+  // Ranked, typo-tolerant search with facet counts
+  search: async (params: SearchQuery, signal?: AbortSignal) => {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return;
+      queryParams.append(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+    return fetchWithAuth<ProductSearchResponse>(`/products/search?${queryParams}`, { signal });
+  },
+
+  // Autocomplete for the search box
+  suggest: async (q: string, signal?: AbortSignal) => {
+    return fetchWithAuth<SuggestResponse>(`/products/suggest?q=${encodeURIComponent(q)}`, { signal });
   },
 
   // Get single product by slug
   getProduct: async (slug: string) => {
-    return fetchWithAuth(`/products/${slug}`);
+    return fetchWithAuth<ProductResponse>(`/products/${slug}`);
   },
 
   // Get products by category
   getProductsByCategory: async (category: string) => {
-    return fetchWithAuth(`/products/category/${category}`);
+    return fetchWithAuth<ProductsByCategoryResponse>(`/products/category/${category}`);
   },
 };
 
@@ -123,11 +221,7 @@ export const productsAPI = {
 
 export const bundlesAPI = {
   // Get all bundles
-  getBundles: async (params?: {
-    category?: string;
-    page?: number;
-    limit?: number;
-  }) => {
+  getBundles: async (params?: BundleQuery) => {
     const queryParams = new URLSearchParams();
     
     if (params) {
@@ -139,12 +233,109 @@ export const bundlesAPI = {
     }
 
     const url = `/bundles${queryParams.toString() ? `?${queryParams}` : ''}`;
-    return fetchWithAuth(url);
+    return fetchWithAuth<BundleListResponse>(url);
   },
 
   // Get single bundle by slug
   getBundle: async (slug: string) => {
-    return fetchWithAuth(`/bundles/${slug}`);
+    return fetchWithAuth<BundleResponse>(`/bundles/${slug}`);
+  },
+};
+
+// ============================================================================
+// REVIEWS API
+// ============================================================================
+
+export const reviewsAPI = {
+  // Get a page of a product's reviews, with the rating summary
+  getReviews: async (productId: string, params: ReviewQuery = {}) => {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        queryParams.append(key, String(value));
+      }
+    });
+
+    const url = `/reviews/product/${productId}${queryParams.toString() ? `?${queryParams}` : ''}`;
+    return fetchWithAuth<ReviewListResponse>(url);
+  },
+
+  // Review a product
+  createReview: async (productId: string, data: SaveReviewRequest) => {
+    return fetchWithAuth<ReviewResponse>(`/reviews/product/${productId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Edit your review
+  updateReview: async (reviewId: string, data: SaveReviewRequest) => {
+    return fetchWithAuth<ReviewResponse>(`/reviews/${reviewId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete your review
+  deleteReview: async (reviewId: string) => {
+    return fetchWithAuth<ApiResponse>(`/reviews/${reviewId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Mark or unmark a review as helpful
+  toggleHelpful: async (reviewId: string) => {
+    return fetchWithAuth<ReviewResponse>(`/reviews/${reviewId}/helpful`, {
+      method: 'POST',
+    });
+  },
+
+  // Reply to a review
+  addReply: async (reviewId: string, comment: string) => {
+    return fetchWithAuth<ReviewResponse>(`/reviews/${reviewId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ comment }),
+    });
+  },
+
+  // Delete your reply
+  deleteReply: async (reviewId: string, replyId: string) => {
+    return fetchWithAuth<ReviewResponse>(`/reviews/${reviewId}/replies/${replyId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// ============================================================================
+// NOTIFICATIONS API
+// ============================================================================
+
+export const notificationsAPI = {
+  // Get a page of your notifications with the unread count
+  getNotifications: async (params: NotificationQuery = {}) => {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        queryParams.append(key, String(value));
+      }
+    });
+
+    const url = `/notifications${queryParams.toString() ? `?${queryParams}` : ''}`;
+    return fetchWithAuth<NotificationListResponse>(url);
+  },
+
+  // Mark one notification as read
+  markRead: async (notificationId: string) => {
+    return fetchWithAuth<NotificationResponse>(`/notifications/${notificationId}/read`, {
+      method: 'PUT',
+    });
+  },
+
+  // Mark every notification as read
+  markAllRead: async () => {
+    return fetchWithAuth<UnreadCountResponse>('/notifications/read-all', {
+      method: 'PUT',
+    });
   },
 };
 
@@ -155,19 +346,12 @@ export const bundlesAPI = {
 export const userAPI = {
   // Get user profile
   getProfile: async () => {
-    return fetchWithAuth('/user/profile');
+    return fetchWithAuth<ProfileResponse>('/user/profile');
   },
 
   // Update user profile
-  updateProfile: async (data: {
-    name?: string;
-    email?: string;
-    preferences?: {
-      theme?: string;
-      notifications?: boolean;
-    };
-  }) => {
-    return fetchWithAuth('/user/profile', {
+  updateProfile: async (data: UpdateProfileRequest) => {
+    return fetchWithAuth<ProfileResponse>('/user/profile', {
       method: 'PUT',
       body: JSON.stringify(data),
     });
@@ -175,20 +359,20 @@ export const userAPI = {
 
   // Get cart
   getCart: async () => {
-    return fetchWithAuth('/user/cart');
+    return fetchWithAuth<CartResponse>('/user/cart');
   },
 
   // Add item to cart
-  addToCart: async (productId?: string, bundleId?: string, quantity = 1) => {
-    return fetchWithAuth('/user/cart', {
+  addToCart: async (productId?: string, bundleId?: string, quantity = 1, variant?: VariantSelection) => {
+    return fetchWithAuth<CartResponse>('/user/cart', {
       method: 'POST',
-      body: JSON.stringify({ productId, bundleId, quantity }),
+      body: JSON.stringify({ productId, bundleId, quantity, variant }),
     });
   },
 
   // Update cart item quantity
   updateCartItem: async (itemId: string, quantity: number) => {
-    return fetchWithAuth(`/user/cart/${itemId}`, {
+    return fetchWithAuth<CartResponse>(`/user/cart/${itemId}`, {
       method: 'PUT',
       body: JSON.stringify({ quantity }),
     });
@@ -196,56 +380,101 @@ export const userAPI = {
 
   // Remove item from cart
   removeFromCart: async (itemId: string) => {
-    return fetchWithAuth(`/user/cart/${itemId}`, {
+    return fetchWithAuth<CartResponse>(`/user/cart/${itemId}`, {
       method: 'DELETE',
     });
   },
 
+  // Merge a guest cart into the server cart
+  mergeCart: async (items: CartLineInput[]) => {
+    return fetchWithAuth<CartResponse>('/user/cart/merge', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+  },
+
   // Clear cart
   clearCart: async () => {
-    return fetchWithAuth('/user/cart', {
+    return fetchWithAuth<CartResponse>('/user/cart', {
       method: 'DELETE',
     });
   },
 
   // Get wishlist
   getWishlist: async () => {
-    return fetchWithAuth('/user/wishlist');
+    return fetchWithAuth<WishlistResponse>('/user/wishlist');
   },
 
   // Toggle product in wishlist
   toggleWishlist: async (productId: string) => {
-    return fetchWithAuth(`/user/wishlist/${productId}`, {
+    return fetchWithAuth<WishlistResponse>(`/user/wishlist/${productId}`, {
+      method: 'POST',
+    });
+  },
+
+  // Choose which alerts to get for a wishlisted product
+  updateWishlistAlerts: async (productId: string, data: UpdateWishlistAlertRequest) => {
+    return fetchWithAuth<WishlistAlertResponse>(`/user/wishlist/${productId}/alerts`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Get saved product filter presets
+  getFilterPresets: async () => {
+    return fetchWithAuth<FilterPresetsResponse>('/user/filter-presets');
+  },
+
+  // Save a named filter preset (same name replaces it)
+  saveFilterPreset: async (data: SaveFilterPresetRequest) => {
+    return fetchWithAuth<FilterPresetsResponse>('/user/filter-presets', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Delete a saved filter preset
+  deleteFilterPreset: async (presetId: string) => {
+    return fetchWithAuth<FilterPresetsResponse>(`/user/filter-presets/${presetId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Get the address book
+  getAddresses: async () => {
+    return fetchWithAuth<AddressListResponse>('/user/addresses');
+  },
+
+  // Save a new address; the first one becomes the default
+  addAddress: async (data: SaveAddressRequest) => {
+    return fetchWithAuth<AddressResponse>('/user/addresses', {
       method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Replace a saved address; `isDefault: true` also makes it the default
+  updateAddress: async (addressId: string, data: SaveAddressRequest) => {
+    return fetchWithAuth<AddressResponse>(`/user/addresses/${addressId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteAddress: async (addressId: string) => {
+    return fetchWithAuth<AddressListResponse>(`/user/addresses/${addressId}`, {
+      method: 'DELETE',
     });
   },
 
   // Get orders
   getOrders: async () => {
-    return fetchWithAuth('/user/orders');
+    return fetchWithAuth<OrderListResponse>('/user/orders');
   },
 
   // Create order
-  createOrder: async (data: {
-    items: Array<{
-      productId?: string;
-      bundleId?: string;
-      name: string;
-      quantity: number;
-      price: number;
-      image?: string;
-    }>;
-    shippingAddress: {
-      fullName: string;
-      address: string;
-      city: string;
-      state: string;
-      zipCode: string;
-      country: string;
-    };
-    paymentMethod: string;
-  }) => {
-    return fetchWithAuth('/user/orders', {
+  createOrder: async (data: CreateOrderRequest) => {
+    return fetchWithAuth<OrderResponse>('/user/orders', {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -253,7 +482,23 @@ export const userAPI = {
 
   // Get single order
   getOrder: async (orderId: string) => {
-    return fetchWithAuth(`/user/orders/${orderId}`);
+    return fetchWithAuth<OrderResponse>(`/user/orders/${orderId}`);
+  },
+
+  // Cancel some or all of an unshipped order
+  cancelOrder: async (orderId: string, data: CancelOrderRequest) => {
+    return fetchWithAuth<OrderResponse>(`/user/orders/${orderId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Request a return for some or all of a delivered order
+  requestReturn: async (orderId: string, data: ReturnOrderRequest) => {
+    return fetchWithAuth<OrderResponse>(`/user/orders/${orderId}/returns`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
   },
 };
 
@@ -262,77 +507,61 @@ export const userAPI = {
 // ============================================================================
 
 export const paymentAPI = {
-  // Create Razorpay order
-  createRazorpayOrder: async (data: {
-    items: Array<{
-      productId?: string;
-      bundleId?: string;
-      name: string;
-      quantity: number;
-      price: number;
-      image?: string;
-    }>;
-    shippingAddress: {
-      fullName: string;
-      address: string;
-      city: string;
-      state: string;
-      zipCode: string;
-      country: string;
-    };
-  }) => {
-    return fetchWithAuth('/payment/create-order', {
+  // Price breakdown the create endpoints will charge for these lines.
+  // Shipping is priced once there's a PIN code.
+  getQuote: async (items: CartLineInput[], couponCode?: string, shipping: QuoteShippingRequest = {}) => {
+    return fetchWithAuth<QuoteResponse>('/payment/quote', {
       method: 'POST',
+      body: JSON.stringify({ items, couponCode, ...shipping }),
+    });
+  },
+
+  // Create an order and open a payment for it with the server's provider
+  createPayment: async (data: CreatePaymentRequest, idempotencyKey: string) => {
+    return fetchWithAuth<CreatePaymentResponse>('/payment/create-order', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
       body: JSON.stringify(data),
     });
   },
 
-  // Verify Razorpay payment
-  verifyRazorpayPayment: async (data: {
-    razorpay_order_id: string;
-    razorpay_payment_id: string;
-    razorpay_signature: string;
-    orderId: string;
-  }) => {
-    return fetchWithAuth('/payment/verify-payment', {
+  // Verify the confirmation from the provider's payment UI
+  verifyPayment: async (data: VerifyPaymentRequest) => {
+    return fetchWithAuth<OrderResponse>('/payment/verify-payment', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
   // Create UPI payment
-  createUpiPayment: async (data: {
-    items: Array<{
-      productId?: string;
-      bundleId?: string;
-      name: string;
-      quantity: number;
-      price: number;
-      image?: string;
-    }>;
-    shippingAddress: {
-      fullName: string;
-      address: string;
-      city: string;
-      state: string;
-      zipCode: string;
-      country: string;
-    };
-    upiVPA: string;
-  }) => {
-    return fetchWithAuth('/payment/create-upi-payment', {
+  createUpiPayment: async (data: CreateUpiPaymentRequest, idempotencyKey: string) => {
+    return fetchWithAuth<CreateUpiPaymentResponse>('/payment/create-upi-payment', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Whether the order can be paid for on delivery to the address
+  checkCodEligibility: async (data: CreatePaymentRequest) => {
+    return fetchWithAuth<CodEligibilityResponse>('/payment/cod-eligibility', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
-  // Verify UPI payment
-  verifyUpiPayment: async (orderId: string, data: {
-    razorpay_payment_id: string;
-    razorpay_order_id: string;
-    razorpay_signature: string;
-  }) => {
-    return fetchWithAuth(`/payment/verify-upi/${orderId}`, {
+  // Place a cash on delivery order; no payment is taken now
+  createCodOrder: async (data: CreatePaymentRequest, idempotencyKey: string) => {
+    return fetchWithAuth<CreateCodOrderResponse>('/payment/create-cod-order', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Complete a payment with the fake provider (offline development only)
+  simulateFakePayment: async (data: SimulatePaymentRequest) => {
+    return fetchWithAuth<SimulatePaymentResponse>('/payment/fake/simulate', {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -340,12 +569,31 @@ export const paymentAPI = {
 
   // Get payment status
   getPaymentStatus: async (orderId: string) => {
-    return fetchWithAuth(`/payment/status/${orderId}`);
+    return fetchWithAuth<PaymentStatusResponse>(`/payment/status/${orderId}`);
+  },
+
+  // Live order status: `status` events carrying an OrderStatusUpdate
+  openStatusStream: (orderId: string) => {
+    return new EventSource(`${API_URL}/payment/stream/${orderId}`, { withCredentials: true });
   },
 
   // Get payment details
   getPaymentDetails: async (paymentId: string) => {
-    return fetchWithAuth(`/payment/details/${paymentId}`);
+    return fetchWithAuth<PaymentDetailsResponse>(`/payment/details/${paymentId}`);
+  },
+};
+
+// ============================================================================
+// SHIPPING API
+// ============================================================================
+
+export const shippingAPI = {
+  // Shipping methods, rates and delivery dates for lines to a PIN code
+  estimate: async (data: ShippingEstimateRequest) => {
+    return fetchWithAuth<ShippingEstimateResponse>('/shipping/estimate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
   },
 };
 
@@ -355,7 +603,7 @@ export const paymentAPI = {
 
 export const healthAPI = {
   check: async () => {
-    return fetchWithAuth('/health');
+    return fetchWithAuth<HealthResponse>('/health');
   },
 };
 
@@ -365,5 +613,6 @@ export default {
   bundles: bundlesAPI,
   user: userAPI,
   payment: paymentAPI,
+  shipping: shippingAPI,
   health: healthAPI,
 };
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Cart line helpers and guest cart persistence.
+// Guests keep their cart in localStorage; once logged in the server cart is
+// the source of truth and these helpers only shape optimistic updates.
+import type { CartItem } from '../contexts/AppContext';
+import type { CartLineInput, VariantSelection } from './types';
+import { cartLineKey, normalizeVariant } from './variants';
+
+const GUEST_CART_KEY = 'productlab.guestCart';
+
+// ============================================================================
+// GUEST STORAGE
+// ============================================================================
+
+const isCartItem = (value: unknown): value is CartItem => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  const hasRef = typeof item.productId === 'string' || typeof item.bundleId === 'string';
+  return hasRef && typeof item.quantity === 'number' && item.quantity > 0;
+};
+
+export const loadGuestCart = (): CartItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isCartItem) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGuestCart = (items: CartItem[]) => {
+  try {
+    // Server ids are meaningless once logged out
+    const lines = items.map(({ itemId: _itemId, ...line }) => line);
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines));
+  } catch (error) {
+    console.error('Failed to persist guest cart:', error);
+  }
+};
+
+export const clearGuestCart = () => {
+  localStorage.removeItem(GUEST_CART_KEY);
+};
+
+export const toCartLineInputs = (items: CartItem[]): CartLineInput[] =>
+  items.map(item => ({
+    productId: item.productId,
+    bundleId: item.bundleId,
+    variant: item.variant,
+    quantity: item.quantity,
+  }));
+
+// ============================================================================
+// LINE UPDATES
+// ============================================================================
+
+// Bundles are a single line regardless of the products inside them
+export const bundleLineKey = (bundleId: string) => `bundle:${bundleId}`;
+
+export const lineKey = (item: CartItem) =>
+  item.bundleId ? bundleLineKey(item.bundleId) : cartLineKey(item.productId!, item.variant);
+
+export const findLine = (items: CartItem[], key: string) =>
+  items.find(item => lineKey(item) === key);
+
+// The same product in a different variant is a separate line
+export const addLine = (
+  items: CartItem[],
+  productId: string,
+  quantity: number,
+  variant?: VariantSelection
+): CartItem[] => {
+  const selection = normalizeVariant(variant);
+  const key = cartLineKey(productId, selection);
+
+  if (findLine(items, key)) {
+    return items.map(item =>
+      lineKey(item) === key ? { ...item, quantity: item.quantity + quantity } : item
+    );
+  }
+  return [...items, { productId, quantity, variant: selection }];
+};
+
+export const addBundleLine = (items: CartItem[], bundleId: string, quantity: number): CartItem[] => {
+  const key = bundleLineKey(bundleId);
+
+  if (findLine(items, key)) {
+    return items.map(item =>
+      lineKey(item) === key ? { ...item, quantity: item.quantity + quantity } : item
+    );
+  }
+  return [...items, { bundleId, quantity }];
+};
+
+export const setLineQuantity = (items: CartItem[], key: string, quantity: number): CartItem[] =>
+  items.map(item => (lineKey(item) === key ? { ...item, quantity } : item));
+
+export const removeLine = (items: CartItem[], key: string): CartItem[] =>
+  items.filter(item => lineKey(item) !== key);
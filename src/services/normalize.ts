@@ -0,0 +1,271 @@
+// Runtime validation and normalization of backend responses.
+// Raw JSON from the API is parsed against zod schemas before it reaches the
+// UI; records that fail are dropped and reported instead of rendering broken
+// cards.
+import { z } from 'zod';
+import type { Bundle, CartItem, Product, ProductReview, ReviewReply, User } from '../contexts/AppContext';
+import type { ApiCartItem, ApiOrder, ApiReview, ApiReviewReply, ApiUser, Ref } from './types';
+import { normalizeVariant } from './variants';
+
+export type RecordKind = 'product' | 'bundle' | 'order';
+
+export interface RejectedRecord {
+  kind: RecordKind;
+  id?: string;
+  label?: string;
+  reason: string;
+}
+
+export interface NormalizeResult<T> {
+  records: T[];
+  rejected: RejectedRecord[];
+}
+
+const DEFAULT_AVATAR = 'https://unsplash.com/photos/a-phone-with-a-happy-face-on-it-hszJpiM6cr0';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const objectId = z.string().min(1, 'missing id');
+
+// A ref is either an ObjectId string or a populated document with an _id
+const ref = z.union([objectId, z.object({ _id: objectId }).passthrough()]);
+
+const productSchema = z
+  .object({
+    _id: objectId,
+    name: z.string().trim().min(1, 'name is empty'),
+    slug: z.string().optional(),
+    description: z.string().default(''),
+    category: z.string().min(1, 'category is empty'),
+    price: z.number().nonnegative('price must be a non-negative number'),
+    originalPrice: z.number().nonnegative().optional(),
+    images: z.array(z.string()).default([]),
+    mainImage: z.string().optional(),
+    inStock: z.boolean().default(true),
+    stock: z.number().default(0),
+    rating: z.number().min(0).max(5).default(0),
+    reviews: z.number().default(0),
+    tags: z.array(z.string()).default([]),
+    options: z
+      .array(z.object({ name: z.string().min(1), values: z.array(z.string()).min(1) }))
+      .default([]),
+    variants: z
+      .array(
+        z.object({
+          sku: z.string().optional(),
+          attributes: z.record(z.string()),
+          price: z.number().nonnegative().optional(),
+          stock: z.number().nonnegative().default(0),
+        })
+      )
+      .default([]),
+  })
+  .refine(p => p.images.length > 0 || Boolean(p.mainImage), {
+    message: 'product has no images',
+    path: ['images'],
+  });
+
+const bundleSchema = z
+  .object({
+    _id: objectId,
+    name: z.string().trim().min(1, 'name is empty'),
+    slug: z.string().optional(),
+    description: z.string().default(''),
+    products: z
+      .array(z.object({ product: ref.nullable(), quantity: z.number().int().min(1).default(1) }))
+      .min(1, 'bundle has no products'),
+    price: z.number().nonnegative('price must be a non-negative number'),
+    originalPrice: z.number().nonnegative('originalPrice must be a non-negative number'),
+    image: z.string().min(1, 'image is missing'),
+    category: z.string().optional(),
+    badge: z.string().optional(),
+    tags: z.array(z.string()).default([]),
+  })
+  .refine(b => b.products.some(p => p.product), {
+    message: 'bundle references no existing products',
+    path: ['products'],
+  });
+
+const orderSchema = z
+  .object({
+    _id: objectId,
+    orderNumber: z.string().min(1, 'orderNumber is empty'),
+    items: z
+      .array(
+        z
+          .object({
+            name: z.string(),
+            quantity: z.number().int().min(1),
+            price: z.number().nonnegative(),
+          })
+          .passthrough()
+      )
+      .min(1, 'order has no items'),
+    totalAmount: z.number().nonnegative('totalAmount must be a non-negative number'),
+    status: z.enum(['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'returned']),
+    paymentMethod: z.enum(['razorpay', 'upi', 'cash_on_delivery']),
+    paymentStatus: z.enum(['pending', 'completed', 'failed', 'expired', 'partially_refunded', 'refunded']),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Fallback for records saved before slugs were generated server-side
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const refId = (value: Ref<{ _id: string }> | null | undefined) =>
+  !value ? undefined : typeof value === 'string' ? value : value._id;
+
+// The documents the backend populated among refs, leaving out bare ids
+export const populatedRefs = <T>(refs: (Ref<T> | null | undefined)[]) =>
+  refs.filter((ref): ref is T => Boolean(ref) && typeof ref !== 'string');
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+// Best-effort identification of a record that failed validation
+const identify = (raw: unknown) => {
+  if (!raw || typeof raw !== 'object') return {};
+  const record = raw as Record<string, unknown>;
+  const str = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    id: str(record._id) || str(record.id),
+    label: str(record.name) || str(record.orderNumber) || str(record.slug),
+  };
+};
+
+function normalizeAll<S extends z.ZodTypeAny, T>(
+  kind: RecordKind,
+  raw: unknown,
+  schema: S,
+  transform: (parsed: z.output<S>) => T
+): NormalizeResult<T> {
+  const result: NormalizeResult<T> = { records: [], rejected: [] };
+
+  if (!Array.isArray(raw)) {
+    result.rejected.push({ kind, reason: `expected an array of ${kind}s, got ${typeof raw}` });
+    return result;
+  }
+
+  raw.forEach(item => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      result.records.push(transform(parsed.data));
+    } else {
+      result.rejected.push({ kind, ...identify(item), reason: describeIssues(parsed.error) });
+    }
+  });
+
+  return result;
+}
+
+// ============================================================================
+// NORMALIZERS
+// ============================================================================
+
+export const normalizeProducts = (raw: unknown): NormalizeResult<Product> =>
+  normalizeAll('product', raw, productSchema, p => ({
+    id: p._id,
+    slug: p.slug || slugify(p.name),
+    title: p.name,
+    description: p.description,
+    price: p.price,
+    // A product switched off by the merchant has nothing to sell
+    stock: p.inStock ? p.stock : 0,
+    category: p.category,
+    tags: p.tags,
+    images: p.images.length > 0 ? p.images : [p.mainImage!],
+    variants: Object.fromEntries(p.options.map(option => [option.name, option.values])),
+    skus: p.variants,
+    story: { sections: [] },
+    reviews: [],
+  }));
+
+// Backend: {products: [{product: ObjectId | Product, quantity: 1}]}
+// Frontend: {products: ['productId1', 'productId2']}
+export const normalizeBundles = (raw: unknown): NormalizeResult<Bundle> =>
+  normalizeAll('bundle', raw, bundleSchema, b => ({
+    id: b._id,
+    slug: b.slug || slugify(b.name),
+    title: b.name,
+    description: b.description,
+    price: b.price,
+    originalPrice: b.originalPrice,
+    savings: Math.max(b.originalPrice - b.price, 0),
+    image: b.image,
+    products: b.products
+      .map(p => refId(p.product))
+      .filter((id): id is string => Boolean(id)),
+    tags: b.tags,
+    category: b.category,
+    badge: b.badge,
+  }));
+
+export const normalizeOrders = (raw: unknown): NormalizeResult<ApiOrder> =>
+  normalizeAll('order', raw, orderSchema, o => o as unknown as ApiOrder);
+
+// Map the backend user document onto the frontend User shape
+export const toUser = (user: ApiUser): User => ({
+  id: user._id,
+  username: user.name || 'User',
+  email: user.email,
+  avatar: user.avatar || DEFAULT_AVATAR,
+  wishlist: (user.wishlist || []).map(refId).filter((id): id is string => Boolean(id)),
+});
+
+// Reviews and replies come with the author populated; a deleted account
+// leaves a bare id
+const toReviewReply = (reply: ApiReviewReply): ReviewReply => {
+  const author = typeof reply.user === 'string' ? undefined : reply.user;
+  return {
+    id: reply._id,
+    userId: refId(reply.user),
+    user: author?.name || 'Former customer',
+    avatar: author?.avatar || DEFAULT_AVATAR,
+    comment: reply.comment,
+    createdAt: reply.createdAt,
+  };
+};
+
+export const toProductReview = (review: ApiReview): ProductReview => {
+  const reviewer = typeof review.user === 'string' ? undefined : review.user;
+  return {
+    id: review._id,
+    userId: refId(review.user),
+    user: reviewer?.name || 'Former customer',
+    avatar: reviewer?.avatar || DEFAULT_AVATAR,
+    rating: review.rating,
+    title: review.title,
+    comment: review.comment,
+    photos: review.photos,
+    verifiedPurchase: review.verifiedPurchase,
+    helpfulCount: review.helpfulCount,
+    votedHelpful: review.votedHelpful,
+    createdAt: review.createdAt,
+    replies: (review.replies || []).map(toReviewReply),
+  };
+};
+
+// Server cart lines reference a product or a bundle by (possibly populated)
+// ObjectId; lines whose product or bundle was deleted are dropped
+export const toCartItems = (items: ApiCartItem[]): CartItem[] =>
+  items
+    .filter(item => item.productId || item.bundleId)
+    .map(item =>
+      item.bundleId
+        ? { itemId: item._id, bundleId: refId(item.bundleId)!, quantity: item.quantity }
+        : {
+            itemId: item._id,
+            productId: refId(item.productId)!,
+            quantity: item.quantity,
+            variant: normalizeVariant(item.variant),
+          }
+    );
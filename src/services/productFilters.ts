@@ -0,0 +1,92 @@
+// Products page filters and their URL form, so a filtered view can be
+// bookmarked, shared, stepped through with back/forward and saved as a preset.
+//
+// Format (version 1), only non-default values are written:
+//   v=1  q=<text>  category=<id> (repeated)  tag=<id> (repeated)
+//   price=<min>-<max>  stock=1  sort=<ProductSort>  view=list
+//
+// `v` is bumped whenever the format changes incompatibly; links without it
+// (e.g. `paths.products({ category })`) are read as the current version.
+
+export type ProductSort = 'relevance' | 'newest' | 'trending' | 'price-low' | 'price-high' | 'title';
+export type ViewMode = 'grid' | 'list';
+
+export interface ProductFilters {
+  q: string;
+  categories: string[];
+  tags: string[];
+  priceRange: [number, number];
+  inStock: boolean;
+  sort: ProductSort;
+  view: ViewMode;
+}
+
+export const FILTERS_VERSION = 1;
+export const MAX_PRICE = 5000;
+
+export const PRODUCT_SORTS: ProductSort[] = ['relevance', 'newest', 'trending', 'price-low', 'price-high', 'title'];
+
+export const DEFAULT_FILTERS: ProductFilters = {
+  q: '',
+  categories: [],
+  tags: [],
+  priceRange: [0, MAX_PRICE],
+  inStock: false,
+  sort: 'relevance',
+  view: 'grid',
+};
+
+const isProductSort = (value: string | null): value is ProductSort =>
+  PRODUCT_SORTS.includes(value as ProductSort);
+
+const unique = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+const parsePriceRange = (value: string | null): [number, number] => {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return DEFAULT_FILTERS.priceRange;
+
+  const min = Math.min(Number(match[1]), MAX_PRICE);
+  const max = Math.min(Number(match[2]), MAX_PRICE);
+  return min <= max ? [min, max] : DEFAULT_FILTERS.priceRange;
+};
+
+export const hasPriceFilter = ([min, max]: [number, number]) => min > 0 || max < MAX_PRICE;
+
+// Number of filters narrowing the results; the text query and the sort and
+// view choices aren't counted
+export const countActiveFilters = (filters: ProductFilters) =>
+  filters.categories.length + filters.tags.length +
+  (hasPriceFilter(filters.priceRange) ? 1 : 0) + (filters.inStock ? 1 : 0);
+
+export const filtersFromParams = (params: URLSearchParams): ProductFilters => {
+  const version = Number(params.get('v') ?? FILTERS_VERSION);
+  // A link from a newer format can't be read reliably; show everything instead
+  if (version !== FILTERS_VERSION) return DEFAULT_FILTERS;
+
+  const sort = params.get('sort');
+  return {
+    q: params.get('q')?.trim() ?? '',
+    categories: unique(params.getAll('category')),
+    tags: unique(params.getAll('tag')),
+    priceRange: parsePriceRange(params.get('price')),
+    inStock: params.get('stock') === '1',
+    sort: isProductSort(sort) ? sort : DEFAULT_FILTERS.sort,
+    view: params.get('view') === 'list' ? 'list' : 'grid',
+  };
+};
+
+// Keys are always written in the same order, so equal filters give equal URLs
+export const filtersToParams = (filters: ProductFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set('v', String(FILTERS_VERSION));
+
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  [...filters.categories].sort().forEach(category => params.append('category', category));
+  [...filters.tags].sort().forEach(tag => params.append('tag', tag));
+  if (hasPriceFilter(filters.priceRange)) params.set('price', filters.priceRange.join('-'));
+  if (filters.inStock) params.set('stock', '1');
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.view !== DEFAULT_FILTERS.view) params.set('view', filters.view);
+
+  return params;
+};
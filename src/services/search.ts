@@ -0,0 +1,97 @@
+// Search helpers for the storefront. With a backend, suggestions and results
+// come from /products/suggest and /products/search; offline (mock data) the
+// same shapes are built from the products already loaded.
+import type { Product } from '../contexts/AppContext';
+import { productsAPI } from './api';
+import type { FacetCount, ProductSearchResponse, SearchQuery, SearchSuggestions } from './types';
+
+// How long a fetched results page is reused; matches the server's index TTL
+const PAGE_CACHE_TTL_MS = 60 * 1000;
+
+const pageCache = new Map<string, { fetchedAt: number; response: Promise<ProductSearchResponse> }>();
+
+// One page of search results. Pages are cached briefly so going back to a
+// query, or scrolling into a prefetched page, doesn't hit the network again.
+export const fetchSearchPage = (query: SearchQuery): Promise<ProductSearchResponse> => {
+  const key = JSON.stringify(query);
+  const cached = pageCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < PAGE_CACHE_TTL_MS) {
+    return cached.response;
+  }
+
+  const response = productsAPI.search(query);
+  const entry = { fetchedAt: Date.now(), response };
+  pageCache.set(key, entry);
+  // Failures aren't cached
+  response.catch(() => {
+    if (pageCache.get(key) === entry) pageCache.delete(key);
+  });
+  return response;
+};
+
+// Warm the cache for a page the user is likely to ask for next
+export const prefetchSearchPage = (query: SearchQuery) => {
+  fetchSearchPage(query).catch(() => undefined);
+};
+
+const matches = (text: string, query: string) => text.toLowerCase().includes(query);
+
+const countValues = (values: string[], query: string, limit: number): FacetCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()]
+    .filter(([value]) => matches(value, query))
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+export const suggestFromProducts = (products: Product[], q: string, limit = 5): SearchSuggestions => {
+  const query = q.trim().toLowerCase();
+  if (!query) return { products: [], categories: [], tags: [] };
+
+  return {
+    products: products
+      .filter(p => matches(p.title, query) || p.tags.some(tag => matches(tag, query)))
+      .slice(0, limit)
+      .map(p => ({
+        _id: p.id,
+        name: p.title,
+        slug: p.slug,
+        category: p.category,
+        price: p.price,
+        image: p.images[0],
+      })),
+    categories: countValues(products.map(p => p.category), query, limit),
+    tags: countValues(products.flatMap(p => p.tags), query, limit),
+  };
+};
+
+// One selectable row in the suggestion dropdown, in display order
+export type SuggestionOption =
+  | { kind: 'product'; key: string; label: string; slug: string; image?: string; price: number }
+  | { kind: 'category'; key: string; label: string; count: number }
+  | { kind: 'tag'; key: string; label: string; count: number };
+
+export const toSuggestionOptions = (suggestions: SearchSuggestions): SuggestionOption[] => [
+  ...suggestions.products.map(p => ({
+    kind: 'product' as const,
+    key: `product:${p._id}`,
+    label: p.name,
+    slug: p.slug,
+    image: p.image,
+    price: p.price,
+  })),
+  ...suggestions.categories.map(c => ({
+    kind: 'category' as const,
+    key: `category:${c.value}`,
+    label: c.value,
+    count: c.count,
+  })),
+  ...suggestions.tags.map(t => ({
+    kind: 'tag' as const,
+    key: `tag:${t.value}`,
+    label: t.value,
+    count: t.count,
+  })),
+];
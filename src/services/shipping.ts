@@ -0,0 +1,31 @@
+// Delivery estimate formatting, and the PIN code the product page last
+// checked delivery to, kept in localStorage so it carries across products.
+import type { DeliveryEstimate } from './types';
+
+const DELIVERY_PIN_CODE_KEY = 'productlab.deliveryPinCode';
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+
+// "Wed, 21 Oct – Fri, 23 Oct", or a single day when the window is one day
+export const formatDeliveryWindow = ({ earliest, latest }: Pick<DeliveryEstimate, 'earliest' | 'latest'>) => {
+  const from = formatDay(earliest);
+  const to = formatDay(latest);
+  return from === to ? from : `${from} – ${to}`;
+};
+
+export const loadDeliveryPinCode = () => {
+  try {
+    return localStorage.getItem(DELIVERY_PIN_CODE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveDeliveryPinCode = (pinCode: string) => {
+  try {
+    localStorage.setItem(DELIVERY_PIN_CODE_KEY, pinCode);
+  } catch (error) {
+    console.error('Failed to remember delivery PIN code:', error);
+  }
+};
@@ -0,0 +1,24 @@
+// Stock display rules shared by product cards, the product page and the cart.
+// `undefined` stock means the product isn't tracked (e.g. offline mock data).
+
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type StockState = 'untracked' | 'in_stock' | 'low' | 'out';
+
+export const stockState = (stock?: number): StockState => {
+  if (stock === undefined) return 'untracked';
+  if (stock <= 0) return 'out';
+  return stock <= LOW_STOCK_THRESHOLD ? 'low' : 'in_stock';
+};
+
+// Short label for low and empty stock; null when there's nothing to warn about
+export const stockLabel = (stock?: number): string | null => {
+  const state = stockState(stock);
+  if (state === 'out') return 'Out of stock';
+  if (state === 'low') return `Only ${stock} left`;
+  return null;
+};
+
+// Whether `quantity` units fit within the available stock
+export const fitsStock = (quantity: number, stock?: number) =>
+  stock === undefined || quantity <= stock;
@@ -0,0 +1,802 @@
+// Shared DTOs for the backend API.
+// These mirror the Mongoose models in src/backend/models and the JSON
+// envelopes returned by the Express routes in src/backend/routes.
+
+// ============================================================================
+// COMMON
+// ============================================================================
+
+interface Timestamps {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiResponse {
+  success: boolean;
+  message?: string;
+}
+
+// express-validator error entry, returned as `errors` on 400 responses
+export interface ApiValidationError {
+  type?: string;
+  msg: string;
+  path?: string;
+  location?: string;
+}
+
+export interface Paginated {
+  totalPages: number;
+  currentPage: number;
+  total: number;
+}
+
+// A ref field is either an ObjectId string or the populated document
+export type Ref<T> = T | string;
+
+// ============================================================================
+// PRODUCTS & BUNDLES
+// ============================================================================
+
+export type ProductCategory = 'audio' | 'wearables' | 'accessories' | 'smart-home' | 'gaming';
+
+// Option values a shopper picks from, e.g. { colors: 'neon-blue' }
+export type VariantSelection = Record<string, string>;
+
+export interface ApiProductOption {
+  _id?: string;
+  name: string;
+  values: string[];
+}
+
+// Price/stock override for one combination of option values
+export interface ApiProductVariant {
+  _id?: string;
+  sku?: string;
+  attributes: VariantSelection;
+  price?: number;
+  stock: number;
+}
+
+export interface ApiProduct extends Timestamps {
+  _id: string;
+  name: string;
+  slug: string;
+  description: string;
+  category: ProductCategory;
+  price: number;
+  originalPrice?: number;
+  images: string[];
+  mainImage: string;
+  inStock: boolean;
+  stock: number;
+  rating: number;
+  reviews: number;
+  features: string[];
+  specs?: Record<string, string>;
+  options: ApiProductOption[];
+  variants: ApiProductVariant[];
+  badge: 'new' | 'bestseller' | 'limited' | '';
+  tags: string[];
+  isActive: boolean;
+}
+
+export interface ApiBundleProduct {
+  _id?: string;
+  product: Ref<ApiProduct>;
+  quantity: number;
+}
+
+export interface ApiBundle extends Timestamps {
+  _id: string;
+  name: string;
+  slug: string;
+  description: string;
+  products: ApiBundleProduct[];
+  price: number;
+  originalPrice: number;
+  discount?: number;
+  image: string;
+  category: string;
+  inStock: boolean;
+  isActive: boolean;
+  badge: 'popular' | 'limited' | 'exclusive' | '';
+  tags: string[];
+}
+
+export interface ProductQuery {
+  // Comma-separated product ids
+  ids?: string;
+  category?: string;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface BundleQuery {
+  category?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ProductListResponse extends ApiResponse, Paginated {
+  products: ApiProduct[];
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export type SearchSort = 'relevance' | 'newest' | 'price-low' | 'price-high' | 'title' | 'rating';
+
+export interface SearchQuery {
+  q?: string;
+  categories?: string[];
+  tags?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: SearchSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceBucketFacet {
+  label: string;
+  min: number;
+  max?: number;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  prices: PriceBucketFacet[];
+}
+
+export interface ProductSearchResponse extends ProductListResponse {
+  facets: SearchFacets;
+}
+
+export interface ProductSuggestion {
+  _id: string;
+  name: string;
+  slug: string;
+  category: string;
+  price: number;
+  image?: string;
+}
+
+export interface SearchSuggestions {
+  products: ProductSuggestion[];
+  categories: FacetCount[];
+  tags: FacetCount[];
+}
+
+export interface SuggestResponse extends ApiResponse {
+  suggestions: SearchSuggestions;
+}
+
+export interface ProductResponse extends ApiResponse {
+  product: ApiProduct;
+}
+
+export interface ProductsByCategoryResponse extends ApiResponse {
+  products: ApiProduct[];
+  count: number;
+}
+
+export interface BundleListResponse extends ApiResponse, Paginated {
+  bundles: ApiBundle[];
+}
+
+export interface BundleResponse extends ApiResponse {
+  bundle: ApiBundle;
+}
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest' | 'helpful';
+
+export interface ReviewQuery {
+  page?: number;
+  limit?: number;
+  rating?: number;
+  sort?: ReviewSort;
+}
+
+type ReviewAuthor = Ref<{ _id: string; name: string; avatar?: string }>;
+
+export interface ApiReviewReply {
+  _id: string;
+  user: ReviewAuthor;
+  comment: string;
+  createdAt: string;
+}
+
+export interface ApiReview extends Timestamps {
+  _id: string;
+  product: string;
+  user: ReviewAuthor;
+  rating: number;
+  title: string;
+  comment: string;
+  photos: string[];
+  verifiedPurchase: boolean;
+  helpfulCount: number;
+  votedHelpful: boolean;
+  replies: ApiReviewReply[];
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  // Number of reviews per star rating, keyed '1'–'5'
+  distribution: Record<string, number>;
+}
+
+export interface SaveReviewRequest {
+  rating: number;
+  title?: string;
+  comment: string;
+  photos?: string[];
+}
+
+export interface ReviewListResponse extends ApiResponse, Paginated {
+  reviews: ApiReview[];
+  summary: ReviewSummary;
+}
+
+export interface ReviewResponse extends ApiResponse {
+  review: ApiReview;
+}
+
+// ============================================================================
+// USERS, CART & WISHLIST
+// ============================================================================
+
+export interface ApiCartItem {
+  _id: string;
+  productId?: Ref<ApiProduct> | null;
+  bundleId?: Ref<ApiBundle> | null;
+  variant?: VariantSelection;
+  quantity: number;
+  addedAt: string;
+}
+
+export interface UserPreferences {
+  theme: 'light' | 'dark';
+  // Master switch for in-app notifications
+  notifications: boolean;
+  notificationCategories: Record<NotificationCategory, boolean>;
+}
+
+export interface ApiUser extends Timestamps {
+  _id: string;
+  email: string;
+  name: string;
+  authProvider: 'local' | 'google';
+  googleId?: string;
+  avatar: string;
+  role?: 'customer' | 'admin';
+  cart: ApiCartItem[];
+  wishlist: Ref<ApiProduct>[];
+  orders: string[];
+  preferences: UserPreferences;
+  filterPresets?: FilterPreset[];
+  addresses?: SavedAddress[];
+}
+
+export interface AuthResponse extends ApiResponse {
+  user: ApiUser;
+}
+
+export interface AuthStatusResponse extends ApiResponse {
+  authenticated: boolean;
+  user: ApiUser | null;
+}
+
+export interface UpdateProfileRequest {
+  name?: string;
+  email?: string;
+  preferences?: Partial<Omit<UserPreferences, 'notificationCategories'>> & {
+    notificationCategories?: Partial<Record<NotificationCategory, boolean>>;
+  };
+}
+
+export interface ProfileResponse extends ApiResponse {
+  user: ApiUser;
+}
+
+// Guest cart line sent when merging into the server cart on login
+export interface CartLineInput {
+  productId?: string;
+  bundleId?: string;
+  variant?: VariantSelection;
+  quantity: number;
+}
+
+export interface CartResponse extends ApiResponse {
+  cart: ApiCartItem[];
+}
+
+// Price and stock watch created when a product is wishlisted
+export interface WishlistAlert extends Timestamps {
+  _id: string;
+  user: string;
+  product: string;
+  savedPrice: number;
+  lastPrice: number;
+  wasInStock: boolean;
+  priceDrop: boolean;
+  backInStock: boolean;
+}
+
+export interface UpdateWishlistAlertRequest {
+  priceDrop?: boolean;
+  backInStock?: boolean;
+}
+
+export interface WishlistResponse extends ApiResponse {
+  wishlist: ApiProduct[];
+  // Only returned when fetching the wishlist
+  alerts?: WishlistAlert[];
+}
+
+export interface WishlistAlertResponse extends ApiResponse {
+  alert: WishlistAlert;
+}
+
+// A named products-page view; `query` is the versioned filter query string
+export interface FilterPreset {
+  _id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
+
+export interface SaveFilterPresetRequest {
+  name: string;
+  query: string;
+}
+
+export interface FilterPresetsResponse extends ApiResponse {
+  presets: FilterPreset[];
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+export type NotificationType =
+  | 'order_status'
+  | 'payment_failed'
+  | 'refund_issued'
+  | 'return_rejected'
+  | 'price_drop'
+  | 'back_in_stock'
+  | 'review_reply';
+
+// Preference group a notification type belongs to
+export type NotificationCategory = 'orders' | 'payments' | 'wishlist' | 'reviews';
+
+export interface ApiNotification extends Timestamps {
+  _id: string;
+  user: string;
+  type: NotificationType;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  // Storefront path to open
+  link?: string;
+  product?: string;
+  order?: string;
+  read: boolean;
+}
+
+export interface NotificationQuery {
+  page?: number;
+  limit?: number;
+  unread?: boolean;
+}
+
+export interface NotificationListResponse extends ApiResponse, Paginated {
+  notifications: ApiNotification[];
+  unreadCount: number;
+}
+
+export interface NotificationResponse extends ApiResponse {
+  notification: ApiNotification;
+  unreadCount: number;
+}
+
+export interface UnreadCountResponse extends ApiResponse {
+  unreadCount: number;
+}
+
+// ============================================================================
+// ORDERS
+// ============================================================================
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
+export type PaymentMethod = 'razorpay' | 'upi' | 'cash_on_delivery';
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'expired' | 'partially_refunded' | 'refunded';
+
+export interface ShippingAddress {
+  fullName: string;
+  // 10-digit mobile number; missing on orders placed before it was asked for
+  phone?: string;
+  address: string;
+  city: string;
+  state: string;
+  // 6-digit PIN code
+  zipCode: string;
+  country: string;
+}
+
+// An address in the user's address book. While any are saved, exactly one
+// is the default.
+export interface SavedAddress extends ShippingAddress {
+  _id: string;
+  label: string;
+  phone: string;
+  isDefault: boolean;
+}
+
+export type SaveAddressRequest = Omit<SavedAddress, '_id' | 'isDefault'> & { isDefault?: boolean };
+
+export interface AddressListResponse extends ApiResponse {
+  addresses: SavedAddress[];
+}
+
+export interface AddressResponse extends AddressListResponse {
+  address: SavedAddress;
+}
+
+export interface OrderStatusChange {
+  // Absent on the entry that records the order being placed
+  from?: OrderStatus | null;
+  to: OrderStatus;
+  actor: {
+    type: 'customer' | 'admin' | 'system';
+    user?: string;
+  };
+  reason: string;
+  at: string;
+}
+
+export interface ApiOrderItem {
+  _id?: string;
+  productId?: Ref<ApiProduct> | null;
+  bundleId?: Ref<ApiBundle> | null;
+  variant?: VariantSelection;
+  sku?: string;
+  name: string;
+  quantity: number;
+  price: number;
+  image?: string;
+  // Units taken back off the order
+  cancelledQuantity?: number;
+  returnedQuantity?: number;
+}
+
+export type CancellationReason =
+  | 'changed_mind'
+  | 'ordered_by_mistake'
+  | 'found_better_price'
+  | 'delivery_too_slow'
+  | 'other';
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+// A cancellation or return request. Returns stay `requested` until the store
+// approves or rejects them; cancellations complete straight away. Either is
+// `processing` while its refund is with the payment provider.
+export interface OrderRefund {
+  _id: string;
+  kind: 'cancellation' | 'return';
+  status: 'requested' | 'processing' | 'completed' | 'rejected';
+  reasonCode: CancellationReason | ReturnReason;
+  comment: string;
+  items: { itemId: string; name?: string; quantity: number }[];
+  amount: number;
+  gatewayRefundId?: string;
+  resolutionNote: string;
+  requestedAt: string;
+  resolvedAt?: string;
+}
+
+export interface ApiOrder extends Timestamps {
+  _id: string;
+  user: string;
+  orderNumber: string;
+  items: ApiOrderItem[];
+  totalAmount: number;
+  pricing?: OrderPricing;
+  coupon?: {
+    code: string;
+    type: CouponType;
+    discount: number;
+  };
+  status: OrderStatus;
+  // Oldest first; orders placed before history was kept have none
+  statusHistory?: OrderStatusChange[];
+  shippingAddress: ShippingAddress;
+  // Missing on orders placed before shipping methods
+  shippingMethod?: ShippingMethod;
+  deliveryEstimate?: { earliest: string; latest: string };
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  refundedAmount?: number;
+  refunds?: OrderRefund[];
+  // Null for cash on delivery
+  paymentProvider?: PaymentProviderName | null;
+  paymentIntentId?: string;
+  paymentId?: string;
+  // Set on orders paid before payment providers were pluggable
+  razorpayOrderId?: string;
+  razorpayPaymentId?: string;
+  razorpaySignature?: string;
+  upiTransactionId?: string;
+  upiVPA?: string;
+  // Cash on delivery: when the courier collected the total
+  codCollectedAt?: string;
+  notes?: string;
+}
+
+// Orders are placed with cart lines only; the server prices them
+export interface CreateOrderRequest {
+  items: CartLineInput[];
+  couponCode?: string;
+  shippingAddress: ShippingAddress;
+  shippingMethod?: ShippingMethod;
+  paymentMethod: PaymentMethod;
+}
+
+// Leave `items` out to take back everything still open on the order
+export interface RefundRequest<Reason> {
+  items?: { itemId: string; quantity: number }[];
+  reasonCode: Reason;
+  comment?: string;
+}
+
+export type CancelOrderRequest = RefundRequest<CancellationReason>;
+export type ReturnOrderRequest = RefundRequest<ReturnReason>;
+
+export interface OrderListResponse extends ApiResponse {
+  orders: ApiOrder[];
+}
+
+export interface OrderResponse extends ApiResponse {
+  order: ApiOrder;
+}
+
+// ============================================================================
+// PAYMENTS
+// ============================================================================
+
+// Breakdown computed by the server pricing service
+export interface OrderPricing {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+export interface QuoteLine {
+  productId?: string;
+  bundleId?: string;
+  variant?: VariantSelection;
+  sku?: string;
+  name: string;
+  quantity: number;
+  price: number;
+  originalPrice?: number;
+  lineTotal: number;
+  image?: string;
+}
+
+export type CouponType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface AppliedCoupon {
+  code: string;
+  type: CouponType;
+  description: string;
+  discount: number;
+  freeShipping: boolean;
+}
+
+export type ShippingMethod = 'standard' | 'express';
+
+// Business days after ordering, and the dates they fall on (ISO strings)
+export interface DeliveryEstimate {
+  minDays: number;
+  maxDays: number;
+  earliest: string;
+  latest: string;
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  label: string;
+  // Zero when the order ships free
+  rate: number;
+  // Orders worth this much after discounts ship free; null if never
+  freeShippingThreshold: number | null;
+  estimate: DeliveryEstimate;
+}
+
+// Where and how a quoted order ships
+export interface QuoteDelivery {
+  pinCode: string;
+  zone: string;
+  method: ShippingMethod;
+  estimate: DeliveryEstimate;
+}
+
+export interface OrderQuote extends OrderPricing {
+  items: QuoteLine[];
+  coupon: AppliedCoupon | null;
+  savings: number;
+  // Null until the quote is asked for a PIN code; shipping is 0 until then
+  delivery: QuoteDelivery | null;
+  shippingOptions: ShippingOption[];
+  currency: string;
+}
+
+// The PIN code and method to price shipping for
+export interface QuoteShippingRequest {
+  pinCode?: string;
+  shippingMethod?: ShippingMethod;
+}
+
+export interface QuoteResponse extends ApiResponse {
+  quote: OrderQuote;
+  // Why the requested coupon wasn't applied; the quote is priced without it
+  couponError?: string;
+  // Why shipping couldn't be priced as asked; the quote leaves out the
+  // method, or the PIN code, that failed
+  shippingError?: string;
+}
+
+export interface ShippingEstimateRequest {
+  items: CartLineInput[];
+  pinCode: string;
+}
+
+// `message` says why when the PIN code can't be delivered to
+export interface ShippingEstimateResponse extends ApiResponse {
+  deliverable: boolean;
+  pinCode?: string;
+  zone?: string;
+  options: ShippingOption[];
+}
+
+export type PaymentProviderName = 'razorpay' | 'fake';
+
+// What the storefront adapter for each provider needs to collect a payment
+export interface RazorpayPaymentIntent {
+  provider: 'razorpay';
+  keyId: string;
+  razorpayOrderId: string;
+  // In paise
+  amount: number;
+  currency: string;
+}
+
+export interface FakePaymentIntent {
+  provider: 'fake';
+  intentId: string;
+  amount: number;
+  currency: string;
+}
+
+export type PaymentIntent = RazorpayPaymentIntent | FakePaymentIntent;
+
+export interface CreatePaymentRequest {
+  items: CartLineInput[];
+  couponCode?: string;
+  shippingAddress: ShippingAddress;
+  // Standard when left out
+  shippingMethod?: ShippingMethod;
+}
+
+export interface CreatePaymentResponse extends ApiResponse {
+  orderId: string;
+  orderNumber: string;
+  totalAmount: number;
+  intent: PaymentIntent;
+}
+
+export interface CreateUpiPaymentRequest extends CreatePaymentRequest {
+  upiVPA: string;
+}
+
+export interface CreateUpiPaymentResponse extends CreatePaymentResponse {
+  upiLink: string;
+}
+
+// Cash on delivery depends on the order total, the delivery PIN code and
+// the customer's past COD orders; `reasons` lists everything that rules it out
+export interface CodEligibilityResponse extends ApiResponse {
+  eligible: boolean;
+  reasons: string[];
+  maxOrderValue: number;
+}
+
+export interface CreateCodOrderResponse extends ApiResponse {
+  orderId: string;
+  orderNumber: string;
+  totalAmount: number;
+}
+
+// `payload` is the confirmation the provider's UI handed back; its fields
+// depend on the provider
+export interface VerifyPaymentRequest {
+  orderId: string;
+  payload: Record<string, string>;
+}
+
+// Drives a payment with the fake provider
+export interface SimulatePaymentRequest {
+  orderId: string;
+  outcome: 'success' | 'failure';
+  delayMs?: number;
+}
+
+export interface SimulatePaymentResponse extends ApiResponse {
+  // `processing` while a delayed payment waits; its outcome arrives by webhook
+  status: 'captured' | 'failed' | 'processing';
+  confirmation?: { paymentId: string; signature: string };
+}
+
+// Payment and fulfilment state of an order, as returned by the status
+// endpoint and pushed by the order status stream
+export interface OrderStatusUpdate {
+  paymentStatus: PaymentStatus;
+  paymentMethod: PaymentMethod;
+  orderStatus: OrderStatus;
+  totalAmount: number;
+}
+
+export type PaymentStatusResponse = ApiResponse & OrderStatusUpdate;
+
+export interface PaymentDetails {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  method: string;
+  email: string;
+  contact: string;
+  createdAt: number;
+}
+
+export interface PaymentDetailsResponse extends ApiResponse {
+  payment: PaymentDetails;
+}
+
+// ============================================================================
+// HEALTH
+// ============================================================================
+
+export interface HealthResponse extends ApiResponse {
+  timestamp: string;
+}
@@ -0,0 +1,49 @@
+// Variant selections and the cart line keys derived from them.
+// Mirrors src/backend/utils/variants.js so the client and server agree on
+// which selections are the same line item.
+import type { Product } from '../contexts/AppContext';
+import type { VariantSelection } from './types';
+
+// Trim values, drop blanks and sort keys so equal selections compare equal
+export const normalizeVariant = (variant?: VariantSelection | null): VariantSelection =>
+  Object.fromEntries(
+    Object.entries(variant || {})
+      .filter(([key, value]) => typeof value === 'string' && key.trim() && value.trim())
+      .map(([key, value]) => [key.trim(), value.trim()])
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+export const variantKey = (variant?: VariantSelection | null) =>
+  Object.entries(normalizeVariant(variant))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('|');
+
+// Identity of a cart line: the product plus its normalized selection
+export const cartLineKey = (productId: string, variant?: VariantSelection | null) => {
+  const key = variantKey(variant);
+  return key ? `${productId}::${key}` : productId;
+};
+
+export interface ResolvedVariant {
+  sku?: string;
+  price: number;
+  stock?: number;
+}
+
+// Price and stock for a selection; combinations without an override fall
+// back to the product's base price and stock
+export const resolveVariant = (product: Product, variant?: VariantSelection | null): ResolvedVariant => {
+  const key = variantKey(variant);
+  const match = key ? product.skus?.find(sku => variantKey(sku.attributes) === key) : undefined;
+
+  return {
+    sku: match?.sku,
+    price: match?.price ?? product.price,
+    stock: match?.stock ?? product.stock,
+  };
+};
+
+export const formatVariant = (variant?: VariantSelection | null) =>
+  Object.entries(normalizeVariant(variant))
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(' · ');